@@ -3,12 +3,47 @@
  * 
  * Captures browser tab/window at 1 FPS and converts frames to base64 JPEG.
  * Used for Gemini 3 Agentic Vision analysis.
+ *
+ * In 'dom' mode frames are rendered from the page's DOM instead (see
+ * snapshot.ts): no screen-share prompt, and only the viewport is sent.
  * 
  * Day 4: Added scroll offset tracking to solve overlay misalignment.
  * Each captured frame records scrollX/scrollY at capture time so the
  * overlay engine can adjust coordinates when rendering.
+ *
+ * Sensitive regions (see redaction.ts) are masked on the canvas before
+ * each frame is encoded. Masks are measured from the DOM, so a frame is
+ * withheld (FrameWithheldError) when they can't be trusted to line up:
+ * while the page is scrolling, or when the share isn't just this tab.
+ * DOM snapshots are always aligned with their masks.
  */
 
+import { Redactor, RedactionConfig } from './redaction';
+import { DOMSnapshotRenderer } from './snapshot';
+
+/** 'display': getDisplayMedia screen share; 'dom': rendered from the DOM */
+export type CaptureMode = 'display' | 'dom';
+
+export interface ScreenCaptureOptions {
+  /** Where frames come from (default: 'display') */
+  mode?: CaptureMode;
+  /** What to mask in frames before they are encoded */
+  redaction?: RedactionConfig;
+}
+
+/** Frames are downsized to this width for faster transmission and processing */
+const MAX_FRAME_WIDTH = 1024;
+
+/** Why a frame wasn't produced (nothing was sent) */
+export type FrameWithheldReason = 'not_a_tab' | 'scrolling';
+
+export class FrameWithheldError extends Error {
+  constructor(public readonly reason: FrameWithheldReason, message: string) {
+    super(message);
+    this.name = 'FrameWithheldError';
+  }
+}
+
 /** Frame capture result with scroll context */
 export interface CapturedFrame {
   base64: string;     // Base64 JPEG (no data URL prefix)
@@ -25,11 +60,17 @@ export class ScreenCapture {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
   private isCapturing: boolean = false;
+  private mode: CaptureMode;
+  private redactor: Redactor;
+  private snapshots: DOMSnapshotRenderer;
   
   /** Last captured frame metadata (for scroll offset correction) */
   private lastFrameScroll: { scrollX: number; scrollY: number } = { scrollX: 0, scrollY: 0 };
 
-  constructor() {
+  constructor(options: ScreenCaptureOptions = {}) {
+    this.mode = options.mode ?? 'display';
+    this.redactor = new Redactor(options.redaction);
+    this.snapshots = new DOMSnapshotRenderer(this.redactor);
     this.canvas = document.createElement('canvas');
     const ctx = this.canvas.getContext('2d');
     if (!ctx) {
@@ -45,15 +86,19 @@ export class ScreenCapture {
   /**
    * Check if screen capture is supported in this browser
    */
-  static isSupported(): boolean {
+  static isSupported(mode: CaptureMode = 'display'): boolean {
+    if (mode === 'dom') {
+      return DOMSnapshotRenderer.isSupported();
+    }
     return !!(navigator.mediaDevices && navigator.mediaDevices.getDisplayMedia);
   }
 
   /**
    * Start screen capture - prompts user to select screen/window/tab
+   * (in 'dom' mode there is nothing to prompt for)
    */
   async start(): Promise<void> {
-    if (!ScreenCapture.isSupported()) {
+    if (!ScreenCapture.isSupported(this.mode)) {
       throw new Error('Screen capture not supported in this browser');
     }
 
@@ -62,11 +107,19 @@ export class ScreenCapture {
       return;
     }
 
+    if (this.mode === 'dom') {
+      this.isCapturing = true;
+      console.log('[Ocula] DOM snapshot capture started');
+      return;
+    }
+
     try {
       this.stream = await navigator.mediaDevices.getDisplayMedia({
         video: {
           displaySurface: 'browser', // Prefer browser tab
-          frameRate: 1, // 1 FPS is sufficient for analysis
+          // Frames are sampled at 1 FPS; a faster stream keeps the sampled
+          // frame within ~200ms of the DOM the redaction masks come from
+          frameRate: 5,
         },
         audio: false
       });
@@ -78,6 +131,7 @@ export class ScreenCapture {
 
       this.video.srcObject = this.stream;
       await this.video.play();
+      this.redactor.start();
       this.isCapturing = true;
 
       console.log('[Ocula] Screen capture started');
@@ -91,42 +145,22 @@ export class ScreenCapture {
   /**
    * Capture a single frame as base64 JPEG
    * Frames are downsized to max 1024px wide for faster transmission and processing.
+   * Sensitive regions are masked before encoding.
+   * @throws FrameWithheldError if the masks can't be placed reliably
    * @param quality - JPEG quality (0-1), default 0.7
    * @returns Base64 encoded JPEG string (without data URL prefix)
    */
-  captureFrame(quality: number = 0.7): string {
-    if (!this.stream || !this.isCapturing) {
-      throw new Error('Stream not started. Call start() first.');
-    }
-
-    // Ensure video has dimensions
-    if (this.video.videoWidth === 0 || this.video.videoHeight === 0) {
-      throw new Error('Video stream not ready');
+  async captureFrame(quality: number = 0.7): Promise<string> {
+    if (!this.isCapturing) {
+      throw new Error('Capture not started. Call start() first.');
     }
 
-    // Record scroll position at capture time
-    this.lastFrameScroll = {
-      scrollX: window.scrollX,
-      scrollY: window.scrollY,
-    };
-
-    // Downsize to max 1024px wide for lower latency
-    const MAX_WIDTH = 1024;
-    let drawWidth = this.video.videoWidth;
-    let drawHeight = this.video.videoHeight;
-    if (drawWidth > MAX_WIDTH) {
-      const scale = MAX_WIDTH / drawWidth;
-      drawWidth = MAX_WIDTH;
-      drawHeight = Math.round(drawHeight * scale);
+    if (this.mode === 'dom') {
+      await this.drawSnapshot();
+    } else {
+      this.drawVideoFrame();
     }
 
-    // Set canvas to (possibly downsized) dimensions
-    this.canvas.width = drawWidth;
-    this.canvas.height = drawHeight;
-
-    // Draw video frame to canvas (browser does the downscaling)
-    this.ctx.drawImage(this.video, 0, 0, drawWidth, drawHeight);
-
     // Convert to base64 JPEG
     const dataUrl = this.canvas.toDataURL('image/jpeg', quality);
     
@@ -138,8 +172,8 @@ export class ScreenCapture {
    * Capture frame with full metadata (scroll position, viewport size)
    * Used for accurate overlay positioning.
    */
-  captureFrameWithContext(quality: number = 0.7): CapturedFrame {
-    const base64 = this.captureFrame(quality);
+  async captureFrameWithContext(quality: number = 0.7): Promise<CapturedFrame> {
+    const base64 = await this.captureFrame(quality);
     return {
       base64,
       scrollX: this.lastFrameScroll.scrollX,
@@ -150,6 +184,91 @@ export class ScreenCapture {
     };
   }
 
+  /**
+   * Draw the current screen-share frame to the canvas, masked
+   */
+  private drawVideoFrame(): void {
+    if (!this.stream) {
+      throw new Error('Stream not started. Call start() first.');
+    }
+
+    // Ensure video has dimensions
+    if (this.video.videoWidth === 0 || this.video.videoHeight === 0) {
+      throw new Error('Video stream not ready');
+    }
+
+    const redactions = this.redactor.collect();
+    if (redactions.length > 0) {
+      if (!this.isViewportFrame()) {
+        throw new FrameWithheldError('not_a_tab', 'Share this browser tab so sensitive fields can be hidden');
+      }
+      if (!this.redactor.isSettled()) {
+        throw new FrameWithheldError('scrolling', 'Page is scrolling');
+      }
+    }
+
+    // Record scroll position at capture time
+    this.lastFrameScroll = {
+      scrollX: window.scrollX,
+      scrollY: window.scrollY,
+    };
+
+    this.fitCanvas(this.video.videoWidth, this.video.videoHeight);
+    const { width, height } = this.canvas;
+
+    // Draw video frame to canvas (browser does the downscaling)
+    this.ctx.drawImage(this.video, 0, 0, width, height);
+
+    // Mask sensitive regions (the frame is the viewport, scaled)
+    if (redactions.length > 0) {
+      this.redactor.apply(this.ctx, redactions, width / window.innerWidth, height / window.innerHeight);
+    }
+  }
+
+  /**
+   * Render the page from the DOM to the canvas, masked
+   */
+  private async drawSnapshot(): Promise<void> {
+    const snapshot = await this.snapshots.render();
+
+    this.fitCanvas(snapshot.width, snapshot.height);
+    const { width, height } = this.canvas;
+
+    // Transparent areas would encode as black
+    this.ctx.fillStyle = '#fff';
+    this.ctx.fillRect(0, 0, width, height);
+    this.ctx.drawImage(snapshot.image, 0, 0, width, height);
+    this.redactor.apply(this.ctx, snapshot.redactions, width / snapshot.width, height / snapshot.height);
+
+    this.lastFrameScroll = {
+      scrollX: snapshot.scrollX,
+      scrollY: snapshot.scrollY,
+    };
+  }
+
+  /**
+   * Size the canvas for a source, downsized to max 1024px wide for lower latency
+   */
+  private fitCanvas(sourceWidth: number, sourceHeight: number): void {
+    const scale = Math.min(1, MAX_FRAME_WIDTH / sourceWidth);
+    this.canvas.width = Math.round(sourceWidth * scale);
+    this.canvas.height = Math.round(sourceHeight * scale);
+  }
+
+  /**
+   * Whether the video shows exactly this tab's viewport, so DOM rects map
+   * onto it by scaling. A window or screen share also shows the browser's
+   * own UI at an unknown offset (unless the page is fullscreen).
+   */
+  private isViewportFrame(): boolean {
+    const surface = this.stream?.getVideoTracks()[0]?.getSettings().displaySurface;
+    if (surface === 'browser') return true;
+
+    const frameAspect = this.video.videoWidth / this.video.videoHeight;
+    const viewportAspect = window.innerWidth / window.innerHeight;
+    return Math.abs(frameAspect / viewportAspect - 1) < 0.01;
+  }
+
   /**
    * Get the scroll position from the last captured frame
    * Used by overlay engine to compensate for scroll delta
@@ -162,6 +281,9 @@ export class ScreenCapture {
    * Get current capture dimensions
    */
   getDimensions(): { width: number; height: number } {
+    if (this.mode === 'dom') {
+      return { width: window.innerWidth, height: window.innerHeight };
+    }
     return {
       width: this.video.videoWidth,
       height: this.video.videoHeight
@@ -185,6 +307,7 @@ export class ScreenCapture {
     }
     
     this.video.srcObject = null;
+    this.redactor.stop();
     this.isCapturing = false;
     
     console.log('[Ocula] Screen capture stopped');
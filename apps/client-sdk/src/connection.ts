@@ -3,11 +3,21 @@
  * 
  * Handles bidirectional communication with the Ocula server,
  * including message framing, reconnection, and event handling.
+ *
+ * Reconnects present the resume token from the last `connected` message
+ * so the server restores the session instead of starting over. The token
+ * is kept in sessionStorage, so it also survives page navigations.
+ *
+ * A visitor id kept in localStorage is sent with every handshake so the
+ * server can recognise returning visitors (e.g. to onboard them only once).
  */
 
+import type { NormalizedBox, NormalizedPoint, OverlayRect, OverlayResult, OverlayStatus } from './overlay';
+import type { GuidedTaskStep, TaskProgressStatus } from './guided-task';
+
 /** Message types sent to server */
 export interface ClientMessage {
-  type: 'frame' | 'audio' | 'text' | 'user_query' | 'ping' | 'selector_map';
+  type: 'frame' | 'audio' | 'text' | 'user_query' | 'ping' | 'selector_map' | 'overlay_result' | 'task_progress';
   data?: string;      // Base64 data for frame/audio
   text?: string;      // Text content for text/user_query
   frame?: string;     // Screen frame for user_query
@@ -15,34 +25,68 @@ export interface ClientMessage {
   scrollX?: number;   // Scroll offset X at capture time
   scrollY?: number;   // Scroll offset Y at capture time
   selectors?: Array<{ selector: string; label: string; category: string }>; // DOM selector map
+  commandId?: string;   // Draw command an overlay_result answers (Live tool draws)
+  selector?: string;    // Selector an overlay_result is about
+  status?: OverlayStatus; // Whether the highlight rendered, and why not
+  rect?: OverlayRect;   // Document-relative bounds of the highlighted element
+  stepIndex?: number;   // Step of a highlight sequence or guided task
+  taskId?: string;      // Guided task a task_progress is about
+  progress?: TaskProgressStatus; // Guided task step progress
 }
 
 /** Message types received from server */
 export interface ServerMessage {
-  type: 'assistant_response' | 'audio' | 'draw' | 'clear' | 'highlight_sequence' | 'error' | 'connected' | 'pong';
+  type: 'assistant_response' | 'assistant_delta' | 'assistant_progress' | 'assistant_done' | 'audio' | 'draw' | 'draw_shape' | 'clear' | 'highlight_sequence' | 'guided_task' | 'error' | 'connected' | 'pong' | 'status';
   text?: string;
   data?: string;            // Base64 audio data
+  status?: VoiceStatus;     // For status messages
+  attempt?: number;         // Reconnect attempt (status: reconnecting)
   visualCommands?: VisualCommand[];
   action?: string;          // For draw commands
   selector?: string;        // For highlight commands
   label?: string;
+  tool?: string;            // Tool the agent is running (assistant_progress)
   error?: string;
+  code?: string;            // Machine-readable error code (e.g. "platform_unknown")
   sessionId?: string;
+  resumeToken?: string;     // Presented as ?resume= on reconnect
+  resumed?: boolean;        // Whether the server restored an earlier session
   /** Highlight sequence steps for multi-element walkthroughs */
   steps?: Array<{ selector: string; label: string; delay_ms?: number }>;
+  /** Coordinate overlay to draw (draw_shape) */
+  shape?: 'arrow' | 'circle' | 'box';
+  point?: NormalizedPoint;  // [y, x] 0-1000, for arrow/circle
+  box?: NormalizedBox;      // [y1, x1, y2, x2] 0-1000, for box
+  /** Guided task to run (guided_task) */
+  taskId?: string;
+  taskSteps?: GuidedTaskStep[];
   /** Scroll context at the time the frame was captured */
   scrollX?: number;
   scrollY?: number;
+  /** Present when the server waits on the overlay_result for this draw */
+  commandId?: string;
 }
 
+/** Voice session status reported by the server */
+export type VoiceStatus = 'reconnecting' | 'reconnected';
+
 /** Visual command structure */
 export interface VisualCommand {
-  type: 'highlight_element' | 'highlight_sequence' | 'clear';
+  type: 'highlight_element' | 'highlight_sequence' | 'guided_task' | 'arrow' | 'circle' | 'box' | 'clear';
   selector?: string;
   label?: string;
   action?: 'apply' | 'clear';
   /** Steps for highlight_sequence commands */
   steps?: Array<{ selector: string; label: string; delay_ms?: number }>;
+  /** Vision-space target for arrow/circle commands */
+  point?: NormalizedPoint;
+  /** Vision-space region for box commands */
+  box?: NormalizedBox;
+  /** Guided task id and steps (guided_task) */
+  taskId?: string;
+  taskSteps?: GuidedTaskStep[];
+  /** Set when the server waits on the overlay_result */
+  commandId?: string;
 }
 
 /** Connection event handlers */
@@ -54,37 +98,119 @@ export interface ConnectionEventHandlers {
   onAudio?: (base64Audio: string) => void;
   onDraw?: (command: VisualCommand, scrollX?: number, scrollY?: number) => void;
   onResponse?: (text: string, visualCommands?: VisualCommand[], scrollX?: number, scrollY?: number) => void;
+  /** Next chunk of a streaming agent answer */
+  onResponseDelta?: (text: string) => void;
+  /** The agent started running a tool (e.g. inspect_screen) */
+  onProgress?: (tool: string) => void;
+  /** A streaming agent answer finished; text is the complete answer */
+  onResponseDone?: (text: string, visualCommands?: VisualCommand[], scrollX?: number, scrollY?: number) => void;
+  onServerError?: (error: string, code?: string) => void;
+  onSession?: (sessionId: string, resumed: boolean) => void;
+  onStatus?: (status: VoiceStatus, attempt?: number) => void;
 }
 
 /** Connection configuration */
 export interface ConnectionConfig {
   url: string;
+  /** Platform id from the dashboard embed snippet, sent on the handshake */
+  platformId?: string;
+  /**
+   * Publishable key from the embed snippet, exchanged for a widget token
+   * before each connect (the server refuses handshakes without one)
+   */
+  publishableKey?: string;
+  /** Visitor's locale, sent on the handshake so the assistant speaks it */
+  locale?: string;
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
 }
 
+/** sessionStorage key prefix for resume tokens */
+const RESUME_TOKEN_KEY = 'ocula-resume-token';
+
+/** localStorage key for the persistent visitor id */
+const VISITOR_ID_KEY = 'ocula-visitor-id';
+
 /**
  * OculaConnection - WebSocket connection manager
  */
 export class OculaConnection {
   private ws: WebSocket | null = null;
-  private config: Required<ConnectionConfig>;
+  private config: Required<Omit<ConnectionConfig, 'platformId' | 'publishableKey' | 'locale'>> & Pick<ConnectionConfig, 'platformId' | 'publishableKey' | 'locale'>;
   private handlers: ConnectionEventHandlers;
   private reconnectAttempts: number = 0;
   private reconnectTimer: number | null = null;
   private sessionId: string;
+  private resumeToken: string | null;
+  private visitorId: string | null;
   private isConnected: boolean = false;
 
   constructor(config: ConnectionConfig, handlers: ConnectionEventHandlers = {}) {
     this.config = {
       url: config.url,
+      platformId: config.platformId,
+      publishableKey: config.publishableKey,
+      locale: config.locale,
       reconnect: config.reconnect ?? true,
       reconnectInterval: config.reconnectInterval ?? 3000,
       maxReconnectAttempts: config.maxReconnectAttempts ?? 5,
     };
     this.handlers = handlers;
     this.sessionId = this.generateSessionId();
+    this.resumeToken = this.loadResumeToken();
+    this.visitorId = this.loadVisitorId();
+  }
+
+  /**
+   * Read or mint the visitor id (null if localStorage is unavailable,
+   * in which case every visit counts as a first visit)
+   */
+  private loadVisitorId(): string | null {
+    try {
+      let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+      if (!visitorId) {
+        visitorId = `v_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 12)}`;
+        localStorage.setItem(VISITOR_ID_KEY, visitorId);
+      }
+      return visitorId;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Storage key for this platform's resume token
+   */
+  private get resumeTokenKey(): string {
+    return `${RESUME_TOKEN_KEY}:${this.config.platformId ?? ''}`;
+  }
+
+  /**
+   * Read a stored resume token (sessionStorage may be unavailable)
+   */
+  private loadResumeToken(): string | null {
+    try {
+      return sessionStorage.getItem(this.resumeTokenKey);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remember (or forget, with null) the resume token
+   */
+  private storeResumeToken(token: string | null): void {
+    this.resumeToken = token;
+    try {
+      if (token) {
+        sessionStorage.setItem(this.resumeTokenKey, token);
+      } else {
+        sessionStorage.removeItem(this.resumeTokenKey);
+      }
+    } catch {
+      // Resumption still works within this page without storage
+    }
   }
 
   /**
@@ -101,6 +227,53 @@ export class OculaConnection {
     return this.sessionId;
   }
 
+  /**
+   * Exchange the publishable key for a short-lived widget token
+   *
+   * The token endpoint sits next to /ws on the same server. Tokens are
+   * only valid for a few minutes, so a new one is fetched for every
+   * connect, including reconnects.
+   */
+  private async fetchWidgetToken(): Promise<string> {
+    const url = new URL(this.config.url);
+    url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+    url.pathname = url.pathname.replace(/\/ws\/?$/, '') + '/token';
+    url.search = '';
+    url.searchParams.set('key', this.config.publishableKey ?? '');
+
+    const response = await fetch(url.toString());
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data.token !== 'string') {
+      const message = data.error || `Could not get a widget token (HTTP ${response.status})`;
+      this.handlers.onServerError?.(message, data.code);
+      throw new Error(message);
+    }
+    return data.token;
+  }
+
+  /**
+   * Build the handshake URL with the platform id, widget token, visitor id, locale and resume token
+   */
+  private buildUrl(widgetToken: string | null): string {
+    const url = new URL(this.config.url);
+    if (this.config.platformId) {
+      url.searchParams.set('platformId', this.config.platformId);
+    }
+    if (widgetToken) {
+      url.searchParams.set('token', widgetToken);
+    }
+    if (this.visitorId) {
+      url.searchParams.set('visitor', this.visitorId);
+    }
+    if (this.config.locale) {
+      url.searchParams.set('locale', this.config.locale);
+    }
+    if (this.resumeToken) {
+      url.searchParams.set('resume', this.resumeToken);
+    }
+    return url.toString();
+  }
+
   /**
    * Connect to Ocula server
    */
@@ -110,9 +283,12 @@ export class OculaConnection {
       return;
     }
 
+    // Without a key the server refuses the handshake and says why
+    const widgetToken = this.config.publishableKey ? await this.fetchWidgetToken() : null;
+
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.config.url);
+        this.ws = new WebSocket(this.buildUrl(widgetToken));
 
         this.ws.onopen = () => {
           console.log('[Ocula] WebSocket connected');
@@ -176,6 +352,19 @@ export class OculaConnection {
               selector: message.selector,
               label: message.label,
               action: message.action as VisualCommand['action'],
+              commandId: message.commandId,
+            }, message.scrollX, message.scrollY);
+          }
+          break;
+
+        case 'draw_shape':
+          if (message.shape) {
+            this.handlers.onDraw?.({
+              type: message.shape,
+              point: message.point,
+              box: message.box,
+              label: message.label,
+              commandId: message.commandId,
             }, message.scrollX, message.scrollY);
           }
           break;
@@ -189,10 +378,22 @@ export class OculaConnection {
             this.handlers.onDraw?.({
               type: 'highlight_sequence',
               steps: message.steps,
+              commandId: message.commandId,
             }, message.scrollX, message.scrollY);
           }
           break;
 
+        case 'guided_task':
+          if (message.taskId && message.taskSteps && message.taskSteps.length > 0) {
+            this.handlers.onDraw?.({
+              type: 'guided_task',
+              taskId: message.taskId,
+              taskSteps: message.taskSteps,
+              commandId: message.commandId,
+            });
+          }
+          break;
+
         case 'assistant_response':
           this.handlers.onResponse?.(
             message.text || '',
@@ -202,12 +403,44 @@ export class OculaConnection {
           );
           break;
 
+        case 'assistant_delta':
+          if (message.text) {
+            this.handlers.onResponseDelta?.(message.text);
+          }
+          break;
+
+        case 'assistant_progress':
+          if (message.tool) {
+            this.handlers.onProgress?.(message.tool);
+          }
+          break;
+
+        case 'assistant_done':
+          this.handlers.onResponseDone?.(
+            message.text || '',
+            message.visualCommands,
+            message.scrollX,
+            message.scrollY
+          );
+          break;
+
         case 'connected':
-          console.log('[Ocula] Session established:', message.sessionId);
+          console.log(`[Ocula] Session ${message.resumed ? 'resumed' : 'established'}:`, message.sessionId);
+          if (message.sessionId) this.sessionId = message.sessionId;
+          this.storeResumeToken(message.resumeToken ?? null);
+          this.handlers.onSession?.(this.sessionId, message.resumed ?? false);
           break;
 
         case 'error':
-          console.error('[Ocula] Server error:', message.error);
+          console.error('[Ocula] Server error:', message.code ?? '', message.error);
+          this.handlers.onServerError?.(message.error || 'Unknown server error', message.code);
+          break;
+
+        case 'status':
+          if (message.status) {
+            console.log('[Ocula] Voice session', message.status, message.attempt ?? '');
+            this.handlers.onStatus?.(message.status, message.attempt);
+          }
           break;
 
         case 'pong':
@@ -233,7 +466,12 @@ export class OculaConnection {
     console.log(`[Ocula] Reconnecting in ${this.config.reconnectInterval}ms (attempt ${this.reconnectAttempts}/${this.config.maxReconnectAttempts})`);
 
     this.reconnectTimer = window.setTimeout(() => {
-      this.connect().catch(console.error);
+      this.connect().catch((error) => {
+        console.error(error);
+        // A token fetch that failed on the network opened no socket, so
+        // no close event will schedule the next attempt
+        if (error instanceof TypeError) this.scheduleReconnect();
+      });
     }, this.config.reconnectInterval);
   }
 
@@ -285,6 +523,20 @@ export class OculaConnection {
     this.send({ type: 'selector_map', selectors });
   }
 
+  /**
+   * Report how a highlight (or one step of a sequence) rendered
+   */
+  sendOverlayResult(selector: string, result: OverlayResult, commandId?: string, stepIndex?: number): void {
+    this.send({ type: 'overlay_result', selector, status: result.status, rect: result.rect, commandId, stepIndex });
+  }
+
+  /**
+   * Report guided task progress so the server can narrate along
+   */
+  sendTaskProgress(taskId: string, stepIndex: number, progress: TaskProgressStatus): void {
+    this.send({ type: 'task_progress', taskId, stepIndex, progress });
+  }
+
   /**
    * Send ping for keepalive
    */
@@ -313,6 +565,9 @@ export class OculaConnection {
       this.ws = null;
     }
 
+    // A deliberate disconnect ends the session server-side
+    this.storeResumeToken(null);
+
     this.isConnected = false;
     console.log('[Ocula] Disconnected');
   }
@@ -0,0 +1,279 @@
+/**
+ * Guided Tasks — Step-by-step walkthroughs that wait for the user
+ *
+ * Highlight sequences advance on a timer whether or not the user did
+ * anything. A guided task keeps each step highlighted until its
+ * completion condition is met on the page:
+ * - click: the user clicks the highlighted element (or anything inside it)
+ * - url_change: the URL changes (client-side routing, hash changes)
+ * - element_visible: an element matching `target` is shown
+ * - input_value: the highlighted (or `target`) field gets a value —
+ *   exactly `value` if given, otherwise anything non-empty
+ * - delay: nothing to do; the step moves on after `delay_ms` (explanatory
+ *   steps in author-defined product tours)
+ *
+ * Every step reports its render result and its progress (started once
+ * its highlight is drawn, completed, stalled, failed) so the server can
+ * narrate along. A task lives in the current page; a full page load ends it.
+ */
+
+import { OverlayEngine, OverlayResult } from './overlay';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type CompletionCondition = 'click' | 'url_change' | 'element_visible' | 'input_value' | 'delay';
+
+export interface GuidedTaskStep {
+  /** Element to highlight for this step */
+  selector: string;
+  label: string;
+  /** What finishes the step (default: click) */
+  wait_for?: CompletionCondition;
+  /** Element watched by element_visible / input_value (default: selector) */
+  target?: string;
+  /** Exact value input_value waits for (default: any non-empty value) */
+  value?: string;
+  /** How long a delay step stays up (default: 4000) */
+  delay_ms?: number;
+}
+
+export type TaskProgressStatus =
+  | 'step_started'
+  | 'step_completed'
+  | 'step_stalled'
+  | 'step_failed'
+  | 'task_completed'
+  | 'task_cancelled';
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** How often non-event conditions (URL, visibility, values) are re-checked */
+const POLL_INTERVAL_MS = 300;
+
+/** How long a step's element may take to show up (e.g. inside a modal the previous step opened) */
+const APPEAR_TIMEOUT_MS = 2500;
+
+/** How long a delay step stays up by default */
+const DEFAULT_DELAY_MS = 4000;
+
+/** When a step counts as stalled (reported once; the task keeps waiting) */
+const STALL_AFTER_MS = 30000;
+
+/** Page events that can complete a step */
+const DOCUMENT_EVENTS = ['click', 'input', 'change'] as const;
+const WINDOW_EVENTS = ['popstate', 'hashchange'] as const;
+
+// ── Condition checks ─────────────────────────────────────────────────
+
+function queryElement(selector: string): HTMLElement | null {
+  try {
+    return document.querySelector(selector) as HTMLElement | null;
+  } catch {
+    return null;
+  }
+}
+
+/** Whether an event target is the element (or inside it) */
+function isWithin(target: EventTarget | null, selector: string): boolean {
+  try {
+    return target instanceof Element && target.closest(selector) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function isVisible(selector: string): boolean {
+  const element = queryElement(selector);
+  if (!element) return false;
+  const style = getComputedStyle(element);
+  if (style.display === 'none' || style.visibility === 'hidden') return false;
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 && rect.height > 0;
+}
+
+function hasValue(selector: string, expected?: string): boolean {
+  const element = queryElement(selector);
+  if (!element) return false;
+
+  let current: string;
+  if (element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')) {
+    current = element.checked ? element.value || 'on' : '';
+  } else if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLSelectElement
+  ) {
+    current = element.value;
+  } else {
+    current = element.isContentEditable ? element.textContent ?? '' : '';
+  }
+
+  return expected !== undefined ? current.trim() === expected.trim() : current.trim() !== '';
+}
+
+// ── Runner ───────────────────────────────────────────────────────────
+
+/**
+ * GuidedTaskRunner — Plays one guided task at a time on the overlay engine
+ */
+export class GuidedTaskRunner {
+  private abortController: AbortController | null = null;
+
+  constructor(private overlay: OverlayEngine) {}
+
+  isRunning(): boolean {
+    return this.abortController !== null;
+  }
+
+  /**
+   * Cancel the running task (it reports task_cancelled)
+   */
+  cancel(): void {
+    if (this.abortController) {
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Run a task, replacing any task still in progress
+   *
+   * A step whose element never shows up fails the task; the server
+   * decides what to do next.
+   */
+  async run(
+    steps: GuidedTaskStep[],
+    onStepResult: (stepIndex: number, result: OverlayResult) => void,
+    onProgress: (stepIndex: number, status: TaskProgressStatus) => void
+  ): Promise<void> {
+    this.cancel();
+    this.overlay.cancelSequence();
+
+    const controller = new AbortController();
+    this.abortController = controller;
+    const { signal } = controller;
+
+    console.log(`[Ocula] Starting guided task with ${steps.length} steps`);
+
+    let stepIndex = 0;
+    for (; stepIndex < steps.length; stepIndex++) {
+      const step = steps[stepIndex];
+
+      await this.overlay.clearAllHighlightsAnimated();
+      if (signal.aborted) {
+        onStepResult(stepIndex, { status: 'aborted' });
+        break;
+      }
+
+      const result = await this.showStep(step, signal);
+      onStepResult(stepIndex, result);
+      if (signal.aborted) break;
+      if (result.status !== 'rendered') {
+        onProgress(stepIndex, 'step_failed');
+        this.finish(controller);
+        return;
+      }
+
+      // Only now is there a highlight for the server to narrate
+      onProgress(stepIndex, 'step_started');
+
+      // The highlight stays up until the user acts, however long that takes
+      this.overlay.holdHighlights();
+      const completed = await this.waitForCompletion(step, signal, () => onProgress(stepIndex, 'step_stalled'));
+      if (!completed) break;
+      onProgress(stepIndex, 'step_completed');
+    }
+
+    if (signal.aborted) {
+      console.log('[Ocula] Guided task cancelled');
+      onProgress(Math.min(stepIndex, steps.length - 1), 'task_cancelled');
+    } else {
+      await this.overlay.clearAllHighlightsAnimated();
+      console.log('[Ocula] Guided task completed');
+      onProgress(steps.length - 1, 'task_completed');
+    }
+    this.finish(controller);
+  }
+
+  private finish(controller: AbortController): void {
+    if (this.abortController === controller) {
+      this.abortController = null;
+    }
+  }
+
+  /**
+   * Highlight a step, giving its element a moment to appear
+   */
+  private async showStep(step: GuidedTaskStep, signal: AbortSignal): Promise<OverlayResult> {
+    const deadline = Date.now() + APPEAR_TIMEOUT_MS;
+
+    for (;;) {
+      const result = this.overlay.highlightElementBySelector(step.selector, step.label, 'apply');
+      if (result.status === 'rendered' || result.status === 'invalid_selector' || Date.now() >= deadline) {
+        return result;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      if (signal.aborted) return { status: 'aborted' };
+    }
+  }
+
+  /**
+   * Resolve true once the step's condition is met, false if the task is cancelled
+   */
+  private waitForCompletion(step: GuidedTaskStep, signal: AbortSignal, onStall: () => void): Promise<boolean> {
+    const condition = step.wait_for ?? 'click';
+    if (condition === 'delay') {
+      return new Promise(resolve => {
+        const timer = setTimeout(() => resolve(!signal.aborted), step.delay_ms ?? DEFAULT_DELAY_MS);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          resolve(false);
+        }, { once: true });
+      });
+    }
+
+    const target = step.target || step.selector;
+    const startUrl = location.href;
+
+    const isMet = (event?: Event): boolean => {
+      switch (condition) {
+        case 'click':
+          return event?.type === 'click' && isWithin(event.target, step.selector);
+        case 'url_change':
+          return location.href !== startUrl;
+        case 'element_visible':
+          return isVisible(target);
+        case 'input_value':
+          return hasValue(target, step.value);
+      }
+    };
+
+    return new Promise(resolve => {
+      // Capture phase, so page handlers that stop propagation don't hide the click
+      const check = (event?: Event) => {
+        if (isMet(event)) finish(true);
+      };
+      const poll = setInterval(() => check(), POLL_INTERVAL_MS);
+      const stallTimer = setTimeout(onStall, STALL_AFTER_MS);
+      const onAbort = () => finish(false);
+
+      const finish = (completed: boolean) => {
+        clearInterval(poll);
+        clearTimeout(stallTimer);
+        DOCUMENT_EVENTS.forEach(type => document.removeEventListener(type, check, true));
+        WINDOW_EVENTS.forEach(type => window.removeEventListener(type, check));
+        signal.removeEventListener('abort', onAbort);
+        resolve(completed);
+      };
+
+      DOCUMENT_EVENTS.forEach(type => document.addEventListener(type, check, true));
+      WINDOW_EVENTS.forEach(type => window.addEventListener(type, check));
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      if (signal.aborted) finish(false);
+    });
+  }
+}
+
+export default GuidedTaskRunner;
@@ -0,0 +1,205 @@
+/**
+ * i18n - Widget UI strings and locale detection
+ *
+ * The widget's locale is the explicit `locale` option (data-locale on the
+ * script tag) or the browser's navigator.language. It picks the chat
+ * widget's strings and is sent to the server on the handshake, so the
+ * assistant greets and answers in the same language.
+ *
+ * Built-in catalogs cover the languages below; anything else falls back
+ * to English. Embedders can override individual strings (e.g. to use
+ * their assistant's name in the header).
+ */
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface WidgetStrings {
+  /** Chat card header */
+  title: string;
+  minimize: string;
+  liveBadge: string;
+  welcomeTitle: string;
+  welcomeBody: string;
+  inputPlaceholder: string;
+  goLive: string;
+  /** System messages in the chat */
+  startingLive: string;
+  liveActive: string;
+  liveFailed: string;
+  liveStopped: string;
+  visualGuideShown: string;
+  voiceReconnecting: string;
+  voiceReconnected: string;
+  /** Shown while the agent runs a tool for a typed question */
+  progressInspectScreen: string;
+  progressSearching: string;
+  progressPreparingGuide: string;
+  progressWorking: string;
+}
+
+// ── Catalogs ─────────────────────────────────────────────────────────
+
+const CATALOGS: Record<string, WidgetStrings> = {
+  en: {
+    title: 'Ocula AI',
+    minimize: 'Minimize',
+    liveBadge: 'LIVE',
+    welcomeTitle: "Hi! I'm Ocula AI",
+    welcomeBody: 'Ask me anything or go live to share your screen and get visual guidance.',
+    inputPlaceholder: 'Ask a question...',
+    goLive: 'Go Live — share screen + voice',
+    startingLive: 'Starting screen share + voice...',
+    liveActive: 'Live — screen sharing and voice active',
+    liveFailed: 'Could not start live mode. Allow screen sharing permissions.',
+    liveStopped: 'Live mode stopped',
+    visualGuideShown: 'Visual guide shown on screen',
+    voiceReconnecting: 'Voice connection interrupted — reconnecting...',
+    voiceReconnected: 'Voice reconnected',
+    progressInspectScreen: 'Looking at your screen…',
+    progressSearching: 'Searching the help docs…',
+    progressPreparingGuide: 'Preparing a visual guide…',
+    progressWorking: 'Working on it…',
+  },
+  es: {
+    title: 'Ocula AI',
+    minimize: 'Minimizar',
+    liveBadge: 'EN VIVO',
+    welcomeTitle: '¡Hola! Soy Ocula AI',
+    welcomeBody: 'Pregúntame lo que quieras o activa el modo en vivo para compartir tu pantalla y recibir ayuda visual.',
+    inputPlaceholder: 'Escribe una pregunta...',
+    goLive: 'En vivo — compartir pantalla + voz',
+    startingLive: 'Iniciando pantalla compartida + voz...',
+    liveActive: 'En vivo — pantalla compartida y voz activas',
+    liveFailed: 'No se pudo iniciar el modo en vivo. Permite compartir la pantalla.',
+    liveStopped: 'Modo en vivo detenido',
+    visualGuideShown: 'Guía visual mostrada en pantalla',
+    voiceReconnecting: 'Conexión de voz interrumpida — reconectando...',
+    voiceReconnected: 'Voz reconectada',
+    progressInspectScreen: 'Mirando tu pantalla…',
+    progressSearching: 'Buscando en la documentación…',
+    progressPreparingGuide: 'Preparando una guía visual…',
+    progressWorking: 'Trabajando en ello…',
+  },
+  fr: {
+    title: 'Ocula AI',
+    minimize: 'Réduire',
+    liveBadge: 'EN DIRECT',
+    welcomeTitle: 'Bonjour ! Je suis Ocula AI',
+    welcomeBody: "Posez-moi vos questions ou passez en direct pour partager votre écran et être guidé visuellement.",
+    inputPlaceholder: 'Posez une question...',
+    goLive: 'En direct — partager l’écran + voix',
+    startingLive: 'Démarrage du partage d’écran + voix...',
+    liveActive: 'En direct — partage d’écran et voix actifs',
+    liveFailed: 'Impossible de passer en direct. Autorisez le partage d’écran.',
+    liveStopped: 'Mode direct arrêté',
+    visualGuideShown: 'Guide visuel affiché à l’écran',
+    voiceReconnecting: 'Connexion vocale interrompue — reconnexion...',
+    voiceReconnected: 'Voix reconnectée',
+    progressInspectScreen: 'J’examine votre écran…',
+    progressSearching: 'Recherche dans la documentation…',
+    progressPreparingGuide: 'Préparation d’un guide visuel…',
+    progressWorking: 'Je m’en occupe…',
+  },
+  de: {
+    title: 'Ocula AI',
+    minimize: 'Minimieren',
+    liveBadge: 'LIVE',
+    welcomeTitle: 'Hallo! Ich bin Ocula AI',
+    welcomeBody: 'Frag mich etwas oder geh live, um deinen Bildschirm zu teilen und visuell angeleitet zu werden.',
+    inputPlaceholder: 'Stell eine Frage...',
+    goLive: 'Live gehen — Bildschirm teilen + Sprache',
+    startingLive: 'Bildschirmfreigabe + Sprache werden gestartet...',
+    liveActive: 'Live — Bildschirmfreigabe und Sprache aktiv',
+    liveFailed: 'Live-Modus konnte nicht gestartet werden. Bitte Bildschirmfreigabe erlauben.',
+    liveStopped: 'Live-Modus beendet',
+    visualGuideShown: 'Visuelle Anleitung auf dem Bildschirm',
+    voiceReconnecting: 'Sprachverbindung unterbrochen — verbinde neu...',
+    voiceReconnected: 'Sprachverbindung wiederhergestellt',
+    progressInspectScreen: 'Sehe mir deinen Bildschirm an…',
+    progressSearching: 'Durchsuche die Hilfe…',
+    progressPreparingGuide: 'Bereite eine visuelle Anleitung vor…',
+    progressWorking: 'Einen Moment…',
+  },
+  it: {
+    title: 'Ocula AI',
+    minimize: 'Riduci',
+    liveBadge: 'LIVE',
+    welcomeTitle: 'Ciao! Sono Ocula AI',
+    welcomeBody: 'Chiedimi qualsiasi cosa o vai in diretta per condividere lo schermo e ricevere una guida visiva.',
+    inputPlaceholder: 'Fai una domanda...',
+    goLive: 'Vai in diretta — condividi schermo + voce',
+    startingLive: 'Avvio condivisione schermo + voce...',
+    liveActive: 'In diretta — condivisione schermo e voce attive',
+    liveFailed: 'Impossibile avviare la diretta. Consenti la condivisione dello schermo.',
+    liveStopped: 'Diretta interrotta',
+    visualGuideShown: 'Guida visiva mostrata sullo schermo',
+    voiceReconnecting: 'Connessione vocale interrotta — riconnessione...',
+    voiceReconnected: 'Voce riconnessa',
+    progressInspectScreen: 'Sto guardando il tuo schermo…',
+    progressSearching: 'Cerco nella documentazione…',
+    progressPreparingGuide: 'Preparo una guida visiva…',
+    progressWorking: 'Ci sto lavorando…',
+  },
+  pt: {
+    title: 'Ocula AI',
+    minimize: 'Minimizar',
+    liveBadge: 'AO VIVO',
+    welcomeTitle: 'Olá! Eu sou a Ocula AI',
+    welcomeBody: 'Pergunte o que quiser ou entre ao vivo para compartilhar sua tela e receber orientação visual.',
+    inputPlaceholder: 'Faça uma pergunta...',
+    goLive: 'Ao vivo — compartilhar tela + voz',
+    startingLive: 'Iniciando compartilhamento de tela + voz...',
+    liveActive: 'Ao vivo — compartilhamento de tela e voz ativos',
+    liveFailed: 'Não foi possível entrar ao vivo. Permita o compartilhamento de tela.',
+    liveStopped: 'Modo ao vivo encerrado',
+    visualGuideShown: 'Guia visual exibido na tela',
+    voiceReconnecting: 'Conexão de voz interrompida — reconectando...',
+    voiceReconnected: 'Voz reconectada',
+    progressInspectScreen: 'Olhando sua tela…',
+    progressSearching: 'Pesquisando na documentação…',
+    progressPreparingGuide: 'Preparando um guia visual…',
+    progressWorking: 'Trabalhando nisso…',
+  },
+  nl: {
+    title: 'Ocula AI',
+    minimize: 'Minimaliseren',
+    liveBadge: 'LIVE',
+    welcomeTitle: 'Hoi! Ik ben Ocula AI',
+    welcomeBody: 'Stel me een vraag of ga live om je scherm te delen en visuele begeleiding te krijgen.',
+    inputPlaceholder: 'Stel een vraag...',
+    goLive: 'Live gaan — scherm delen + spraak',
+    startingLive: 'Scherm delen + spraak starten...',
+    liveActive: 'Live — scherm delen en spraak actief',
+    liveFailed: 'Live-modus kon niet starten. Sta scherm delen toe.',
+    liveStopped: 'Live-modus gestopt',
+    visualGuideShown: 'Visuele gids op het scherm getoond',
+    voiceReconnecting: 'Spraakverbinding onderbroken — opnieuw verbinden...',
+    voiceReconnected: 'Spraak opnieuw verbonden',
+    progressInspectScreen: 'Ik bekijk je scherm…',
+    progressSearching: 'Zoeken in de documentatie…',
+    progressPreparingGuide: 'Visuele gids voorbereiden…',
+    progressWorking: 'Even bezig…',
+  },
+};
+
+// ── Locale ───────────────────────────────────────────────────────────
+
+/**
+ * The widget's locale: the explicit one if given, else the browser's
+ */
+export function resolveLocale(explicit?: string): string {
+  const locale = explicit?.trim() || (typeof navigator !== 'undefined' ? navigator.language : '') || 'en';
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? 'en';
+  } catch {
+    return 'en';
+  }
+}
+
+/**
+ * UI strings for a locale ("fr-CA" uses the French catalog), with overrides applied
+ */
+export function getWidgetStrings(locale: string, overrides: Partial<WidgetStrings> = {}): WidgetStrings {
+  const language = locale.split('-')[0].toLowerCase();
+  return { ...(CATALOGS[language] ?? CATALOGS.en), ...overrides };
+}
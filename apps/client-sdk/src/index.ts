@@ -8,27 +8,51 @@
  * ```html
  * <script src="https://ocula.ai/widget.js"></script>
  * <script>
- *   const ocula = new OculaSDK.Ocula({ serverUrl: 'wss://api.ocula.ai/ws' });
+ *   const ocula = new OculaSDK.Ocula({
+ *     serverUrl: 'wss://api.ocula.ai/ws',
+ *     platformId: 'plat_xxxxxxxxxxxxxxxx',
+ *     publishableKey: 'pk_xxxxxxxxxxxxxxxx',
+ *   });
  *   ocula.start();
  * </script>
  * ```
  */
 
-import { ScreenCapture } from './capture';
+import { ScreenCapture, FrameWithheldError, CaptureMode } from './capture';
 import { AudioCapture, AudioPlayback, AUDIO_CONFIG } from './audio';
 import { OculaConnection, ConnectionEventHandlers, VisualCommand } from './connection';
 import { OverlayEngine, OverlayConfig, ScrollContext } from './overlay';
+import { GuidedTaskRunner } from './guided-task';
 import { scanDOM, startDOMWatcher, stopDOMWatcher, SelectorMap } from './dom-scanner';
+import { resolveLocale, getWidgetStrings, WidgetStrings } from './i18n';
+import { RedactionConfig, REDACTION_PATTERNS } from './redaction';
 
 /** Ocula SDK configuration */
 export interface OculaConfig {
   serverUrl: string;
+  /** Platform id from the dashboard embed snippet (data-platform-id); needed to connect */
+  platformId?: string;
+  /**
+   * Publishable key from the dashboard embed snippet (data-key); needed
+   * to connect, since the server refuses handshakes without a widget token
+   */
+  publishableKey?: string;
+  /** Locale for the assistant and the widget UI (default: navigator.language) */
+  locale?: string;
+  /** Overrides for individual widget UI strings */
+  strings?: Partial<WidgetStrings>;
+  /** Where screen frames come from: 'display' (screen-share prompt, default) or 'dom' (rendered from the page) */
+  captureMode?: CaptureMode;
+  /** What to mask in screen frames before they leave the browser */
+  redaction?: RedactionConfig;
   autoConnect?: boolean;
   autoCapture?: boolean;
   overlayConfig?: OverlayConfig;
   onReady?: () => void;
   onError?: (error: Error) => void;
   onResponse?: (text: string) => void;
+  /** Called with each chunk of an agent answer as it streams in */
+  onResponseDelta?: (text: string) => void;
 }
 
 /** Ocula SDK state */
@@ -43,34 +67,48 @@ export interface OculaState {
  * Ocula - Main SDK class
  */
 export class Ocula {
-  private config: Required<Omit<OculaConfig, 'overlayConfig' | 'onReady' | 'onError' | 'onResponse'>> & 
-                  Pick<OculaConfig, 'overlayConfig' | 'onReady' | 'onError' | 'onResponse'>;
+  private config: Required<Omit<OculaConfig, 'platformId' | 'publishableKey' | 'redaction' | 'overlayConfig' | 'onReady' | 'onError' | 'onResponse' | 'onResponseDelta'>> & 
+                  Pick<OculaConfig, 'platformId' | 'publishableKey' | 'redaction' | 'overlayConfig' | 'onReady' | 'onError' | 'onResponse' | 'onResponseDelta'>;
+  private strings: WidgetStrings;
   
   private connection: OculaConnection;
   private capture: ScreenCapture;
   private audioCapture: AudioCapture;
   private audioPlayback: AudioPlayback;
   private overlay: OverlayEngine;
+  private guidedTask: GuidedTaskRunner;
   
   private frameInterval: number | null = null;
+  private frameInFlight = false;
   private selectorMapSent = false;
+  /** The "share this tab" warning is shown once per capture */
+  private withheldNotified = false;
 
   constructor(config: OculaConfig) {
     this.config = {
       serverUrl: config.serverUrl,
+      platformId: config.platformId,
+      publishableKey: config.publishableKey,
+      locale: resolveLocale(config.locale),
+      strings: config.strings ?? {},
+      captureMode: config.captureMode ?? 'display',
+      redaction: config.redaction,
       autoConnect: config.autoConnect ?? true,
       autoCapture: config.autoCapture ?? false,
       overlayConfig: config.overlayConfig,
       onReady: config.onReady,
       onError: config.onError,
       onResponse: config.onResponse,
+      onResponseDelta: config.onResponseDelta,
     };
+    this.strings = getWidgetStrings(this.config.locale, this.config.strings);
 
     // Initialize components
-    this.capture = new ScreenCapture();
+    this.capture = new ScreenCapture({ mode: this.config.captureMode, redaction: this.config.redaction });
     this.audioCapture = new AudioCapture();
     this.audioPlayback = new AudioPlayback();
     this.overlay = new OverlayEngine(this.config.overlayConfig);
+    this.guidedTask = new GuidedTaskRunner(this.overlay);
 
     // Initialize connection with handlers
     const handlers: ConnectionEventHandlers = {
@@ -85,6 +123,9 @@ export class Ocula {
         console.error('[Ocula] Connection error:', error);
         this.config.onError?.(new Error('Connection error'));
       },
+      onServerError: (error) => {
+        this.config.onError?.(new Error(error));
+      },
       onAudio: (base64Audio) => {
         console.log('[Ocula SDK] Received audio from server, length:', base64Audio.length);
         this.audioPlayback.play(base64Audio).catch(console.error);
@@ -98,10 +139,24 @@ export class Ocula {
           visualCommands.forEach(cmd => this.handleVisualCommand(cmd, scrollX, scrollY));
         }
       },
+      onResponseDelta: (text) => {
+        this.config.onResponseDelta?.(text);
+      },
+      onResponseDone: (text, visualCommands, scrollX, scrollY) => {
+        this.config.onResponse?.(text);
+        if (visualCommands) {
+          visualCommands.forEach(cmd => this.handleVisualCommand(cmd, scrollX, scrollY));
+        }
+      },
     };
 
     this.connection = new OculaConnection(
-      { url: this.config.serverUrl },
+      {
+        url: this.config.serverUrl,
+        platformId: this.config.platformId,
+        publishableKey: this.config.publishableKey,
+        locale: this.config.locale,
+      },
       handlers
     );
 
@@ -117,6 +172,9 @@ export class Ocula {
    * Day 4: Scroll-context-aware — the server sends the scroll offsets
    * from when the frame was captured, and the overlay engine uses this
    * to compensate for any scroll that happened since.
+   *
+   * Every highlight reports back with an overlay_result so the server
+   * (and the model) know whether the guidance actually rendered.
    */
   private handleVisualCommand(command: VisualCommand, scrollX?: number, scrollY?: number): void {
     console.log('[Ocula] Drawing:', command.type, command.selector ? `on ${command.selector}` : '', command.label || '');
@@ -133,18 +191,53 @@ export class Ocula {
       switch (command.type) {
 
         case 'clear':
+          this.guidedTask.cancel();
           this.overlay.clear();
           break;
         case 'highlight_element':
           if (command.selector) {
-            this.overlay.highlightElementBySelector(command.selector, command.label, command.action || 'apply');
+            const selector = command.selector;
+            const result = this.overlay.highlightElementBySelector(selector, command.label, command.action || 'apply');
+            if (result.status !== 'cleared') {
+              this.connection.sendOverlayResult(selector, result, command.commandId);
+            }
           } else {
              console.warn('[Ocula] Highlight element command missing selector');
           }
           break;
+        case 'arrow':
+        case 'circle':
+          if (command.point) {
+            const result = command.type === 'arrow'
+              ? this.overlay.drawArrow(command.point, command.label)
+              : this.overlay.drawCircle(command.point, command.label);
+            this.connection.sendOverlayResult(`${command.type}@${command.point.join(',')}`, result, command.commandId);
+          }
+          break;
+        case 'box':
+          if (command.box) {
+            const result = this.overlay.drawBox(command.box, command.label);
+            this.connection.sendOverlayResult(`box@${command.box.join(',')}`, result, command.commandId);
+          }
+          break;
         case 'highlight_sequence':
           if (command.steps && command.steps.length > 0) {
-            this.overlay.playHighlightSequence(command.steps);
+            const steps = command.steps;
+            this.overlay.playHighlightSequence(steps, undefined, (stepIndex, result) => {
+              this.connection.sendOverlayResult(steps[stepIndex].selector, result, command.commandId, stepIndex);
+            });
+          }
+          break;
+        case 'guided_task':
+          if (command.taskId && command.taskSteps && command.taskSteps.length > 0) {
+            const { taskId, taskSteps } = command;
+            this.guidedTask.run(
+              taskSteps,
+              (stepIndex, result) => {
+                this.connection.sendOverlayResult(taskSteps[stepIndex].selector, result, command.commandId, stepIndex);
+              },
+              (stepIndex, progress) => this.connection.sendTaskProgress(taskId, stepIndex, progress)
+            ).catch(err => console.error('[Ocula] Guided task failed:', err));
           }
           break;
       }
@@ -166,6 +259,7 @@ export class Ocula {
    */
   async startCapture(): Promise<void> {
     await this.capture.start();
+    this.withheldNotified = false;
 
     // Perform initial DOM scan and send selector map to server
     if (!this.selectorMapSent) {
@@ -187,13 +281,31 @@ export class Ocula {
   /**
    * Capture and send a single frame with scroll context
    */
-  captureAndSendFrame(): void {
+  async captureAndSendFrame(): Promise<void> {
     if (!this.capture.getIsCapturing()) {
       console.warn('[Ocula] Screen capture not started');
       return;
     }
 
-    const frame = this.capture.captureFrame();
+    // DOM snapshots can take longer than the frame interval; skip a tick
+    // rather than pile up renders
+    if (this.frameInFlight) return;
+    this.frameInFlight = true;
+
+    let frame: string;
+    try {
+      frame = await this.capture.captureFrame();
+    } catch (err) {
+      if (!(err instanceof FrameWithheldError)) throw err;
+      if (err.reason === 'not_a_tab' && !this.withheldNotified) {
+        this.withheldNotified = true;
+        console.warn('[Ocula] Frames withheld:', err.message);
+        this.config.onError?.(err);
+      }
+      return;
+    } finally {
+      this.frameInFlight = false;
+    }
     const scroll = this.capture.getLastFrameScroll();
     this.connection.sendFrame(frame, scroll.scrollX, scroll.scrollY);
   }
@@ -209,7 +321,7 @@ export class Ocula {
 
     this.frameInterval = window.setInterval(() => {
       if (this.capture.getIsCapturing()) {
-        this.captureAndSendFrame();
+        this.captureAndSendFrame().catch(err => console.error('[Ocula] Frame capture failed:', err));
       }
     }, intervalMs);
 
@@ -263,12 +375,12 @@ export class Ocula {
   /**
    * Send a query with current screen frame
    */
-  sendQuery(text: string): void {
+  async sendQuery(text: string): Promise<void> {
     let frame: string | undefined;
     
     if (this.capture.getIsCapturing()) {
       try {
-        frame = this.capture.captureFrame();
+        frame = await this.capture.captureFrame();
       } catch (e) {
         console.warn('[Ocula] Could not capture frame for query');
       }
@@ -283,6 +395,7 @@ export class Ocula {
    * Clear all overlays
    */
   clearOverlays(): void {
+    this.guidedTask.cancel();
     this.overlay.clear();
   }
 
@@ -305,6 +418,20 @@ export class Ocula {
     return this.connection.getSessionId();
   }
 
+  /**
+   * Get the resolved locale (explicit, or the browser's)
+   */
+  getLocale(): string {
+    return this.config.locale;
+  }
+
+  /**
+   * Get the widget UI strings for the locale
+   */
+  getStrings(): WidgetStrings {
+    return this.strings;
+  }
+
   /**
    * Full start - capture, audio, and frame stream
    */
@@ -340,14 +467,23 @@ export class Ocula {
 }
 
 // Export all modules for advanced usage
-export { ScreenCapture } from './capture';
+export { ScreenCapture, FrameWithheldError } from './capture';
+export type { CaptureMode, ScreenCaptureOptions, FrameWithheldReason } from './capture';
+export { DOMSnapshotRenderer } from './snapshot';
+export type { DOMSnapshot } from './snapshot';
+export { Redactor, REDACTION_PATTERNS } from './redaction';
+export type { RedactionConfig, RedactionStyle, RedactionRect } from './redaction';
 export { AudioCapture, AudioPlayback, AUDIO_CONFIG } from './audio';
 export { OculaConnection } from './connection';
-export type { ConnectionEventHandlers, ClientMessage, ServerMessage, VisualCommand } from './connection';
+export type { ConnectionEventHandlers, ClientMessage, ServerMessage, VisualCommand, VoiceStatus } from './connection';
 export { OverlayEngine } from './overlay';
-export type { OverlayConfig, OverlayType, ScrollContext } from './overlay';
+export type { OverlayConfig, OverlayType, ScrollContext, OverlayStatus, OverlayRect, OverlayResult, NormalizedPoint, NormalizedBox } from './overlay';
 export { scanDOM, startDOMWatcher, stopDOMWatcher } from './dom-scanner';
 export type { SelectorMap, SelectorEntry } from './dom-scanner';
+export { GuidedTaskRunner } from './guided-task';
+export type { GuidedTaskStep, CompletionCondition, TaskProgressStatus } from './guided-task';
+export { resolveLocale, getWidgetStrings } from './i18n';
+export type { WidgetStrings } from './i18n';
 
 // Default export
 export default Ocula;
@@ -357,6 +493,24 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
   const currentScript = document.currentScript as HTMLScriptElement;
   if (currentScript) {
     const serverUrl = currentScript.getAttribute('data-server');
+    const platformId = currentScript.getAttribute('data-platform-id') ?? undefined;
+    const publishableKey = currentScript.getAttribute('data-key') ?? undefined;
+    const locale = currentScript.getAttribute('data-locale') ?? undefined;
+    // data-capture="dom": render frames from the page, no screen-share prompt
+    const captureMode: CaptureMode = currentScript.getAttribute('data-capture') === 'dom' ? 'dom' : 'display';
+    // data-redact: a CSS selector list; data-redact-text: pattern names
+    // from REDACTION_PATTERNS (e.g. "email card"); data-redact-style: blackout | blur
+    const redactSelector = currentScript.getAttribute('data-redact');
+    const redactText = (currentScript.getAttribute('data-redact-text') ?? '').split(/[\s,]+/).filter(Boolean);
+    const redaction: RedactionConfig = {
+      selectors: redactSelector ? [redactSelector] : [],
+      textPatterns: redactText.flatMap(name => {
+        if (Object.hasOwn(REDACTION_PATTERNS, name)) return [REDACTION_PATTERNS[name]];
+        console.warn(`[Ocula] Unknown data-redact-text pattern: ${name}`);
+        return [];
+      }),
+      style: currentScript.getAttribute('data-redact-style') === 'blur' ? 'blur' : 'blackout',
+    };
     if (serverUrl) {
       console.log('[Ocula] Auto-initializing widget from script tag');
 
@@ -541,6 +695,19 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
           font-size: 11px;
           padding: 4px 8px;
         }
+        .ocula-msg-progress {
+          align-self: flex-start;
+          background: transparent;
+          color: rgba(255,255,255,0.45);
+          font-size: 12px;
+          font-style: italic;
+          padding: 4px 8px;
+          animation: ocula-progress-pulse 1.4s ease-in-out infinite;
+        }
+        @keyframes ocula-progress-pulse {
+          0%, 100% { opacity: 0.45; }
+          50% { opacity: 1; }
+        }
 
         .ocula-input-row {
           display: flex;
@@ -639,11 +806,22 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
       // ── Create Ocula instance ─────────────────────────────────────
       const ocula = new Ocula({
         serverUrl,
+        platformId,
+        publishableKey,
+        locale,
+        captureMode,
+        redaction,
         autoConnect: true,
+        onError: (error) => appendMessage('system', `❌ ${error.message}`),
         // NOTE: onResponse NOT set here — we override connection handlers
         // below to handle both text display and visual commands in one place.
       });
       (window as any).ocula = ocula;
+      const t = ocula.getStrings();
+
+      /** Strings can come from the embedder's overrides; keep them out of the markup */
+      const escapeHtml = (text: string) =>
+        text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
 
       // Track state
       let isOpen = false;
@@ -675,14 +853,14 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
           <div class="ocula-logo">
             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><circle cx="12" cy="12" r="4"/><line x1="21.17" y1="8" x2="12" y2="8"/><line x1="3.95" y1="6.06" x2="8.54" y2="14"/><line x1="10.88" y1="21.94" x2="15.46" y2="14"/></svg>
           </div>
-          <span class="ocula-title">Ocula AI</span>
+          <span class="ocula-title">${escapeHtml(t.title)}</span>
           <div class="ocula-live-badge" id="ocula-live-badge">
             <div class="ocula-live-dot"></div>
-            LIVE
+            ${escapeHtml(t.liveBadge)}
           </div>
         </div>
         <div class="ocula-header-actions">
-          <button class="ocula-header-btn" id="ocula-minimize-btn" title="Minimize">
+          <button class="ocula-header-btn" id="ocula-minimize-btn" title="${escapeHtml(t.minimize)}">
             <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><line x1="5" y1="12" x2="19" y2="12"/></svg>
           </button>
         </div>
@@ -701,8 +879,8 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
         <div class="ocula-welcome-icon">
           <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><circle cx="12" cy="12" r="4"/><line x1="21.17" y1="8" x2="12" y2="8"/><line x1="3.95" y1="6.06" x2="8.54" y2="14"/><line x1="10.88" y1="21.94" x2="15.46" y2="14"/></svg>
         </div>
-        <h3>Hi! I'm Ocula AI</h3>
-        <p>Ask me anything or go live to share your screen and get visual guidance.</p>
+        <h3>${escapeHtml(t.welcomeTitle)}</h3>
+        <p>${escapeHtml(t.welcomeBody)}</p>
       `;
       messagesArea.appendChild(welcome);
 
@@ -713,7 +891,7 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
       const textInput = document.createElement('input');
       textInput.className = 'ocula-text-input';
       textInput.type = 'text';
-      textInput.placeholder = 'Ask a question...';
+      textInput.placeholder = t.inputPlaceholder;
 
       const sendBtn = document.createElement('button');
       sendBtn.className = 'ocula-send-btn';
@@ -721,7 +899,7 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
 
       const liveBtn = document.createElement('button');
       liveBtn.className = 'ocula-live-btn';
-      liveBtn.title = 'Go Live — share screen + voice';
+      liveBtn.title = t.goLive;
       liveBtn.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/><line x1="12" x2="12" y1="19" y2="22"/></svg>`;
 
       inputRow.appendChild(textInput);
@@ -769,7 +947,7 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
         if (isLive) {
           ocula.sendMessage(text);
         } else {
-          ocula.sendQuery(text);
+          ocula.sendQuery(text).catch(console.error);
         }
       }
 
@@ -786,17 +964,17 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
         const liveBadge = document.getElementById('ocula-live-badge');
         if (!isLive) {
           try {
-            appendMessage('system', 'Starting screen share + voice...');
+            appendMessage('system', t.startingLive);
             await ocula.startCapture();
             await ocula.startAudio();
             ocula.startFrameStream();
             isLive = true;
             liveBtn.classList.add('active');
             if (liveBadge) liveBadge.classList.add('active');
-            appendMessage('system', '🟢 Live — screen sharing and voice active');
+            appendMessage('system', `🟢 ${t.liveActive}`);
           } catch (err) {
             console.error('[Ocula] Failed to go live:', err);
-            appendMessage('system', '❌ Could not start live mode. Allow screen sharing permissions.');
+            appendMessage('system', `❌ ${t.liveFailed}`);
           }
         } else {
           ocula.stopCapture();
@@ -804,7 +982,7 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
           isLive = false;
           liveBtn.classList.remove('active');
           if (liveBadge) liveBadge.classList.remove('active');
-          appendMessage('system', '⬛ Live mode stopped');
+          appendMessage('system', `⬛ ${t.liveStopped}`);
         }
       };
 
@@ -858,6 +1036,35 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
         aiStreamBuffer = '';
       }
 
+      // Transient "Looking at your screen…" line while the agent runs a tool
+      let progressEl: HTMLDivElement | null = null;
+
+      function progressText(tool: string): string {
+        switch (tool) {
+          case 'inspect_screen': return t.progressInspectScreen;
+          case 'search_knowledge': return t.progressSearching;
+          case 'highlight_element':
+          case 'clear_overlays': return t.progressPreparingGuide;
+          default: return t.progressWorking;
+        }
+      }
+
+      function showProgress(tool: string) {
+        if (!progressEl) {
+          progressEl = document.createElement('div');
+          progressEl.className = 'ocula-msg ocula-msg-progress';
+        }
+        progressEl.textContent = progressText(tool);
+        // Keep it below whatever streamed so far
+        messagesArea.appendChild(progressEl);
+        messagesArea.scrollTop = messagesArea.scrollHeight;
+      }
+
+      function hideProgress() {
+        progressEl?.remove();
+        progressEl = null;
+      }
+
       // ── Wire connection handlers for chat display ────────────────
       const origConn = ocula['connection'] as any;
       if (origConn.handlers) {
@@ -873,17 +1080,59 @@ if (typeof window !== 'undefined' && typeof document !== 'undefined') {
             });
             if (visualCommands.some((c: VisualCommand) => c.type !== 'clear')) {
               finalizeAiStream();
-              appendMessage('system', '✨ Visual guide shown on screen');
+              appendMessage('system', `✨ ${t.visualGuideShown}`);
             }
           }
         };
 
+        // Streaming agent answers (typed questions)
+        origConn.handlers.onResponseDelta = (text: string) => {
+          appendMessage('ai', text);
+          // Progress line stays under the streaming bubble
+          if (progressEl) messagesArea.appendChild(progressEl);
+        };
+
+        origConn.handlers.onProgress = (tool: string) => {
+          showProgress(tool);
+        };
+
+        origConn.handlers.onResponseDone = (text: string, visualCommands?: VisualCommand[], scrollX?: number, scrollY?: number) => {
+          hideProgress();
+          // The final answer replaces what streamed (which may include
+          // text from before the agent called its tools)
+          if (aiStreamEl) {
+            aiStreamBuffer = text;
+            aiStreamEl.textContent = text;
+          } else if (text) {
+            appendMessage('ai', text);
+          }
+          finalizeAiStream();
+          if (visualCommands) {
+            visualCommands.forEach((cmd: VisualCommand) => {
+              ocula['handleVisualCommand'](cmd, scrollX, scrollY);
+            });
+            if (visualCommands.some((c: VisualCommand) => c.type !== 'clear')) {
+              appendMessage('system', `✨ ${t.visualGuideShown}`);
+            }
+          }
+        };
+
+        // Voice reconnects — announce once per outage
+        origConn.handlers.onStatus = (status: string, attempt?: number) => {
+          if (status === 'reconnecting' && attempt === 1) {
+            finalizeAiStream();
+            appendMessage('system', `🔄 ${t.voiceReconnecting}`);
+          } else if (status === 'reconnected') {
+            appendMessage('system', `🟢 ${t.voiceReconnected}`);
+          }
+        };
+
         // Hook onDraw for Live API tool calls
         origConn.handlers.onDraw = (command: VisualCommand, scrollX?: number, scrollY?: number) => {
           ocula['handleVisualCommand'](command, scrollX, scrollY);
           if (command.type !== 'clear') {
             finalizeAiStream();
-            appendMessage('system', '✨ Visual guide shown on screen');
+            appendMessage('system', `✨ ${t.visualGuideShown}`);
           }
         };
       }
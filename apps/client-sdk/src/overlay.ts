@@ -12,13 +12,22 @@
  * - Animated fadeout on clear
  * - Auto-timeout for stale highlights (15s)
  * - Abortable sequences
+ * - Per-highlight render results (rendered / not found / hidden / zero-size)
+ * - Coordinate-based arrows, circles and boxes for targets without a
+ *   usable selector (canvas charts, iframes), placed from vision output
  * - Zero layout shift (outline only, no border changes)
  */
 
 // ─── Types & Interfaces ─────────────────────────────────────────────
 
 /** Visual command types */
-export type OverlayType = 'arrow' | 'highlight' | 'circle' | 'clear';
+export type OverlayType = 'arrow' | 'highlight' | 'circle' | 'box' | 'clear';
+
+/** Point in vision space: [y, x], each normalized 0-1000 (as AgenticVision returns) */
+export type NormalizedPoint = [number, number];
+
+/** Box in vision space: [y1, x1, y2, x2], each normalized 0-1000 */
+export type NormalizedBox = [number, number, number, number];
 
 /** Overlay configuration */
 export interface OverlayConfig {
@@ -41,6 +50,31 @@ export interface ScrollContext {
   captureScrollY: number;
 }
 
+/** Outcome of rendering one highlight */
+export type OverlayStatus =
+  | 'rendered'
+  | 'cleared'
+  | 'not_found'
+  | 'hidden'
+  | 'zero_size'
+  | 'invalid_selector'
+  | 'invalid_coordinates'
+  | 'aborted';
+
+/** Element bounds in document coordinates (viewport rect + scroll offset) */
+export interface OverlayRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OverlayResult {
+  status: OverlayStatus;
+  /** Bounds of the highlighted element (when found) */
+  rect?: OverlayRect;
+}
+
 // ─── Defaults ────────────────────────────────────────────────────────
 
 const DEFAULT_CONFIG: Required<OverlayConfig> = {
@@ -59,6 +93,8 @@ const DEFAULT_CONFIG: Required<OverlayConfig> = {
 // ─── Constants ───────────────────────────────────────────────────────
 
 const FADEOUT_MS = 300;      // exit animation duration
+const ARROW_SIZE = 64;       // arrow length along each axis (px)
+const CIRCLE_RADIUS = 36;    // default circle radius (px)
 
 // ─── OverlayEngine ──────────────────────────────────────────────────
 
@@ -81,6 +117,10 @@ export class OverlayEngine {
     labelId?: string;
   }>();
 
+  /** Document-anchored layer for coordinate shapes (follows page scroll) */
+  private shapeLayer!: HTMLDivElement;
+  private activeShapes: HTMLElement[] = [];
+
   /** Active highlight sequence state */
   private sequenceAbortController: AbortController | null = null;
 
@@ -105,6 +145,16 @@ export class OverlayEngine {
     this.container.style.cssText =
       'position:fixed;top:0;left:0;width:0;height:0;pointer-events:none;z-index:999999;overflow:visible;';
     document.body.appendChild(this.container);
+
+    // Shapes are placed in document coordinates; translating the layer by
+    // the current scroll keeps them pinned to the content underneath
+    this.shapeLayer = document.createElement('div');
+    this.shapeLayer.id = 'ocula-shape-layer';
+    this.shapeLayer.style.cssText = 'position:absolute;top:0;left:0;width:0;height:0;overflow:visible;';
+    this.container.appendChild(this.shapeLayer);
+    this.syncShapeLayer();
+    window.addEventListener('scroll', this.syncShapeLayer, { passive: true });
+
     this.isInitialized = true;
 
     console.log('[Ocula] Overlay engine v4 initialized');
@@ -132,6 +182,7 @@ export class OverlayEngine {
       const selectors = Array.from(this.activeHighlights.keys());
       selectors.forEach(sel => this.clearHighlight(sel));
     }
+    this.clearShapes();
 
     console.log('[Ocula] Overlays cleared');
   }
@@ -155,6 +206,8 @@ export class OverlayEngine {
         }
       });
       this.activeHighlights.clear();
+      this.activeShapes = [];
+      window.removeEventListener('scroll', this.syncShapeLayer);
       this.container.remove();
       document.getElementById('ocula-highlight-styles')?.remove();
       this.isInitialized = false;
@@ -172,7 +225,7 @@ export class OverlayEngine {
     this.clearAutoTimeout();
     if (this.config.autoTimeoutMs > 0) {
       this.autoTimeoutTimer = setTimeout(() => {
-        if (this.activeHighlights.size > 0) {
+        if (this.activeHighlights.size > 0 || this.activeShapes.length > 0) {
           console.log('[Ocula] Auto-clearing stale highlights (timeout)');
           this.clearAllHighlightsAnimated();
         }
@@ -180,6 +233,14 @@ export class OverlayEngine {
     }
   }
 
+  /**
+   * Keep the current highlights until they're cleared explicitly
+   * (guided tasks wait on the user for as long as it takes)
+   */
+  holdHighlights(): void {
+    this.clearAutoTimeout();
+  }
+
   private clearAutoTimeout(): void {
     if (this.autoTimeoutTimer) {
       clearTimeout(this.autoTimeoutTimer);
@@ -189,7 +250,143 @@ export class OverlayEngine {
 
   // ── Drawing Methods ───────────────────────────────────────────────
 
+  /**
+   * Point an arrow at a spot on screen.
+   * The arrow comes in from the upper left, or from the lower right when
+   * the target is too close to the top/left edge for that.
+   */
+  drawArrow(point: NormalizedPoint, label?: string): OverlayResult {
+    const target = this.prepareShape([point]);
+    if (!target) return { status: 'invalid_coordinates' };
+    const [{ x, y }] = target;
+
+    const flipped = x - window.scrollX < ARROW_SIZE + 16 || y - window.scrollY < ARROW_SIZE + 16;
+    const color = this.config.arrowColor;
+    const el = document.createElement('div');
+    el.className = 'ocula-shape ocula-shape-arrow';
+    el.style.cssText =
+      `position:absolute;left:${x - ARROW_SIZE}px;top:${y - ARROW_SIZE}px;width:${ARROW_SIZE}px;height:${ARROW_SIZE}px;`;
+    // Rotate the svg, not the wrapper — the wrapper's fade animation owns its transform
+    const rotation = flipped ? `style="transform:rotate(180deg);transform-origin:${ARROW_SIZE}px ${ARROW_SIZE}px" ` : '';
+    el.innerHTML =
+      `<svg ${rotation}width="${ARROW_SIZE}" height="${ARROW_SIZE}" viewBox="0 0 64 64" fill="none" stroke="${color}" ` +
+      `stroke-width="4" stroke-linecap="round" stroke-linejoin="round">` +
+      `<line x1="8" y1="8" x2="60" y2="60"/><polyline points="36,60 60,60 60,36"/></svg>`;
+
+    const rect = flipped
+      ? { x, y, width: ARROW_SIZE, height: ARROW_SIZE }
+      : { x: x - ARROW_SIZE, y: y - ARROW_SIZE, width: ARROW_SIZE, height: ARROW_SIZE };
+    return this.addShape(el, rect, label);
+  }
+
+  /**
+   * Circle a spot on screen.
+   */
+  drawCircle(point: NormalizedPoint, label?: string, radius: number = CIRCLE_RADIUS): OverlayResult {
+    const target = this.prepareShape([point]);
+    if (!target) return { status: 'invalid_coordinates' };
+    const [{ x, y }] = target;
+
+    const el = document.createElement('div');
+    el.className = 'ocula-shape ocula-shape-circle';
+    el.style.cssText =
+      `position:absolute;left:${x - radius}px;top:${y - radius}px;width:${radius * 2}px;height:${radius * 2}px;` +
+      `border:3px solid ${this.config.circleColor};border-radius:50%;box-sizing:border-box;`;
+
+    return this.addShape(el, { x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 }, label);
+  }
+
+  /**
+   * Draw a box around a region of the screen.
+   */
+  drawBox(box: NormalizedBox, label?: string): OverlayResult {
+    const [y1, x1, y2, x2] = box;
+    const target = this.prepareShape([[Math.min(y1, y2), Math.min(x1, x2)], [Math.max(y1, y2), Math.max(x1, x2)]]);
+    if (!target) return { status: 'invalid_coordinates' };
+    const [topLeft, bottomRight] = target;
+
+    const rect = {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y,
+    };
+    if (rect.width < 1 || rect.height < 1) return { status: 'zero_size' };
+
+    const el = document.createElement('div');
+    el.className = 'ocula-shape ocula-shape-box';
+    el.style.cssText =
+      `position:absolute;left:${rect.x}px;top:${rect.y}px;width:${rect.width}px;height:${rect.height}px;` +
+      `border:2px solid ${this.config.highlightBorderColor};background:${this.config.highlightColor};` +
+      `border-radius:6px;box-sizing:border-box;`;
+
+    return this.addShape(el, rect, label);
+  }
+
+  /**
+   * Validate vision-space points and map them to document coordinates.
+   *
+   * The model saw the page at the scroll offset of the captured frame, so
+   * a point is placed at (viewport position + capture-time scroll); the
+   * shape layer then tracks any scrolling since.
+   */
+  private prepareShape(points: NormalizedPoint[]): Array<{ x: number; y: number }> | null {
+    const valid = points.every(point =>
+      point.length === 2 && point.every(v => Number.isFinite(v) && v >= 0 && v <= 1000)
+    );
+    if (!valid) {
+      console.warn('[Ocula] Ignoring shape with invalid coordinates:', points);
+      return null;
+    }
 
+    if (!this.isInitialized) this.init();
+    this.injectHighlightStyles();
+    this.resetAutoTimeout();
+
+    return points.map(([y, x]) => ({
+      x: Math.round((x / 1000) * window.innerWidth + this.scrollContext.captureScrollX),
+      y: Math.round((y / 1000) * window.innerHeight + this.scrollContext.captureScrollY),
+    }));
+  }
+
+  /**
+   * Attach a shape (plus optional label above it) to the shape layer
+   */
+  private addShape(el: HTMLElement, rect: OverlayRect, label?: string): OverlayResult {
+    this.shapeLayer.appendChild(el);
+    this.activeShapes.push(el);
+
+    if (label) {
+      const labelEl = document.createElement('div');
+      labelEl.className = 'ocula-hl-label ocula-shape';
+      labelEl.textContent = label;
+      // Fixed inside the translated layer = positioned in document coordinates
+      labelEl.style.left = `${rect.x + rect.width / 2}px`;
+      labelEl.style.top = `${Math.max(0, rect.y - 40)}px`;
+      this.shapeLayer.appendChild(labelEl);
+      this.activeShapes.push(labelEl);
+    }
+
+    console.log(`[Ocula] Drew ${el.className.replace('ocula-shape ocula-shape-', '')} at (${rect.x}, ${rect.y})`);
+    return { status: 'rendered', rect };
+  }
+
+  /**
+   * Fade out and remove all coordinate shapes
+   */
+  private clearShapes(): void {
+    const shapes = this.activeShapes;
+    this.activeShapes = [];
+    for (const el of shapes) {
+      el.classList.add(el.classList.contains('ocula-hl-label') ? 'ocula-label-exiting' : 'ocula-hl-exiting');
+    }
+    setTimeout(() => shapes.forEach(el => el.remove()), FADEOUT_MS + 20);
+  }
+
+  /** Keep the shape layer aligned with the page as it scrolls */
+  private syncShapeLayer = (): void => {
+    this.shapeLayer.style.transform = `translate(${-window.scrollX}px, ${-window.scrollY}px)`;
+  };
 
   /**
    * Inject the highlight CSS stylesheet into the host page's DOM.
@@ -267,6 +464,20 @@ export class OverlayEngine {
         transition: none !important;
       }
 
+      .ocula-shape {
+        pointer-events: none;
+        animation: ocula-hl-fadein 0.4s cubic-bezier(0.22, 1, 0.36, 1) both;
+      }
+      .ocula-shape-arrow svg {
+        filter: drop-shadow(0 0 6px rgba(124, 92, 252, 0.45));
+      }
+      .ocula-shape-circle,
+      .ocula-shape-box {
+        animation:
+          ocula-hl-fadein 0.4s cubic-bezier(0.22, 1, 0.36, 1) both,
+          ocula-hl-pulse 2.5s ease-in-out infinite;
+      }
+
       .ocula-hl-exiting {
         animation: ocula-hl-fadeout 0.3s ease-out forwards !important;
         pointer-events: none;
@@ -316,13 +527,16 @@ export class OverlayEngine {
    * Highlight an element using CSS classes + floating label.
    * Injects a premium stylesheet with pulsing glow, animated border,
    * and glassmorphism label on the first call.
+   *
+   * Reports whether the highlight is actually visible: elements that are
+   * missing, hidden or zero-size are not highlighted.
    */
-  highlightElementBySelector(selector: string, label?: string, action: 'apply' | 'clear' = 'apply'): void {
+  highlightElementBySelector(selector: string, label?: string, action: 'apply' | 'clear' = 'apply'): OverlayResult {
     if (!this.isInitialized) this.init();
 
     if (action === 'clear') {
       this.clearHighlight(selector);
-      return;
+      return { status: 'cleared' };
     }
 
     // Inject CSS on first use
@@ -331,15 +545,16 @@ export class OverlayEngine {
     // Reset auto-timeout on every new highlight
     this.resetAutoTimeout();
 
-    try {
-      const element = document.querySelector(selector) as HTMLElement;
-      if (!element) {
-        console.warn(`[Ocula] Could not find element to highlight: ${selector}`);
-        return;
-      }
+    const located = this.locateElement(selector);
+    if (!located.element) {
+      console.warn(`[Ocula] Cannot highlight ${selector}: ${located.status}`);
+      return { status: located.status };
+    }
+    const element = located.element;
 
+    try {
       // If already highlighted, skip
-      if (this.activeHighlights.has(selector)) return;
+      if (this.activeHighlights.has(selector)) return { status: 'rendered', rect: this.documentRect(element) };
 
       // Save original state
       const originalBorder = element.style.outline;
@@ -391,11 +606,45 @@ export class OverlayEngine {
       });
 
       console.log(`[Ocula] Highlighted ${selector}`);
+      return { status: 'rendered', rect: this.documentRect(element) };
     } catch (err) {
       console.error(`[Ocula] Error highlighting ${selector}:`, err);
+      return { status: 'not_found' };
     }
   }
 
+  /**
+   * Find a highlightable element, or the reason there isn't one
+   */
+  private locateElement(selector: string): { element?: HTMLElement; status: OverlayStatus } {
+    let element: HTMLElement | null;
+    try {
+      element = document.querySelector(selector) as HTMLElement | null;
+    } catch {
+      return { status: 'invalid_selector' };
+    }
+    if (!element) return { status: 'not_found' };
+
+    const style = getComputedStyle(element);
+    if (style.display === 'none' || style.visibility === 'hidden') return { status: 'hidden' };
+
+    const rect = element.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return { status: 'zero_size' };
+
+    return { element, status: 'rendered' };
+  }
+
+  /** Element bounds in document coordinates, stable across scrolling */
+  private documentRect(element: HTMLElement): OverlayRect {
+    const rect = element.getBoundingClientRect();
+    return {
+      x: Math.round(rect.left + window.scrollX),
+      y: Math.round(rect.top + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    };
+  }
+
   private clearHighlight(selector: string): void {
     const data = this.activeHighlights.get(selector);
     if (!data) return;
@@ -438,10 +687,11 @@ export class OverlayEngine {
    * Returns a promise that resolves after all fadeouts complete.
    */
   clearAllHighlightsAnimated(): Promise<void> {
-    if (this.activeHighlights.size === 0) return Promise.resolve();
+    if (this.activeHighlights.size === 0 && this.activeShapes.length === 0) return Promise.resolve();
 
     const selectors = Array.from(this.activeHighlights.keys());
     selectors.forEach(sel => this.clearHighlight(sel));
+    this.clearShapes();
 
     // Wait for fadeout animation to complete
     return new Promise(resolve => setTimeout(resolve, 350));
@@ -466,11 +716,14 @@ export class OverlayEngine {
    * 3. Fade in the new highlight (400ms)
    * 4. Hold for delay_ms (default 3000ms) before moving to the next step
    *
-   * The sequence auto-cancels on new user input or when cancelSequence() is called.
+   * Steps that can't be shown are reported and skipped without holding.
+   * The sequence auto-cancels on new user input or when cancelSequence() is
+   * called; the step that never got shown is reported as 'aborted'.
    */
   async playHighlightSequence(
     steps: Array<{ selector: string; label: string; delay_ms?: number }>,
-    onStepStart?: (stepIndex: number) => void
+    onStepStart?: (stepIndex: number) => void,
+    onStepResult?: (stepIndex: number, result: OverlayResult) => void
   ): Promise<void> {
     // Cancel any running sequence
     this.cancelSequence();
@@ -487,8 +740,14 @@ export class OverlayEngine {
     console.log(`[Ocula] Starting highlight sequence with ${steps.length} steps`);
 
     for (let i = 0; i < steps.length; i++) {
+      const aborted = () => {
+        if (!controller.signal.aborted) return false;
+        onStepResult?.(i, { status: 'aborted' });
+        return true;
+      };
+
       // Check if aborted
-      if (controller.signal.aborted) {
+      if (aborted()) {
         console.log('[Ocula] Highlight sequence cancelled');
         return;
       }
@@ -500,14 +759,16 @@ export class OverlayEngine {
       await this.clearAllHighlightsAnimated();
 
       // Check abort again after async wait
-      if (controller.signal.aborted) return;
+      if (aborted()) return;
 
       // Brief pause between fadeout and fadein for visual breathing room
       await this.sleep(100, controller.signal);
-      if (controller.signal.aborted) return;
+      if (aborted()) return;
 
       // Apply the new highlight
-      this.highlightElementBySelector(step.selector, step.label, 'apply');
+      const result = this.highlightElementBySelector(step.selector, step.label, 'apply');
+      onStepResult?.(i, result);
+      if (result.status !== 'rendered') continue;
 
       // Hold this highlight for the specified duration
       const holdDuration = step.delay_ms ?? 3000;
@@ -0,0 +1,236 @@
+/**
+ * Redaction — Mask sensitive page regions in captured frames
+ *
+ * Before a frame is encoded, every region that may hold personal data is
+ * blacked out (or blurred) on the capture canvas, so it never leaves the
+ * browser. Regions are found from the live DOM in viewport coordinates:
+ *
+ * - Password fields and card fields (autocomplete="cc-*"), always
+ * - Elements marked with `data-ocula-redact`, always
+ * - Extra CSS selectors from the embedder
+ * - Text nodes and form field values matching the embedder's patterns
+ *
+ * Elements inside cross-origin iframes can't be inspected; mark the
+ * iframe itself with `data-ocula-redact` to hide it whole.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type RedactionStyle = 'blackout' | 'blur';
+
+export interface RedactionConfig {
+  /** Extra CSS selectors to mask (on top of the built-in ones) */
+  selectors?: string[];
+  /** Mask text and form field values matching any of these */
+  textPatterns?: RegExp[];
+  /** How masked regions look in the frame (default: 'blackout') */
+  style?: RedactionStyle;
+}
+
+/** A masked region, in CSS pixels relative to the viewport */
+export interface RedactionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Always masked, whatever the config says */
+const BUILT_IN_SELECTORS = [
+  'input[type="password"]',
+  'input[autocomplete^="cc-"]',
+  '[data-ocula-redact]',
+];
+
+/** Ready-made text patterns, by name (used by the script tag's data-redact-text) */
+export const REDACTION_PATTERNS: Record<string, RegExp> = {
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/,
+  card: /\b(?:\d[ -]?){12,18}\d\b/,
+};
+
+/** Extra margin (px) around each mask, covering anti-aliasing and small layout shifts */
+const MASK_PADDING = 4;
+
+/** Frames are withheld until scrolling has stopped for this long (ms) */
+const SETTLE_MS = 300;
+
+/** Blur strength: masked regions are downscaled by this factor and back */
+const BLUR_FACTOR = 16;
+
+/** Text inside these elements is never shown as text, so isn't scanned */
+const SKIP_TEXT_PARENTS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE']);
+
+// ── Redactor ─────────────────────────────────────────────────────────
+
+export class Redactor {
+  private selector: string;
+  private patterns: RegExp[];
+  private style: RedactionStyle;
+  private lastMovedAt = 0;
+  private scratch: HTMLCanvasElement | null = null;
+  private readonly onMove = () => {
+    this.lastMovedAt = Date.now();
+  };
+
+  constructor(config: RedactionConfig = {}) {
+    const selectors = [...BUILT_IN_SELECTORS];
+    for (const selector of config.selectors ?? []) {
+      try {
+        document.createDocumentFragment().querySelector(selector);
+        selectors.push(selector);
+      } catch {
+        console.warn(`[Ocula] Ignoring invalid redaction selector: ${selector}`);
+      }
+    }
+    this.selector = selectors.join(', ');
+    // matchAll needs the global flag
+    this.patterns = (config.textPatterns ?? []).map(pattern =>
+      pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`)
+    );
+    this.style = config.style ?? 'blackout';
+  }
+
+  /**
+   * Start watching for scrolls and resizes (masks are measured from the
+   * DOM, so they only line up with a frame once the page holds still)
+   */
+  start(): void {
+    document.addEventListener('scroll', this.onMove, { capture: true, passive: true });
+    window.addEventListener('resize', this.onMove, { passive: true });
+  }
+
+  stop(): void {
+    document.removeEventListener('scroll', this.onMove, { capture: true });
+    window.removeEventListener('resize', this.onMove);
+  }
+
+  /** Whether the page has stopped scrolling long enough for masks to line up */
+  isSettled(): boolean {
+    return Date.now() - this.lastMovedAt >= SETTLE_MS;
+  }
+
+  /** Whether an element is masked whole (its value must not be copied) */
+  isRedacted(el: Element): boolean {
+    if (el.matches(this.selector)) return true;
+    const isField = el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement;
+    return isField && this.patterns.length > 0 && !!el.value && this.matchesText(el.value);
+  }
+
+  /**
+   * Find every region to mask that is at least partly in the viewport
+   */
+  collect(): RedactionRect[] {
+    const rects: RedactionRect[] = [];
+
+    document.querySelectorAll(this.selector).forEach(el => {
+      this.addRect(rects, el.getBoundingClientRect());
+    });
+
+    if (this.patterns.length > 0) {
+      this.collectFieldValues(rects);
+      this.collectText(rects);
+    }
+
+    return rects;
+  }
+
+  /**
+   * Mask the regions on a canvas holding a frame of the viewport
+   * @param scaleX - Canvas pixels per CSS pixel, horizontally
+   * @param scaleY - Canvas pixels per CSS pixel, vertically
+   */
+  apply(ctx: CanvasRenderingContext2D, rects: RedactionRect[], scaleX: number, scaleY: number): void {
+    const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+
+    for (const rect of rects) {
+      const x = Math.max(0, Math.floor((rect.x - MASK_PADDING) * scaleX));
+      const y = Math.max(0, Math.floor((rect.y - MASK_PADDING) * scaleY));
+      const right = Math.min(canvasWidth, Math.ceil((rect.x + rect.width + MASK_PADDING) * scaleX));
+      const bottom = Math.min(canvasHeight, Math.ceil((rect.y + rect.height + MASK_PADDING) * scaleY));
+      if (right <= x || bottom <= y) continue;
+
+      if (this.style === 'blur') {
+        this.blurRegion(ctx, x, y, right - x, bottom - y);
+      } else {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(x, y, right - x, bottom - y);
+      }
+    }
+  }
+
+  // ── Helpers ──────────────────────────────────────────────────────
+
+  private addRect(rects: RedactionRect[], rect: DOMRect): void {
+    if (rect.width === 0 || rect.height === 0) return;
+    if (rect.bottom < 0 || rect.right < 0 || rect.top > window.innerHeight || rect.left > window.innerWidth) return;
+    rects.push({ x: rect.left, y: rect.top, width: rect.width, height: rect.height });
+  }
+
+  private matchesText(text: string): boolean {
+    return this.patterns.some(pattern => {
+      pattern.lastIndex = 0;
+      return pattern.test(text);
+    });
+  }
+
+  /** Form fields don't expose their values as text nodes */
+  private collectFieldValues(rects: RedactionRect[]): void {
+    document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('input, textarea').forEach(field => {
+      if (field.value && this.matchesText(field.value)) {
+        this.addRect(rects, field.getBoundingClientRect());
+      }
+    });
+  }
+
+  /** Mask just the matching part of each text node */
+  private collectText(rects: RedactionRect[]): void {
+    if (!document.body) return;
+
+    const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const text = node.textContent;
+      if (!text || !text.trim()) continue;
+      if (node.parentElement && SKIP_TEXT_PARENTS.has(node.parentElement.tagName)) continue;
+
+      for (const pattern of this.patterns) {
+        for (const match of text.matchAll(pattern)) {
+          if (!match[0]) continue;
+          range.setStart(node, match.index);
+          range.setEnd(node, match.index + match[0].length);
+          // One rect per line the match wraps onto
+          for (const rect of Array.from(range.getClientRects())) {
+            this.addRect(rects, rect);
+          }
+        }
+      }
+    }
+
+    range.detach();
+  }
+
+  /**
+   * Blur by drawing the region tiny and scaling it back up (works in
+   * every browser, unlike ctx.filter)
+   */
+  private blurRegion(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number): void {
+    if (!this.scratch) this.scratch = document.createElement('canvas');
+    const small = this.scratch;
+    small.width = Math.max(1, Math.ceil(width / BLUR_FACTOR));
+    small.height = Math.max(1, Math.ceil(height / BLUR_FACTOR));
+
+    const smallCtx = small.getContext('2d');
+    if (!smallCtx) {
+      ctx.fillStyle = '#000';
+      ctx.fillRect(x, y, width, height);
+      return;
+    }
+
+    smallCtx.drawImage(ctx.canvas, x, y, width, height, 0, 0, small.width, small.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height);
+  }
+}
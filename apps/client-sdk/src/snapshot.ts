@@ -0,0 +1,271 @@
+/**
+ * DOM Snapshot — Render the page to an image without screen sharing
+ *
+ * An html-to-canvas style serializer: the document is cloned, whatever a
+ * clone loses is copied over (form values, canvas and video pixels,
+ * images as data URLs, scroll positions), the page's CSS is inlined, and
+ * the result is drawn through an SVG <foreignObject>. No permission
+ * prompt and no browser chrome, just the viewport.
+ *
+ * Limits: cross-origin stylesheets, web fonts and CSS background images
+ * aren't loaded inside the SVG (text falls back to system fonts), and
+ * iframes, cross-origin media and shadow DOM render as blank boxes.
+ *
+ * Redacted fields never have their values copied into the clone, and the
+ * masks are measured in the same task as the clone, so they line up with
+ * the snapshot exactly.
+ */
+
+import { Redactor, RedactionRect } from './redaction';
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface DOMSnapshot {
+  /** The viewport, rendered (size in CSS pixels) */
+  image: HTMLImageElement;
+  width: number;
+  height: number;
+  /** window.scrollX/scrollY when the snapshot was taken */
+  scrollX: number;
+  scrollY: number;
+  /** Regions to mask, relative to the viewport */
+  redactions: RedactionRect[];
+}
+
+// ── Constants ────────────────────────────────────────────────────────
+
+/** Not rendered, or replaced by the inlined CSS */
+const DROPPED_TAGS = new Set(['SCRIPT', 'NOSCRIPT', 'TEMPLATE', 'STYLE', 'LINK']);
+
+/** Embedded content that can't be drawn from inside an SVG image */
+const BLANK_TAGS = new Set(['IFRAME', 'OBJECT', 'EMBED']);
+
+/** Fill for content that couldn't be copied */
+const PLACEHOLDER_BACKGROUND = '#e5e7eb';
+
+/** Longest side (px) images are inlined at */
+const MAX_IMAGE_SIZE = 1024;
+
+/** Inlined images kept between snapshots */
+const MAX_CACHED_IMAGES = 200;
+
+// ── Renderer ─────────────────────────────────────────────────────────
+
+export class DOMSnapshotRenderer {
+  /** Data URL per image src (null: the image can't be read) */
+  private imageCache = new Map<string, string | null>();
+  private sheetCache = new WeakMap<CSSStyleSheet, { ruleCount: number; css: string }>();
+  private warnedSheets = new Set<string>();
+
+  constructor(private redactor: Redactor) {}
+
+  /**
+   * Check if DOM snapshots are supported in this browser
+   */
+  static isSupported(): boolean {
+    return typeof XMLSerializer !== 'undefined' && typeof HTMLImageElement.prototype.decode === 'function';
+  }
+
+  /**
+   * Render the current viewport
+   */
+  async render(): Promise<DOMSnapshot> {
+    const root = document.documentElement;
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const scrollX = window.scrollX;
+    const scrollY = window.scrollY;
+
+    const redactions = this.redactor.collect();
+    const clone = root.cloneNode(true) as HTMLElement;
+    const dropped: Element[] = [];
+    this.copyState(root, clone, dropped);
+    dropped.forEach(el => el.remove());
+
+    const style = document.createElement('style');
+    style.textContent = this.collectCSS();
+    (clone.querySelector('head') ?? clone).prepend(style);
+
+    // Lay the page out at the live viewport size and shift it by the
+    // window scroll; fixed elements stay put, as they do on screen
+    clone.style.position = 'relative';
+    clone.style.left = `${-scrollX}px`;
+    clone.style.top = `${-scrollY}px`;
+
+    const markup = new XMLSerializer().serializeToString(clone);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<foreignObject x="0" y="0" width="${root.clientWidth}" height="${root.clientHeight}">${markup}</foreignObject>` +
+      `</svg>`;
+
+    const image = new Image();
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    await image.decode();
+
+    return { image, width, height, scrollX, scrollY, redactions };
+  }
+
+  // ── Cloning ──────────────────────────────────────────────────────
+
+  /**
+   * Copy what cloneNode leaves behind, walking the live tree and its
+   * clone side by side
+   */
+  private copyState(live: Element, clone: Element, dropped: Element[]): void {
+    if (DROPPED_TAGS.has(live.tagName)) {
+      dropped.push(clone);
+      return;
+    }
+
+    if (live instanceof HTMLInputElement) {
+      this.copyInput(live, clone as HTMLInputElement);
+    } else if (live instanceof HTMLTextAreaElement) {
+      clone.textContent = this.redactor.isRedacted(live) ? '' : live.value;
+    } else if (live instanceof HTMLSelectElement) {
+      const options = (clone as HTMLSelectElement).options;
+      Array.from(live.options).forEach((option, i) => {
+        if (option.selected) options[i]?.setAttribute('selected', '');
+        else options[i]?.removeAttribute('selected');
+      });
+    } else if (live instanceof HTMLImageElement) {
+      this.inlineImage(live, clone as HTMLImageElement);
+    } else if (live instanceof HTMLCanvasElement) {
+      this.replaceWithImage(clone, this.toDataUrl(live, live.width, live.height));
+      return;
+    } else if (live instanceof HTMLVideoElement) {
+      this.replaceWithImage(clone, this.toDataUrl(live, live.videoWidth, live.videoHeight));
+      return;
+    } else if (BLANK_TAGS.has(live.tagName)) {
+      clone.removeAttribute('src');
+      clone.removeAttribute('srcdoc');
+      clone.removeAttribute('data');
+      (clone as HTMLElement).style.background = PLACEHOLDER_BACKGROUND;
+      return;
+    }
+
+    const liveChildren = live.children;
+    const cloneChildren = clone.children;
+    for (let i = 0; i < liveChildren.length; i++) {
+      this.copyState(liveChildren[i], cloneChildren[i], dropped);
+    }
+
+    // A clone isn't scrolled, so shift a scrolled container's children
+    // (the window scroll is applied to the root instead)
+    const isWindowScroller = live === document.scrollingElement || live === document.body;
+    if (!isWindowScroller && (live.scrollTop || live.scrollLeft)) {
+      for (const child of Array.from(clone.children)) {
+        (child as HTMLElement).style?.setProperty('translate', `${-live.scrollLeft}px ${-live.scrollTop}px`);
+      }
+    }
+  }
+
+  private copyInput(live: HTMLInputElement, clone: HTMLInputElement): void {
+    if (live.type === 'checkbox' || live.type === 'radio') {
+      if (live.checked) clone.setAttribute('checked', '');
+      else clone.removeAttribute('checked');
+    } else if (live.type === 'password' || live.type === 'file' || this.redactor.isRedacted(live)) {
+      clone.removeAttribute('value');
+    } else {
+      clone.setAttribute('value', live.value);
+    }
+  }
+
+  private inlineImage(live: HTMLImageElement, clone: HTMLImageElement): void {
+    clone.removeAttribute('srcset');
+    clone.removeAttribute('sizes');
+    clone.removeAttribute('loading');
+
+    const src = live.currentSrc || live.src;
+    if (!src || src.startsWith('data:')) return;
+
+    let dataUrl = this.imageCache.get(src);
+    if (dataUrl === undefined) {
+      // Not loaded yet: try again next snapshot
+      if (!live.complete || live.naturalWidth === 0) {
+        clone.removeAttribute('src');
+        return;
+      }
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(live.naturalWidth, live.naturalHeight));
+      dataUrl = this.toDataUrl(live, Math.round(live.naturalWidth * scale), Math.round(live.naturalHeight * scale));
+      if (this.imageCache.size >= MAX_CACHED_IMAGES) {
+        this.imageCache.delete(this.imageCache.keys().next().value as string);
+      }
+      this.imageCache.set(src, dataUrl);
+    }
+
+    if (dataUrl) {
+      clone.setAttribute('src', dataUrl);
+    } else {
+      clone.removeAttribute('src');
+      clone.style.background = PLACEHOLDER_BACKGROUND;
+    }
+  }
+
+  /** Swap a clone for an <img> with the same attributes */
+  private replaceWithImage(clone: Element, dataUrl: string | null): void {
+    const img = document.createElement('img');
+    for (const attr of Array.from(clone.attributes)) {
+      img.setAttribute(attr.name, attr.value);
+    }
+    if (dataUrl) {
+      img.setAttribute('src', dataUrl);
+    } else {
+      img.removeAttribute('src');
+      img.style.background = PLACEHOLDER_BACKGROUND;
+    }
+    clone.replaceWith(img);
+  }
+
+  /**
+   * Draw an image source to a PNG data URL (null if it's empty or
+   * cross-origin without CORS, which taints the canvas)
+   */
+  private toDataUrl(source: CanvasImageSource, width: number, height: number): string | null {
+    if (width === 0 || height === 0) return null;
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return null;
+      ctx.drawImage(source, 0, 0, width, height);
+      return canvas.toDataURL('image/png');
+    } catch {
+      return null;
+    }
+  }
+
+  // ── CSS ──────────────────────────────────────────────────────────
+
+  /** The page's stylesheets as one block of CSS */
+  private collectCSS(): string {
+    const sheets = [...Array.from(document.styleSheets), ...document.adoptedStyleSheets];
+    return sheets.map(sheet => this.sheetCSS(sheet)).join('\n');
+  }
+
+  private sheetCSS(sheet: CSSStyleSheet): string {
+    if (sheet.disabled) return '';
+
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Cross-origin stylesheet served without CORS
+      if (sheet.href && !this.warnedSheets.has(sheet.href)) {
+        this.warnedSheets.add(sheet.href);
+        console.warn(`[Ocula] Can't read stylesheet for snapshots: ${sheet.href}`);
+      }
+      return '';
+    }
+
+    const cached = this.sheetCache.get(sheet);
+    if (cached && cached.ruleCount === rules.length) return cached.css;
+
+    let css = Array.from(rules, rule => rule.cssText).join('\n');
+    if (sheet.media.mediaText) {
+      css = `@media ${sheet.media.mediaText} {\n${css}\n}`;
+    }
+    this.sheetCache.set(sheet, { ruleCount: rules.length, css });
+    return css;
+  }
+}
@@ -4,26 +4,28 @@
  * Creates the Ocula AI ReAct agent using LangChain's createAgent():
  * - Model: ChatGoogleGenerativeAI (gemini-2.0-flash for fast tool calling)
  * - Tools: inspectScreen, drawVisualGuide, searchKnowledge, clearOverlays
- * - Middleware: toolErrorHandler + screenContextMiddleware
- * - Checkpointer: MemorySaver for multi-turn conversation via thread_id
+ * - Middleware: toolErrorHandler + screenContextMiddleware + personaPrompt
+ *   (the platform's persona, from the runtime context, shapes the system prompt)
+ * - Checkpointer: SQLite-backed (./checkpointer.ts) for multi-turn conversation
+ *   via thread_id that survives restarts
  * - LangSmith: Automatic tracing when LANGSMITH_TRACING_V2=true
  */
 
-import { createAgent, createMiddleware, ToolMessage } from 'langchain';
-import { MemorySaver } from '@langchain/langgraph';
+import { createAgent, createMiddleware, dynamicSystemPromptMiddleware, ToolMessage } from 'langchain';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { oculaTools } from './tools.js';
+import { getCheckpointer } from './checkpointer.js';
 import { env } from '../config/env.js';
+import { AssistantPersona, DEFAULT_PERSONA, personaIdentity, personaGuidelines } from '../persona/index.js';
 
 /**
- * System prompt for Ocula AI
+ * System prompt rules
  * 
- * Defines the agent's role, capabilities, and behavior guidelines
- * for visual guidance interactions.
+ * Defines the agent's capabilities and behavior guidelines for visual
+ * guidance interactions. The platform's persona supplies the identity
+ * line before them and its guidelines after them (personaPrompt).
  */
-const SYSTEM_PROMPT = `You are Ocula AI, a visual support assistant that helps users navigate software interfaces in real-time.
-
-Your capabilities:
+const AGENT_RULES = `Your capabilities:
 1. INSPECT the user's screen to find UI elements using the inspect_screen tool
 2. HIGHLIGHT elements using draw_visual_guide to guide the user visually
 3. SEARCH internal help context using search_knowledge
@@ -88,13 +90,29 @@ const screenContextMiddleware = createMiddleware({
   },
 });
 
+/**
+ * Middleware: Persona Prompt
+ * 
+ * Builds the system prompt for each model call from the persona,
+ * platform name and visitor locale in the runtime context (set by runOculaAgent), so one
+ * agent instance can speak for every platform.
+ */
+const personaPrompt = dynamicSystemPromptMiddleware<{ persona?: AssistantPersona; platformName?: string; locale?: string | null }>(
+  (_state, runtime) => {
+    const persona = runtime.context?.persona ?? DEFAULT_PERSONA;
+    const platformName = runtime.context?.platformName ?? 'software interfaces';
+    const guidelines = personaGuidelines(persona, platformName, runtime.context?.locale ?? null);
+    return `${personaIdentity(persona, platformName)}\n\n${AGENT_RULES}\n\n${guidelines}`;
+  }
+);
+
 /**
  * Create the Ocula Agent
  * 
  * Uses createAgent() which builds a LangGraph internally with:
  * - Automatic ReAct loop (model → tools → model → ...)
  * - Built-in tool execution
- * - Memory via MemorySaver checkpointer
+ * - Memory via the durable SQLite checkpointer
  * - LangSmith tracing (when enabled via env vars)
  */
 export function createOculaAgent() {
@@ -109,9 +127,8 @@ export function createOculaAgent() {
   const agent = createAgent({
     model,
     tools: oculaTools,
-    systemPrompt: SYSTEM_PROMPT,
-    middleware: [toolErrorHandler, screenContextMiddleware],
-    checkpointer: new MemorySaver(),
+    middleware: [personaPrompt, toolErrorHandler, screenContextMiddleware],
+    checkpointer: getCheckpointer(),
   });
 
   console.log('[Agent] Ocula agent created with', oculaTools.length, 'tools');
@@ -125,7 +142,7 @@ let agentInstance: ReturnType<typeof createOculaAgent> | null = null;
  * Get the singleton Ocula agent instance
  * 
  * Lazily creates the agent on first call.
- * The singleton pattern ensures a single MemorySaver
+ * The singleton pattern ensures a single checkpointer
  * is shared across all sessions.
  */
 export function getOculaAgent() {
@@ -0,0 +1,142 @@
+/**
+ * Checkpointer - Durable LangGraph conversation memory
+ *
+ * Persists agent checkpoints to SQLite (CHECKPOINT_DB_PATH) so conversation
+ * threads survive server restarts, and evicts old threads so the store
+ * doesn't grow without bound:
+ * - TTL: threads idle longer than CHECKPOINT_TTL_HOURS are deleted
+ * - Cap: beyond CHECKPOINT_MAX_THREADS, the least recently active go first
+ *
+ * Thread activity is tracked in a `thread_activity` table next to the
+ * saver's own `checkpoints`/`writes` tables.
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import { SqliteSaver } from '@langchain/langgraph-checkpoint-sqlite';
+import type { RunnableConfig } from '@langchain/core/runnables';
+import type { Checkpoint, CheckpointMetadata } from '@langchain/langgraph';
+import { env } from '../config/env.js';
+import type { SqliteDatabase } from '../db/index.js';
+
+/** How often eviction runs while the server is up */
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * SqliteSaver that records when each thread was last written
+ */
+class OculaCheckpointSaver extends SqliteSaver {
+  private readonly touchStatement;
+
+  constructor(db: SqliteDatabase) {
+    super(db);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS thread_activity (
+        thread_id TEXT PRIMARY KEY,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS thread_activity_updated_at_idx ON thread_activity(updated_at);
+    `);
+    this.touchStatement = db.prepare(`
+      INSERT INTO thread_activity (thread_id, updated_at) VALUES (?, ?)
+      ON CONFLICT(thread_id) DO UPDATE SET updated_at = excluded.updated_at
+    `);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    const threadId = config.configurable?.thread_id;
+    if (threadId) this.touchStatement.run(String(threadId), Date.now());
+    return result;
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await super.deleteThread(threadId);
+    this.db.prepare('DELETE FROM thread_activity WHERE thread_id = ?').run(threadId);
+  }
+
+  /** True if the thread has at least one stored checkpoint */
+  hasThread(threadId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM thread_activity WHERE thread_id = ?').get(threadId) !== undefined;
+  }
+
+  /**
+   * Delete expired threads, then the oldest ones beyond the cap
+   *
+   * @returns Number of threads deleted
+   */
+  async prune(ttlMs: number, maxThreads: number): Promise<number> {
+    const cutoff = Date.now() - ttlMs;
+
+    const expired = this.db
+      .prepare('SELECT thread_id FROM thread_activity WHERE updated_at < ?')
+      .all(cutoff) as Array<{ thread_id: string }>;
+
+    const overflow = this.db
+      .prepare('SELECT thread_id FROM thread_activity WHERE updated_at >= ? ORDER BY updated_at DESC LIMIT -1 OFFSET ?')
+      .all(cutoff, maxThreads) as Array<{ thread_id: string }>;
+
+    const stale = [...expired, ...overflow];
+    for (const { thread_id } of stale) {
+      await this.deleteThread(thread_id);
+    }
+    return stale.length;
+  }
+}
+
+let saverInstance: OculaCheckpointSaver | null = null;
+let pruneTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Get the shared checkpointer, opening the database on first use
+ */
+export function getCheckpointer(): OculaCheckpointSaver {
+  if (!saverInstance) {
+    mkdirSync(dirname(env.CHECKPOINT_DB_PATH), { recursive: true });
+    const db = new Database(env.CHECKPOINT_DB_PATH);
+    db.pragma('journal_mode = WAL');
+    saverInstance = new OculaCheckpointSaver(db);
+    console.log('[Checkpointer] Opened', env.CHECKPOINT_DB_PATH);
+
+    pruneThreads();
+    pruneTimer = setInterval(pruneThreads, PRUNE_INTERVAL_MS);
+    pruneTimer.unref();
+  }
+  return saverInstance;
+}
+
+/**
+ * Run the eviction policy (never throws)
+ */
+export function pruneThreads(): void {
+  if (!saverInstance) return;
+
+  saverInstance
+    .prune(env.CHECKPOINT_TTL_HOURS * 60 * 60 * 1000, env.CHECKPOINT_MAX_THREADS)
+    .then(count => {
+      if (count > 0) console.log(`[Checkpointer] Evicted ${count} conversation thread(s)`);
+    })
+    .catch(error => console.error('[Checkpointer] Eviction failed:', error));
+}
+
+/**
+ * Whether a conversation thread exists (e.g. to resume after a reconnect)
+ */
+export function hasThread(threadId: string): boolean {
+  return getCheckpointer().hasThread(threadId);
+}
+
+/**
+ * Close the checkpoint database (on shutdown)
+ */
+export function closeCheckpointer(): void {
+  if (pruneTimer) {
+    clearInterval(pruneTimer);
+    pruneTimer = null;
+  }
+  if (saverInstance) {
+    saverInstance.db.close();
+    saverInstance = null;
+  }
+}
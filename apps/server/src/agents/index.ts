@@ -8,13 +8,9 @@
 
 import { HumanMessage } from '@langchain/core/messages';
 import { getOculaAgent } from './agent.js';
-
-/** Visual command extracted from agent tool calls */
-export interface AgentVisualCommand {
-  type: 'arrow' | 'highlight' | 'circle' | 'clear';
-  point?: [number, number];
-  label?: string;
-}
+import { AssistantPersona } from '../persona/index.js';
+import { hasThread } from './checkpointer.js';
+import { extractVisualCommands, AgentVisualCommand } from './tools.js';
 
 /** Result from running the agent */
 export interface AgentResult {
@@ -33,19 +29,32 @@ export interface AgentResult {
  * 4. Call clear_overlays to remove previous annotations
  * 5. Return a natural language response
  * 
+ * Threads are checkpointed to SQLite, so calling again with the same
+ * sessionId — after a reconnect or a server restart — continues the
+ * earlier conversation.
+ *
  * @param input.sessionId - Unique session ID (used as thread_id for checkpointing)
+ * @param input.platformId - Tenant the session belongs to (scopes search_knowledge)
+ * @param input.platformName - Tenant's product name (for the system prompt)
+ * @param input.persona - Tenant's assistant persona (for the system prompt)
+ * @param input.locale - Visitor's locale from the handshake (for the system prompt)
  * @param input.userMessage - The user's question or request
  * @param input.screenBase64 - Current screen capture as base64 JPEG (optional)
  * @returns Agent response text and array of visual commands
  */
 export async function runOculaAgent(input: {
   sessionId: string;
+  platformId: string;
+  platformName: string;
+  persona: AssistantPersona;
+  locale: string | null;
   userMessage: string;
   screenBase64?: string;
 }): Promise<AgentResult> {
   const agent = await getOculaAgent();
 
-  console.log(`[Agent] Running for session ${input.sessionId}: "${input.userMessage}" (screen: ${!!input.screenBase64})`);
+  const resumed = hasThread(input.sessionId);
+  console.log(`[Agent] Running for session ${input.sessionId}${resumed ? ' (resumed thread)' : ''}: "${input.userMessage}" (screen: ${!!input.screenBase64})`);
 
   try {
     // Invoke the agent with session context
@@ -56,8 +65,14 @@ export async function runOculaAgent(input: {
       {
         // Session-based checkpointing: same thread_id = same conversation
         configurable: { thread_id: input.sessionId },
-        // Inject screen capture into runtime context for middleware
-        context: { screenBase64: input.screenBase64 },
+        // Inject screen capture (for middleware), tenant (for search_knowledge) and persona (for the prompt) into runtime context
+        context: {
+          screenBase64: input.screenBase64,
+          platformId: input.platformId,
+          platformName: input.platformName,
+          persona: input.persona,
+          locale: input.locale,
+        },
         // LangSmith tracing tags
         tags: [`session:${input.sessionId}`],
         metadata: { userMessage: input.userMessage },
@@ -86,52 +101,11 @@ export async function runOculaAgent(input: {
   }
 }
 
-/**
- * Extract visual commands from agent message history
- * 
- * Scans through all messages looking for ToolMessage results
- * from draw_visual_guide and clear_overlays tools.
- * Parses their JSON content to extract draw/clear commands.
- */
-function extractVisualCommands(messages: unknown[]): AgentVisualCommand[] {
-  const commands: AgentVisualCommand[] = [];
-
-  for (const msg of messages) {
-    if (!msg || typeof msg !== 'object') continue;
-
-    // Check for ToolMessage content (tool results contain our commands)
-    const msgObj = msg as Record<string, any>;
-    
-    // Only process tool result messages
-    if (msgObj.constructor?.name !== 'ToolMessage' && !('tool_call_id' in msgObj)) {
-      continue;
-    }
-
-    try {
-      const content = typeof msgObj.content === 'string'
-        ? JSON.parse(msgObj.content)
-        : msgObj.content;
-
-      if (content?.command === 'draw') {
-        commands.push({
-          type: content.type as AgentVisualCommand['type'],
-          point: content.point,
-          label: content.label,
-        });
-      } else if (content?.command === 'clear') {
-        commands.push({ type: 'clear' });
-      }
-    } catch {
-      // Non-JSON content (e.g., inspect_screen results, knowledge results) — skip
-    }
-  }
-
-  return commands;
-}
-
 // Re-export for convenience
 export { getOculaAgent } from './agent.js';
 export { oculaTools } from './tools.js';
+export type { AgentVisualCommand } from './tools.js';
 export { streamOculaAgent } from './stream.js';
+export { hasThread, closeCheckpointer } from './checkpointer.js';
 export type { StreamEvent } from './stream.js';
 export type { VisualCommand } from './state.js';
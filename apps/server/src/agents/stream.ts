@@ -5,33 +5,69 @@
  * as the agent processes tool calls and generates responses.
  * This enables real-time UI updates (e.g., showing "Analyzing screen..."
  * while the inspect_screen tool runs).
+ *
+ * Two stream modes run together:
+ * - messages: model tokens as they are generated (text events)
+ * - updates: each finished node's messages — complete tool calls and
+ *   tool results, and the final answer
  */
 
-import { HumanMessage } from '@langchain/core/messages';
+import { HumanMessage, AIMessage, AIMessageChunk, ToolMessage, BaseMessage } from '@langchain/core/messages';
 import { getOculaAgent } from './agent.js';
+import { extractVisualCommands, AgentVisualCommand } from './tools.js';
+import { AssistantPersona } from '../persona/index.js';
 
 /** Stream event types */
 export interface StreamEvent {
   type: 'text' | 'tool_call' | 'tool_result' | 'done';
+  /** text: the next chunk of the answer; tool_result: the tool's output */
   content?: string;
   toolName?: string;
   toolArgs?: Record<string, unknown>;
+  /** done: the complete final answer */
+  response?: string;
+  /** done: visual commands produced by the tools */
+  visualCommands?: AgentVisualCommand[];
+  /** done: why the run failed, if it did (response then holds an apology) */
+  error?: string;
+}
+
+/**
+ * Plain text of a message's content (string, or text parts)
+ */
+function textContent(message: BaseMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content
+    .map(part => (part.type === 'text' && 'text' in part ? String(part.text) : ''))
+    .join('');
 }
 
 /**
  * Stream agent responses for real-time UI updates
  * 
  * Yields events as the agent processes:
- * 1. tool_call - Agent decided to call a tool
- * 2. text - Agent generated text content
- * 3. done - Agent finished processing
+ * 1. text - Next chunk of text the model generated
+ * 2. tool_call - Agent decided to call a tool
+ * 3. tool_result - A tool finished
+ * 4. done - Agent finished, with the final answer and visual commands
+ *
+ * Text from a turn that ends in tool calls streams too, so the final
+ * answer in `done` is what should be kept once the run is over.
  * 
  * @param input.sessionId - Session ID for checkpointing
+ * @param input.platformId - Tenant the session belongs to (scopes search_knowledge)
+ * @param input.platformName - Tenant's product name (for the system prompt)
+ * @param input.persona - Tenant's assistant persona (for the system prompt)
+ * @param input.locale - Visitor's locale from the handshake (for the system prompt)
  * @param input.userMessage - User's question or request
  * @param input.screenBase64 - Current screen capture (base64 JPEG)
  */
 export async function* streamOculaAgent(input: {
   sessionId: string;
+  platformId: string;
+  platformName: string;
+  persona: AssistantPersona;
+  locale: string | null;
   userMessage: string;
   screenBase64?: string;
 }): AsyncGenerator<StreamEvent> {
@@ -44,61 +80,59 @@ export async function* streamOculaAgent(input: {
       },
       {
         configurable: { thread_id: input.sessionId },
-        context: { screenBase64: input.screenBase64 },
-        streamMode: 'values' as const,
+        context: {
+          screenBase64: input.screenBase64,
+          platformId: input.platformId,
+          platformName: input.platformName,
+          persona: input.persona,
+          locale: input.locale,
+        },
+        streamMode: ['messages', 'updates'] as const,
       }
     );
 
-    let lastMessageCount = 0;
+    let response = '';
+    const toolMessages: ToolMessage[] = [];
 
-    for await (const chunk of stream) {
-      const messages = chunk.messages || [];
-      
-      // Only process new messages since last chunk
-      if (messages.length > lastMessageCount) {
-        const newMessages = messages.slice(lastMessageCount);
-        
-        for (const msg of newMessages) {
-          // AI message with tool calls
-          const msgAny = msg as any;
-          if (msgAny.tool_calls && msgAny.tool_calls.length > 0) {
-            for (const toolCall of msgAny.tool_calls) {
-              yield {
-                type: 'tool_call',
-                toolName: toolCall.name,
-                toolArgs: toolCall.args,
-              };
+    for await (const [mode, chunk] of stream) {
+      if (mode === 'messages') {
+        // Model tokens (tool results come through here too; they're handled below)
+        const [message] = chunk as [BaseMessage, unknown];
+        if (AIMessageChunk.isInstance(message)) {
+          const text = textContent(message);
+          if (text) yield { type: 'text', content: text };
+        }
+        continue;
+      }
+
+      // A node finished: { [node]: { messages: [...] } }
+      for (const update of Object.values(chunk as Record<string, { messages?: BaseMessage[] } | undefined>)) {
+        for (const message of update?.messages ?? []) {
+          if (AIMessage.isInstance(message)) {
+            for (const toolCall of message.tool_calls ?? []) {
+              yield { type: 'tool_call', toolName: toolCall.name, toolArgs: toolCall.args };
             }
-          }
-          
-          // AI message with text content
-          if (typeof msg.content === 'string' && msg.content.length > 0) {
-            yield {
-              type: 'text',
-              content: msg.content,
-            };
-          }
-          
-          // Tool result message
-          if (msg.constructor?.name === 'ToolMessage') {
-            yield {
-              type: 'tool_result',
-              content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
-            };
+            if (!message.tool_calls?.length) response = textContent(message);
+          } else if (ToolMessage.isInstance(message)) {
+            toolMessages.push(message);
+            yield { type: 'tool_result', toolName: message.name, content: textContent(message) };
           }
         }
-        
-        lastMessageCount = messages.length;
       }
     }
 
-    yield { type: 'done' };
+    yield {
+      type: 'done',
+      response: response || 'I analyzed your screen. Let me know if you need more help.',
+      visualCommands: extractVisualCommands(toolMessages),
+    };
   } catch (error) {
     console.error('[Agent Stream] Error:', error);
     yield {
-      type: 'text',
-      content: `I encountered an error while processing your request: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      type: 'done',
+      response: `I'm having trouble processing your request. ${error instanceof Error ? error.message : 'Please try again.'}`,
+      visualCommands: [],
+      error: error instanceof Error ? error.message : String(error),
     };
-    yield { type: 'done' };
   }
 }
@@ -4,7 +4,7 @@
  * Defines 4 tools using LangChain's tool() helper with Zod schemas:
  * 1. inspectScreen  - Analyze screen to find UI elements (Gemini Vision)
  * 2. drawVisualGuide - Return draw commands for client SVG overlay
- * 3. searchKnowledge - Search the hardcoded knowledge base
+ * 3. searchKnowledge - Search the calling platform's knowledge base
  * 4. clearOverlays   - Return clear command for client
  * 
  * All tools return serialized JSON strings that the agent framework
@@ -13,6 +13,7 @@
 
 import { z } from 'zod';
 import { tool } from 'langchain';
+import type { ToolRuntime } from 'langchain';
 import { analyzeScreenWithGemini } from '../gemini/vision.js';
 import { lookupKnowledge } from '../knowledge/index.js';
 
@@ -60,12 +61,19 @@ export const inspectScreen = tool(
 /**
  * Tool: Search the knowledge base
  * 
- * For MVP, searches the hardcoded Acme CRM knowledge base.
- * Returns matching documentation sections with relevance scores.
+ * Searches only the calling platform's corpus. The platform id comes
+ * from the runtime context set by runOculaAgent — never from the model —
+ * so one tenant can't query another tenant's documents.
+ * Returns matching documentation sections with relevance scores and
+ * citable section ids.
  */
 export const searchKnowledge = tool(
-  async ({ query }: { query: string }) => {
-    const result = await lookupKnowledge(query);
+  async ({ query }: { query: string }, runtime: ToolRuntime<unknown, { platformId?: string }>) => {
+    const platformId = runtime.context?.platformId;
+    if (!platformId) {
+      return JSON.stringify({ found: false, sections: [], citations: [], summary: 'Knowledge base is not available.' });
+    }
+    const result = await lookupKnowledge(query, platformId);
     return JSON.stringify(result);
   },
   {
@@ -124,3 +132,57 @@ export const highlightElement = tool(
 
 /** All tools as array for createAgent */
 export const oculaTools = [inspectScreen, highlightElement, searchKnowledge, clearOverlays];
+
+/** Visual command extracted from agent tool calls */
+export interface AgentVisualCommand {
+  type: 'arrow' | 'highlight' | 'highlight_element' | 'circle' | 'clear';
+  point?: [number, number];
+  selector?: string;
+  action?: 'apply' | 'clear';
+  label?: string;
+}
+
+/**
+ * Extract visual commands from agent message history
+ * 
+ * Scans through all messages looking for ToolMessage results
+ * from draw_visual_guide and clear_overlays tools.
+ * Parses their JSON content to extract draw/clear commands.
+ */
+export function extractVisualCommands(messages: unknown[]): AgentVisualCommand[] {
+  const commands: AgentVisualCommand[] = [];
+
+  for (const msg of messages) {
+    if (!msg || typeof msg !== 'object') continue;
+
+    // Check for ToolMessage content (tool results contain our commands)
+    const msgObj = msg as Record<string, any>;
+    
+    // Only process tool result messages
+    if (msgObj.constructor?.name !== 'ToolMessage' && !('tool_call_id' in msgObj)) {
+      continue;
+    }
+
+    try {
+      const content = typeof msgObj.content === 'string'
+        ? JSON.parse(msgObj.content)
+        : msgObj.content;
+
+      if (content?.command === 'draw') {
+        commands.push({
+          type: content.type as AgentVisualCommand['type'],
+          point: content.point,
+          selector: content.selector,
+          action: content.action,
+          label: content.label,
+        });
+      } else if (content?.command === 'clear') {
+        commands.push({ type: 'clear' });
+      }
+    } catch {
+      // Non-JSON content (e.g., inspect_screen results, knowledge results) — skip
+    }
+  }
+
+  return commands;
+}
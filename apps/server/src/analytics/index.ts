@@ -0,0 +1,133 @@
+/**
+ * Analytics - Widget session usage metrics
+ *
+ * Records one row per widget session (start, duration, whether the
+ * visitor shared their screen or used the mic) plus an event row for
+ * every Live tool call, every overlay render result reported by the
+ * client, and every error surfaced to the client. The dashboard
+ * aggregates these by date range via /api/analytics.
+ *
+ * Tables live in the shared database (`widget_session`, `widget_event`)
+ * and are created by the dashboard. Write failures are logged and never
+ * interrupt the session.
+ */
+
+import { getDb } from '../db/index.js';
+
+/** Where an error came from */
+export type ErrorSource = 'live_session' | 'agent' | 'tool_call' | 'message' | 'quota';
+
+/**
+ * SessionAnalytics - Usage recorder for one widget session
+ */
+export class SessionAnalytics {
+  private startedAt = 0;
+  /** When the visitor disconnected, while the session waits to be resumed */
+  private endedAt: number | null = null;
+  private usedScreenShare = false;
+  private usedMic = false;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly platformId: string,
+  ) {}
+
+  /**
+   * Record the session start (once; resumed connections keep the row)
+   */
+  start(): void {
+    this.startedAt = Date.now();
+    this.run(
+      'start',
+      `INSERT OR IGNORE INTO "widget_session" ("sessionId","platformId","startedAt") VALUES (?, ?, ?)`,
+      this.sessionId,
+      this.platformId,
+      new Date(this.startedAt).toISOString(),
+    );
+  }
+
+  /** The visitor shared their screen at least once */
+  markScreenShare(): void {
+    if (this.usedScreenShare) return;
+    this.usedScreenShare = true;
+    this.run('screen share', `UPDATE "widget_session" SET "usedScreenShare" = 1 WHERE "sessionId" = ?`, this.sessionId);
+  }
+
+  /** The visitor spoke through their microphone at least once */
+  markMic(): void {
+    if (this.usedMic) return;
+    this.usedMic = true;
+    this.run('mic', `UPDATE "widget_session" SET "usedMic" = 1 WHERE "sessionId" = ?`, this.sessionId);
+  }
+
+  recordToolCall(name: string, success: boolean): void {
+    this.recordEvent('tool_call', name, success, null);
+  }
+
+  /** How a highlight rendered on the host page ('rendered', 'not_found', …) */
+  recordOverlayResult(status: string): void {
+    this.recordEvent('overlay', status, status === 'rendered', null);
+  }
+
+  recordError(source: ErrorSource, error: unknown): void {
+    const detail = error instanceof Error ? error.message : String(error);
+    this.recordEvent('error', source, false, detail.slice(0, 500));
+  }
+
+  /** The visitor disconnected; the session may still be resumed */
+  detach(): void {
+    this.endedAt = Date.now();
+  }
+
+  /** A new connection picked the session back up */
+  resume(): void {
+    this.endedAt = null;
+  }
+
+  /**
+   * Record the end time and duration once the session is discarded (a
+   * deliberate disconnect, or the resume window running out). A detached
+   * session ends when the visitor left, not when the window closed.
+   */
+  end(): void {
+    const endedAt = this.endedAt ?? Date.now();
+    this.run(
+      'end',
+      `UPDATE "widget_session" SET "endedAt" = ?, "durationMs" = ? WHERE "sessionId" = ?`,
+      new Date(endedAt).toISOString(),
+      endedAt - this.startedAt,
+      this.sessionId,
+    );
+  }
+
+  private recordEvent(type: 'tool_call' | 'overlay' | 'error', name: string, success: boolean, detail: string | null): void {
+    this.run(
+      type,
+      `INSERT INTO "widget_event" ("sessionId","platformId","type","name","success","detail","createdAt") VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      this.sessionId,
+      this.platformId,
+      type,
+      name,
+      success ? 1 : 0,
+      detail,
+      new Date().toISOString(),
+    );
+  }
+
+  private run(what: string, sql: string, ...params: unknown[]): void {
+    try {
+      getDb().prepare(sql).run(...params);
+    } catch (error) {
+      console.error(`[Analytics] Failed to record ${what} for ${this.sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Create an analytics recorder for a session
+ */
+export function createSessionAnalytics(sessionId: string, platformId: string): SessionAnalytics {
+  return new SessionAnalytics(sessionId, platformId);
+}
+
+export default createSessionAnalytics;
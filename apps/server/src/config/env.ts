@@ -6,8 +6,12 @@
  */
 
 import { z } from 'zod';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
 import 'dotenv/config';
 
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
 /**
  * Environment schema with validation
  */
@@ -16,9 +20,38 @@ const envSchema = z.object({
   PORT: z.string().default('3001').transform(Number),
   HOST: z.string().default('0.0.0.0'),
   
-  // CORS Configuration
+  // CORS Configuration — development pages (and the bundled demo's
+  // allowed origins). Customer widgets are allowed per platform instead.
   CORS_ORIGIN: z.string().default('http://localhost:5173,http://localhost:3000'),
   
+  // Shared SQLite database written by the web dashboard (platforms, documents)
+  DATABASE_PATH: z.string().default(join(__dirname, '..', '..', '..', 'web', 'sqlite.db')),
+
+  // Durable agent conversation checkpoints (LangGraph threads)
+  CHECKPOINT_DB_PATH: z.string().default(join(__dirname, '..', '..', 'data', 'checkpoints.db')),
+  CHECKPOINT_TTL_HOURS: z.string().default('168').transform(Number),
+  CHECKPOINT_MAX_THREADS: z.string().default('1000').transform(Number),
+
+  // How long a disconnected widget session can be resumed with its resume token
+  SESSION_RESUME_GRACE_MS: z.string().default('60000').transform(Number),
+
+  // Platform id served by the bundled Acme CRM demo (mock-crm) without a database row
+  DEMO_PLATFORM_ID: z.string().default('mock-crm-demo'),
+  // Publishable key the demo's embed snippet presents (data-key)
+  DEMO_PUBLISHABLE_KEY: z.string().default('pk_demo_mock_crm'),
+
+  // Signs the short-lived widget tokens that authenticate /ws connections.
+  // Set it when running more than one server instance; otherwise a random
+  // per-process secret is used (tokens then don't survive a restart)
+  WIDGET_TOKEN_SECRET: z.string().min(32, 'WIDGET_TOKEN_SECRET must be at least 32 characters').optional(),
+  WIDGET_TOKEN_TTL_SECONDS: z.string().default('300').transform(Number),
+
+  // Live (voice + vision) sessions a platform may have open at once
+  MAX_LIVE_SESSIONS_PER_PLATFORM: z.string().default('25').transform(Number),
+
+  // Embeddings for knowledge retrieval: 'gemini', 'local' (deterministic, offline) or 'none' (lexical only)
+  EMBEDDING_PROVIDER: z.enum(['gemini', 'local', 'none']).default('gemini'),
+
   // Gemini API (Required)
   GEMINI_API_KEY: z.string().min(1, 'GEMINI_API_KEY is required'),
   
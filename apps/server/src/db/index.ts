@@ -0,0 +1,42 @@
+/**
+ * Database - Shared SQLite access
+ *
+ * Opens the same SQLite file the web dashboard writes to (platforms,
+ * uploaded documents, auth). The dashboard owns the whole schema: its
+ * getDb() in apps/web/src/lib/db.ts creates and migrates every table,
+ * including the ones only the server writes (transcripts, analytics,
+ * widget origins, usage, onboarded visitors). The server never creates
+ * or alters tables; it only reads and writes rows.
+ */
+
+import Database from 'better-sqlite3';
+import { env } from '../config/env.js';
+
+export type SqliteDatabase = ReturnType<typeof Database>;
+
+let dbInstance: SqliteDatabase | null = null;
+
+/**
+ * Get the shared database singleton
+ */
+export function getDb(): SqliteDatabase {
+  if (!dbInstance) {
+    dbInstance = new Database(env.DATABASE_PATH, { fileMustExist: true });
+    dbInstance.pragma('journal_mode = WAL');
+    dbInstance.pragma('foreign_keys = ON');
+    console.log('[DB] Opened', env.DATABASE_PATH);
+  }
+  return dbInstance;
+}
+
+/**
+ * Close the database (on shutdown)
+ */
+export function closeDb(): void {
+  if (dbInstance) {
+    dbInstance.close();
+    dbInstance = null;
+  }
+}
+
+export default getDb;
@@ -12,6 +12,12 @@
  * - Function calling (tools) for real-time visual overlay commands
  * - Silent audio keepalive for vision-only mode
  * - Automatic tool response handling
+ *
+ * Session continuity:
+ * - Unexpected drops reconnect with exponential backoff (bounded retries)
+ * - Audio, frames and text sent during the gap are buffered and replayed
+ * - Live session-resumption handles restore server-side context when available;
+ *   otherwise a compact transcript of recent turns is re-injected
  */
 
 import { GoogleGenAI, Modality, LiveServerMessage, Part } from '@google/genai';
@@ -20,6 +26,19 @@ import { getGeminiClient, GeminiModels } from './client.js';
 /** Enable with DEBUG=true env var for verbose per-message logging */
 const DEBUG = process.env.DEBUG === 'true';
 
+/** Reconnect policy for unexpected upstream drops */
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/** Input kept while reconnecting (~5s of 100ms audio chunks) */
+const MAX_BUFFERED_AUDIO_CHUNKS = 50;
+const MAX_BUFFERED_TEXTS = 10;
+
+/** Transcript kept for context carry-over */
+const MAX_TRANSCRIPT_TURNS = 12;
+const MAX_TURN_CHARS = 400;
+
 /**
  * Known UI element selectors for the host platform (Acme CRM).
  * Injected into the system prompt so the model uses exact selectors
@@ -72,12 +91,28 @@ export interface LiveToolProperty {
 export interface LiveSessionConfig {
   systemPrompt: string;
   voiceName?: string;
+  /** BCP 47 language of the session (only half-cascade models accept it, see connect) */
+  languageCode?: string;
   tools?: LiveToolDeclaration[];
   onAudio?: (base64Audio: string) => void;
   onText?: (text: string) => void;
+  /** Transcribed chunk of the user's speech */
+  onInputTranscription?: (text: string) => void;
   onToolCall?: (toolCall: any) => void;
+  onTurnComplete?: () => void;
   onError?: (error: Error) => void;
+  /** Called once the session is closed for good (user close or retries exhausted) */
   onClose?: () => void;
+  /** Called before each reconnect attempt after an unexpected drop */
+  onReconnecting?: (attempt: number, delayMs: number) => void;
+  /** Called when a reconnect succeeds; `resumed` if server-side state was restored */
+  onReconnected?: (resumed: boolean) => void;
+}
+
+/** One side of the conversation, for context carry-over */
+interface TranscriptTurn {
+  role: 'user' | 'assistant';
+  text: string;
 }
 
 /** Live API message handler callback types */
@@ -98,13 +133,14 @@ export interface LiveMessageHandlers {
 export const LIVE_OVERLAY_TOOLS: LiveToolDeclaration[] = [
   {
     name: 'highlight_element',
-    description: 'Highlight a UI element with a glowing border. ALWAYS use the EXACT CSS selectors from the UI_SELECTORS list provided in the system prompt. Target the outermost container (e.g. ".search-bar" not "input"). It behaves like a laser pointer.',
+    description: 'Highlight a UI element with a glowing border. ALWAYS use the EXACT CSS selectors from the UI_SELECTORS list provided in the system prompt. Target the outermost container (e.g. ".search-bar" not "input"). It behaves like a laser pointer. If the result has success: false, nothing was shown — pick another selector instead of describing the highlight. If it has fallback: "vision", the element was located in the screenshot and marked on screen instead — it is still shown to the user.',
     parameters: {
       type: 'object',
       properties: {
         selector: { type: 'string', description: 'CSS selector for the element. Use the EXACT selector from the UI_SELECTORS list (e.g. ".search-bar", "#sidebar-root", ".stats-grid"). Do NOT guess selectors.' },
         label: { type: 'string', description: 'Short label to show next to the highlight (e.g. "Click Here", "Revenue Info")' },
         action: { type: 'string', enum: ['apply', 'clear'], description: 'Action to perform' },
+        expect_action: { type: 'string', description: 'What the user should now do, if anything (e.g. "click Export"). The screen is then watched and you are told whether they did it.' },
       },
       required: ['selector', 'action', 'label'],
     },
@@ -124,6 +160,36 @@ export const LIVE_OVERLAY_TOOLS: LiveToolDeclaration[] = [
               selector: { type: 'string', description: 'CSS selector from the available selectors list' },
               label: { type: 'string', description: 'Short descriptive label for this element' },
               delay_ms: { type: 'number', description: 'Optional delay in ms before moving to next step (default: 3000)' },
+              expect_action: { type: 'string', description: 'What the user should do at this step, if anything (e.g. "open the Deals tab")' },
+            },
+            required: ['selector', 'label'],
+          },
+        },
+      },
+      required: ['steps'],
+    },
+  },
+  {
+    name: 'start_guided_task',
+    description: 'Guide the user through a task they carry out themselves. Unlike highlight_sequence, each step stays highlighted until the user completes it, then the next one appears. You receive [SYSTEM] progress messages as steps complete, stall or fail — narrate one step at a time. The first selector must be from the available selectors list; later steps may target elements that appear during the task.',
+    parameters: {
+      type: 'object',
+      properties: {
+        steps: {
+          type: 'array',
+          description: 'Ordered steps of the task.',
+          items: {
+            type: 'object',
+            properties: {
+              selector: { type: 'string', description: 'CSS selector of the element to highlight for this step' },
+              label: { type: 'string', description: 'Short instruction shown next to the element (e.g. "Click New Deal")' },
+              wait_for: {
+                type: 'string',
+                enum: ['click', 'url_change', 'element_visible', 'input_value'],
+                description: 'What completes the step: clicking the element (default), the page URL changing, the target element appearing, or the target field getting a value',
+              },
+              target: { type: 'string', description: 'CSS selector watched by element_visible / input_value (defaults to the highlighted selector)' },
+              value: { type: 'string', description: 'Exact value input_value waits for (default: any value)' },
             },
             required: ['selector', 'label'],
           },
@@ -132,6 +198,61 @@ export const LIVE_OVERLAY_TOOLS: LiveToolDeclaration[] = [
       required: ['steps'],
     },
   },
+  {
+    name: 'start_tour',
+    description: 'Play one of the product tours listed in the system prompt. The tour highlights each step and waits for the user; each step\'s narration arrives as a [SYSTEM] message — say it word for word instead of improvising.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Exact tour name from the PRODUCT TOURS list' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'draw_arrow',
+    description: 'Point an arrow at a spot on the shared screen. Use ONLY when the target has no selector in the list (canvas charts, embedded iframes, images). Coordinates are normalized 0-1000 over the latest screen frame, y first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        y: { type: 'number', description: 'Vertical position of the target, 0 (top) to 1000 (bottom)' },
+        x: { type: 'number', description: 'Horizontal position of the target, 0 (left) to 1000 (right)' },
+        label: { type: 'string', description: 'Short label to show next to the arrow' },
+        expect_action: { type: 'string', description: 'What the user should now do, if anything (e.g. "click Export"). The screen is then watched and you are told whether they did it.' },
+      },
+      required: ['y', 'x'],
+    },
+  },
+  {
+    name: 'draw_circle',
+    description: 'Circle a small spot on the shared screen (an icon, a data point on a chart). Use ONLY when the target has no selector in the list. Coordinates are normalized 0-1000 over the latest screen frame, y first.',
+    parameters: {
+      type: 'object',
+      properties: {
+        y: { type: 'number', description: 'Vertical center, 0 (top) to 1000 (bottom)' },
+        x: { type: 'number', description: 'Horizontal center, 0 (left) to 1000 (right)' },
+        label: { type: 'string', description: 'Short label to show next to the circle' },
+        expect_action: { type: 'string', description: 'What the user should now do, if anything (e.g. "click Export"). The screen is then watched and you are told whether they did it.' },
+      },
+      required: ['y', 'x'],
+    },
+  },
+  {
+    name: 'draw_box',
+    description: 'Draw a box around a region of the shared screen (a chart, an iframe, a group of controls). Use ONLY when the region has no selector in the list. Coordinates are normalized 0-1000 over the latest screen frame.',
+    parameters: {
+      type: 'object',
+      properties: {
+        y1: { type: 'number', description: 'Top edge, 0-1000' },
+        x1: { type: 'number', description: 'Left edge, 0-1000' },
+        y2: { type: 'number', description: 'Bottom edge, 0-1000' },
+        x2: { type: 'number', description: 'Right edge, 0-1000' },
+        label: { type: 'string', description: 'Short label to show above the box' },
+        expect_action: { type: 'string', description: 'What the user should now do, if anything (e.g. "click Export"). The screen is then watched and you are told whether they did it.' },
+      },
+      required: ['y1', 'x1', 'y2', 'x2'],
+    },
+  },
   {
     name: 'search_knowledge',
     description: 'Search documentation.',
@@ -156,6 +277,19 @@ export class LiveAPIProxy {
   private handlers: LiveMessageHandlers = {};
   private silentAudioInterval: ReturnType<typeof setInterval> | null = null;
 
+  /** Set by close() so the resulting onclose doesn't trigger a reconnect */
+  private closedByUser = false;
+  private isReconnecting = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Latest resumable session handle from sessionResumptionUpdate */
+  private resumptionHandle: string | null = null;
+  /** Input received while reconnecting, replayed once connected */
+  private pendingFrame: string | null = null;
+  private pendingAudio: string[] = [];
+  private pendingTexts: Array<{ text: string; fromUser: boolean }> = [];
+  /** Recent turns, re-injected if a reconnect can't resume server-side state */
+  private transcript: TranscriptTurn[] = [];
+
   constructor(config: LiveSessionConfig) {
     this.client = getGeminiClient();
     this.config = config;
@@ -163,6 +297,7 @@ export class LiveAPIProxy {
       onAudio: config.onAudio,
       onText: config.onText,
       onToolCall: config.onToolCall,
+      onTurnComplete: config.onTurnComplete,
     };
   }
 
@@ -175,6 +310,14 @@ export class LiveAPIProxy {
       return;
     }
 
+    this.closedByUser = false;
+    await this.openSession();
+  }
+
+  /**
+   * Open the upstream session (initial connect and every reconnect)
+   */
+  private async openSession(): Promise<void> {
     try {
       // Build tool declarations for the Live API session
       const tools = this.config.tools || LIVE_OVERLAY_TOOLS;
@@ -187,7 +330,8 @@ export class LiveAPIProxy {
       // Connect with callbacks inline - SDK uses callback-based API
       // IMPORTANT: SDK uses lowercase callback names: onmessage, onerror, onclose
       // IMPORTANT: Can only use ONE response modality per session (either TEXT or AUDIO, not both)
-      this.session = await this.client.live.connect({
+      let session: any = null;
+      session = await this.client.live.connect({
         model: GeminiModels.LIVE_AUDIO,
         config: {
           responseModalities: [Modality.AUDIO],  // Only AUDIO for native audio models
@@ -196,7 +340,12 @@ export class LiveAPIProxy {
               prebuiltVoiceConfig: {
                 voiceName: this.config.voiceName || 'Kore'
               }
-            }
+            },
+            // Native audio models choose the spoken language themselves (the
+            // system prompt names it) and don't accept an explicit language code
+            ...(this.config.languageCode && !GeminiModels.LIVE_AUDIO.includes('native-audio')
+              ? { languageCode: this.config.languageCode }
+              : {}),
           },
           systemInstruction: {
             parts: [{ text: this.config.systemPrompt }]
@@ -207,6 +356,10 @@ export class LiveAPIProxy {
           },
           // Enable audio transcription so we can get text from audio responses
           outputAudioTranscription: {},
+          // Transcribe the user's speech too, for context carry-over on reconnect
+          inputAudioTranscription: {},
+          // Ask for resumption handles; pass the last one to restore server-side context
+          sessionResumption: this.resumptionHandle ? { handle: this.resumptionHandle } : {},
           // Compress context to prevent session death on long conversations
           contextWindowCompression: {
             triggerTokens: 25000,
@@ -231,13 +384,22 @@ export class LiveAPIProxy {
           },
           onclose: (event: any) => {
             console.log('[LiveAPI] Session closed, code:', event?.code, 'reason:', event?.reason);
+            if (this.closedByUser) {
+              this.isConnected = false;
+              this.stopSilentAudio();
+              this.config.onClose?.();
+              return;
+            }
+
+            // Failed connects are handled by the caller; replaced sessions are ignored
+            if (session === null || session !== this.session) return;
             this.isConnected = false;
-            this.stopSilentAudio();
-            this.config.onClose?.();
+            this.scheduleReconnect();
           }
         }
       } as any); // Type assertion for SDK compatibility
 
+      this.session = session;
       this.isConnected = true;
       console.log('[LiveAPI] Connected to', GeminiModels.LIVE_AUDIO, 'with', functionDeclarations.length, 'tools');
 
@@ -247,10 +409,130 @@ export class LiveAPIProxy {
     }
   }
 
+  /**
+   * Reconnect after an unexpected drop, with exponential backoff
+   *
+   * The first attempt offers the latest resumption handle; if that fails
+   * later attempts start fresh and rely on the transcript summary.
+   */
+  private scheduleReconnect(attempt = 1): void {
+    if (this.closedByUser) return;
+
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      console.error(`[LiveAPI] Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`);
+      this.isReconnecting = false;
+      this.clearPendingInput();
+      this.stopSilentAudio();
+      this.config.onError?.(new Error('Live API connection lost'));
+      this.config.onClose?.();
+      return;
+    }
+
+    this.isReconnecting = true;
+    const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    console.log(`[LiveAPI] Reconnecting in ${delayMs}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`);
+    this.config.onReconnecting?.(attempt, delayMs);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.closedByUser) return;
+
+      const usedHandle = this.resumptionHandle !== null;
+      try {
+        await this.openSession();
+      } catch {
+        // A stale handle can make every attempt fail — fall back to a fresh session
+        this.resumptionHandle = null;
+        this.scheduleReconnect(attempt + 1);
+        return;
+      }
+
+      this.isReconnecting = false;
+      if (!usedHandle) this.injectTranscriptSummary();
+      this.flushPendingInput();
+      console.log(`[LiveAPI] Reconnected (${usedHandle ? 'resumed session' : 'new session with transcript summary'})`);
+      this.config.onReconnected?.(usedHandle);
+    }, delayMs);
+  }
+
+  /**
+   * Re-seed a fresh session with the recent conversation
+   * (turnComplete: false so the model doesn't answer it)
+   */
+  private injectTranscriptSummary(): void {
+    if (this.transcript.length === 0 || !this.session) return;
+
+    const lines = this.transcript.map(turn => {
+      const text = turn.text.trim();
+      const clipped = text.length > MAX_TURN_CHARS ? `…${text.slice(-MAX_TURN_CHARS)}` : text;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+    });
+
+    this.session.sendClientContent({
+      turns: [{
+        role: 'user',
+        parts: [{
+          text: '[SYSTEM] The voice connection was briefly interrupted and has been restored. ' +
+            'Continue the conversation seamlessly and do not mention the interruption. ' +
+            `Recent conversation:\n${lines.join('\n')}`,
+        }],
+      }],
+      turnComplete: false,
+    });
+  }
+
+  /**
+   * Record conversation text, merging streamed chunks into the current turn
+   */
+  private recordTranscript(role: TranscriptTurn['role'], text: string): void {
+    const last = this.transcript.at(-1);
+    if (last && last.role === role) {
+      last.text += role === 'user' && !text.startsWith(' ') ? ` ${text}` : text;
+    } else {
+      this.transcript.push({ role, text });
+      if (this.transcript.length > MAX_TRANSCRIPT_TURNS) this.transcript.shift();
+    }
+  }
+
+  /**
+   * Replay input buffered during a reconnect
+   */
+  private flushPendingInput(): void {
+    const frame = this.pendingFrame;
+    const audio = this.pendingAudio;
+    const texts = this.pendingTexts;
+    this.clearPendingInput();
+
+    if (frame) this.sendFrame(frame);
+    for (const { text, fromUser } of texts) this.sendText(text, fromUser);
+    for (const chunk of audio) this.sendAudio(chunk);
+
+    if (frame || texts.length > 0 || audio.length > 0) {
+      console.log(`[LiveAPI] Replayed buffered input (frame: ${!!frame}, texts: ${texts.length}, audio chunks: ${audio.length})`);
+    }
+  }
+
+  private clearPendingInput(): void {
+    this.pendingFrame = null;
+    this.pendingAudio = [];
+    this.pendingTexts = [];
+  }
+
   /**
    * Handle incoming message from Gemini
    */
   private handleMessage(message: LiveServerMessage): void {
+    // Track the latest resumable handle for reconnects
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) this.resumptionHandle = newHandle;
+    }
+
+    // Upstream is about to close the connection; the onclose reconnect picks it up
+    if (message.goAway) {
+      console.log('[LiveAPI] GoAway received, time left:', message.goAway.timeLeft);
+    }
+
     // Handle model turn (audio/text response)
     if (message.serverContent?.modelTurn?.parts) {
       for (const part of message.serverContent.modelTurn.parts) {
@@ -274,8 +556,14 @@ export class LiveAPIProxy {
 
     // Handle audio output transcription (for native audio models)
     const serverContent = message.serverContent as any;
+    if (serverContent?.inputTranscription?.text) {
+      this.recordTranscript('user', serverContent.inputTranscription.text);
+      this.config.onInputTranscription?.(serverContent.inputTranscription.text);
+    }
+
     if (serverContent?.outputTranscription?.text) {
       if (DEBUG) console.log('[LiveAPI] Received transcription:', serverContent.outputTranscription.text);
+      this.recordTranscript('assistant', serverContent.outputTranscription.text);
       if (this.handlers.onText) {
         this.handlers.onText(serverContent.outputTranscription.text);
       }
@@ -305,6 +593,12 @@ export class LiveAPIProxy {
    * @param base64Audio - Base64 encoded PCM 16-bit mono at 16kHz
    */
   sendAudio(base64Audio: string): void {
+    if (this.isReconnecting) {
+      this.pendingAudio.push(base64Audio);
+      if (this.pendingAudio.length > MAX_BUFFERED_AUDIO_CHUNKS) this.pendingAudio.shift();
+      return;
+    }
+
     if (!this.session || !this.isConnected) {
       console.warn('[LiveAPI] Cannot send audio - not connected');
       return;
@@ -323,6 +617,12 @@ export class LiveAPIProxy {
    * @param base64Frame - Base64 encoded JPEG image
    */
   sendFrame(base64Frame: string): void {
+    // Only the latest frame matters after a gap
+    if (this.isReconnecting) {
+      this.pendingFrame = base64Frame;
+      return;
+    }
+
     if (!this.session || !this.isConnected) {
       console.warn('[LiveAPI] Cannot send frame - not connected');
       return;
@@ -340,8 +640,18 @@ export class LiveAPIProxy {
   /**
    * Send text input
    * @param text - Text message to send
+   * @param fromUser - False for server-generated instructions, which are
+   *   kept out of the transcript used for context carry-over
    */
-  sendText(text: string): void {
+  sendText(text: string, fromUser = true): void {
+    if (this.isReconnecting) {
+      this.pendingTexts.push({ text, fromUser });
+      if (this.pendingTexts.length > MAX_BUFFERED_TEXTS) this.pendingTexts.shift();
+      return;
+    }
+
+    if (fromUser) this.recordTranscript('user', text);
+
     if (!this.session || !this.isConnected) {
       console.warn('[LiveAPI] Cannot send text - not connected');
       return;
@@ -363,6 +673,12 @@ export class LiveAPIProxy {
    * @param result - Result of the tool execution
    */
   sendToolResponse(toolCallId: string, toolName: string, result: Record<string, unknown>): void {
+    // The call belonged to the dropped session; the new one never asked for it
+    if (this.isReconnecting) {
+      console.warn(`[LiveAPI] Dropping ${toolName} response - session is reconnecting`);
+      return;
+    }
+
     if (!this.session || !this.isConnected) {
       console.warn('[LiveAPI] Cannot send tool response - not connected');
       return;
@@ -445,10 +761,25 @@ export class LiveAPIProxy {
     return this.isConnected;
   }
 
+  /**
+   * Check if the session accepts input — connected, or reconnecting with
+   * input being buffered
+   */
+  isActive(): boolean {
+    return this.isConnected || this.isReconnecting;
+  }
+
   /**
    * Close the session
    */
   close(): void {
+    this.closedByUser = true;
+    this.isReconnecting = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.clearPendingInput();
     this.stopSilentAudio();
     if (this.session) {
       this.session.close();
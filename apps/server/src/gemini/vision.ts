@@ -67,6 +67,8 @@ export interface CompareResponse {
  */
 export class AgenticVision {
   private client: ReturnType<typeof getGeminiClient>;
+  /** Most recent interactive-element scan, reused while the frame is unchanged */
+  private lastScan: { frame: string; elements: UIElement[] } | null = null;
 
   constructor() {
     this.client = getGeminiClient();
@@ -349,6 +351,58 @@ IMPORTANT:
 
     return null;
   }
+
+  /**
+   * Locate an element for the selector fallback
+   *
+   * Asks for the element directly first; if the model can't find it, runs a
+   * full interactive-element scan of the same frame (cached per frame, so
+   * repeated misses on one screen cost a single scan) and picks the element
+   * whose label best matches the description.
+   */
+  async locateElement(frame: string, description: string): Promise<UIElement | null> {
+    const found = await this.findElement(frame, description);
+    if (found) {
+      return { type: 'unknown', confidence: 1, ...found };
+    }
+
+    if (this.lastScan?.frame !== frame) {
+      this.lastScan = { frame, elements: await this.scanInteractiveElements(frame) };
+    }
+    return matchElementByLabel(this.lastScan.elements, description);
+  }
+}
+
+/**
+ * Lowercased word tokens of a label or description
+ */
+function labelTokens(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Best label match among scanned elements
+ *
+ * Scores by the share of description words that appear in the element's
+ * label (ties go to the more confident element); below half a match
+ * counts as no match.
+ */
+function matchElementByLabel(elements: UIElement[], description: string): UIElement | null {
+  const wanted = labelTokens(description);
+  if (wanted.length === 0) return null;
+
+  let best: UIElement | null = null;
+  let bestScore = 0;
+  for (const element of elements) {
+    const have = new Set(labelTokens(element.label));
+    const score = wanted.filter(token => have.has(token)).length / wanted.length + element.confidence * 0.01;
+    if (score > bestScore) {
+      best = element;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= 0.5 ? best : null;
 }
 
 /**
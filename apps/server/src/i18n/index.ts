@@ -0,0 +1,145 @@
+/**
+ * i18n - Session language handling
+ *
+ * The widget reports the visitor's locale (an explicit data-locale, or
+ * navigator.language) as ?locale= on the handshake. The session's
+ * language is the platform persona's fixed language if it has one,
+ * otherwise that locale. It goes into the prompts (so the assistant
+ * greets and answers in it) and into the Live speech config.
+ *
+ * The response filter's meta-commentary patterns are kept per language,
+ * since the model says "according to the documentation" in whatever
+ * language it is speaking.
+ */
+
+/** BCP 47-ish: "fr", "pt-BR", "zh-Hant-TW" */
+const LOCALE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8}){0,3}$/;
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+/**
+ * Canonical form of a locale from the handshake, or null if missing or malformed
+ */
+export function parseLocale(locale: string | undefined): string | null {
+  if (!locale || !LOCALE_PATTERN.test(locale)) return null;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Base language of a locale ("pt-BR" → "pt")
+ */
+export function baseLanguage(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
+
+/**
+ * English name of a locale ("pt-BR" → "Brazilian Portuguese")
+ */
+export function languageName(locale: string): string {
+  try {
+    return languageNames.of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * A complete narration clause: starts at a word boundary and runs to the
+ * end of the clause, so a verb inside an ordinary sentence ("Ich zeige
+ * Ihnen, wo…") is left alone
+ */
+function narration(source: string): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${source})(?=\\s*(?:[.!:;]|$))[.!:;]?`, 'giu');
+}
+
+// Objects that only make sense when narrating an overlay ("the element",
+// "it"), and trailing filler ("for you", "on the screen")
+const EN_OBJECT = `(?:it|that|this|them|(?:the|this|that) (?:element|button|field|link|menu|area|section|spot|option|item)s?)`;
+const EN_TAIL = `(?: for you| on (?:the|your) screen| now| here)*`;
+const ES_NOUN = `(?:el|la|este|esta) (?:elemento|bot[oó]n|campo|enlace|men[uú]|[aá]rea|secci[oó]n|opci[oó]n)`;
+const ES_TAIL = `(?: para ti| para usted| en (?:la|tu|su) pantalla| ahora| aqu[ií])*`;
+const FR_NOUN = `(?:l['’]|(?:le|la|ce|cet|cette) )(?:[eé]l[eé]ment|bouton|champ|lien|menu|zone|section|option)`;
+const FR_TAIL = `(?: pour vous| [aà] l['’][eé]cran| sur (?:l['’]|votre )[eé]cran| maintenant| ici)*`;
+const DE_NOUN = `(?:das|den|die|dieses|diesen|diese) (?:Element|Feld|Eingabefeld|Button|Schaltfl[aä]che|Knopf|Link|Men[uü]|Bereich|Eintrag|Option)`;
+const DE_OBJECT = `(?:es|ihn|sie|${DE_NOUN})`;
+const DE_TAIL = `(?: f[uü]r (?:Sie|dich)| auf dem Bildschirm| jetzt| gerade| hier)*`;
+const IT_NOUN = `(?:l['’]|(?:il|la|questo|questa) )(?:elemento|pulsante|bottone|campo|link|menu|area|sezione|opzione)`;
+const IT_TAIL = `(?: per te| per lei| sullo schermo| ora| qui)*`;
+const PT_NOUN = `(?:o|a|este|esta|esse|essa) (?:elemento|bot[aã]o|campo|link|menu|[aá]rea|se[cç][aã]o|op[cç][aã]o)`;
+const PT_TAIL = `(?: para voc[eê]| na (?:sua )?tela| agora| aqui)*`;
+const NL_NOUN = `(?:het|de|deze|dit) (?:element|veld|knop|link|menu|gedeelte|optie)`;
+const NL_OBJECT = `(?:het|hem|deze|dit|${NL_NOUN})`;
+const NL_TAIL = `(?: voor je| voor u| op het scherm| nu| hier)*`;
+
+/**
+ * Phrases stripped from spoken-response transcripts: knowledge-base
+ * references and narration of the overlays, per base language
+ */
+const META_PHRASES: Record<string, RegExp[]> = {
+  en: [
+    /according to (the |our )?(documentation|knowledge base|records|system|docs)/gi,
+    /the knowledge base (says|shows|indicates|mentions)/gi,
+    /based on (the |our )?(system|documentation|records)/gi,
+    /our (records|documentation|system) (show|indicate|say|mention)/gi,
+    narration(`as you can see,? I'?m pointing (?:to|at) ${EN_OBJECT}${EN_TAIL}`),
+    narration(`(?:I'?m|I am) (?:now )?(?:highlighting|pointing (?:to|at|out)|drawing|circling) ${EN_OBJECT}${EN_TAIL}`),
+    narration(`(?:let me|I'?ll|I will|I'?m going to) (?:highlight|point (?:to|at|out)|draw|circle|mark) ${EN_OBJECT}${EN_TAIL}`),
+    narration(`I'?ve (?:highlighted|pointed (?:to|at|out)|drawn|circled|marked) ${EN_OBJECT}${EN_TAIL}`),
+  ],
+  es: [
+    /seg[uú]n (la |nuestra |el |nuestro )?(documentaci[oó]n|base de conocimient(o|os)|sistema|registros)/gi,
+    narration(`(?:estoy|voy a) (?:resaltando|resaltar|señalando|señalar|marcando|marcar) ${ES_NOUN}${ES_TAIL}`),
+    narration(`voy a (?:resaltarlo|resaltarla|señalarlo|señalarla)${ES_TAIL}`),
+    narration(`d[eé]jame (?:resaltar|señalar)(?:lo|la| ${ES_NOUN})${ES_TAIL}`),
+    narration(`(?:te |le |lo |la )?he (?:resaltado|señalado)(?: ${ES_NOUN})?${ES_TAIL}`),
+  ],
+  fr: [
+    /(d'apr[eè]s|selon) (la |notre |le |nos )?(documentation|base de connaissances|syst[eè]me|dossiers)/gi,
+    narration(`je (?:suis en train de |vais )?(?:le |la |l['’])(?:surligne|surligner|mets en [eé]vidence|mettre en [eé]vidence)${FR_TAIL}`),
+    narration(`je (?:suis en train de |vais )?(?:surligne|surligner|mets en [eé]vidence|mettre en [eé]vidence|pointe|pointer)(?: vers)? ${FR_NOUN}${FR_TAIL}`),
+    narration(`laissez-moi (?:le |la |l['’])?(?:surligner|mettre en [eé]vidence)(?: ${FR_NOUN})?${FR_TAIL}`),
+    narration(`(?:j['’]ai|je l['’]ai) (?:surlign[eé]e?|mise? en [eé]vidence)(?: ${FR_NOUN})?${FR_TAIL}`),
+  ],
+  de: [
+    /(laut|gem[aä](ß|ss)) (der |unserer |dem |unserem )?(Dokumentation|Wissensdatenbank|System|Unterlagen)/gi,
+    narration(`ich (?:markiere|umkreise)${DE_TAIL} ${DE_OBJECT}${DE_TAIL}`),
+    narration(`ich hebe${DE_TAIL} ${DE_OBJECT}${DE_TAIL} hervor`),
+    narration(`ich zeige (?:Ihnen |dir )?(?:jetzt |gerade |hier )*${DE_NOUN}${DE_TAIL}`),
+    narration(`lass(?:en Sie)? mich(?: ${DE_OBJECT})?${DE_TAIL} (?:markieren|hervorheben|umkreisen)`),
+    narration(`ich habe(?: ${DE_OBJECT})?${DE_TAIL} (?:markiert|hervorgehoben|umkreist)`),
+  ],
+  it: [
+    /secondo (la |il |la nostra |il nostro )?(documentazione|base di conoscenza|sistema|registri)/gi,
+    narration(`(?:(?:lo|la) )?sto (?:evidenziando|indicando)(?: ${IT_NOUN})?${IT_TAIL}`),
+    narration(`(?:lascia|lasciami|mi lasci) (?:evidenziare|indicare)(?:lo|la| ${IT_NOUN})${IT_TAIL}`),
+    narration(`(?:l['’]ho evidenziat[oa]|ho evidenziato ${IT_NOUN})${IT_TAIL}`),
+  ],
+  pt: [
+    /(de acordo com|segundo) (a |o |a nossa |o nosso )?(documenta[cç][aã]o|base de conhecimento|sistema|registros)/gi,
+    narration(`(?:estou|vou) (?:destacando|destacar|apontando|apontar)(?: para)? ${PT_NOUN}${PT_TAIL}`),
+    narration(`deixe-me (?:destacar|apontar)(?:-o|-a| ${PT_NOUN})?${PT_TAIL}`),
+    narration(`(?:eu )?(?:(?:o|a) destaquei|destaquei ${PT_NOUN})${PT_TAIL}`),
+  ],
+  nl: [
+    /volgens (de |onze |het |ons )?(documentatie|kennisbank|systeem|gegevens)/gi,
+    narration(`ik (?:markeer|omcirkel)${NL_TAIL} ${NL_OBJECT}${NL_TAIL}`),
+    narration(`ik wijs${NL_TAIL} ${NL_OBJECT}${NL_TAIL} aan`),
+    narration(`laat me(?: ${NL_OBJECT})?${NL_TAIL} (?:markeren|aanwijzen)`),
+    narration(`ik heb(?: ${NL_OBJECT})?${NL_TAIL} (?:gemarkeerd|aangewezen|omcirkeld)`),
+  ],
+};
+
+/**
+ * Meta-commentary patterns for a session: English (the prompts are in
+ * English and the model sometimes slips into it) plus the session's language
+ */
+export function metaPhrasePatterns(locale: string | null): RegExp[] {
+  const language = locale ? baseLanguage(locale) : 'en';
+  return language === 'en' || !META_PHRASES[language]
+    ? META_PHRASES.en
+    : [...META_PHRASES.en, ...META_PHRASES[language]];
+}
@@ -15,19 +15,31 @@ import fastifyWebsocket from '@fastify/websocket';
 import fastifyCors from '@fastify/cors';
 import fastifyStatic from '@fastify/static';
 import { WebSocket } from 'ws';
-import { randomUUID } from 'crypto';
+import { randomUUID, randomBytes } from 'crypto';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
 import { env, corsOrigins } from './config/env.js';
 import { createLiveSession, LiveAPIProxy, LIVE_OVERLAY_TOOLS, formatSelectorMap } from './gemini/live.js';
-import { analyzeScreenWithGemini } from './gemini/vision.js';
-import { runOculaAgent } from './agents/index.js';
-import { lookupKnowledge } from './knowledge/index.js';
+import { analyzeScreenWithGemini, getAgenticVision } from './gemini/vision.js';
+import { streamOculaAgent, closeCheckpointer } from './agents/index.js';
+import { lookupKnowledge, preloadKnowledge } from './knowledge/index.js';
+import { resolvePlatform, getPlatformByPublishableKey, PlatformConfig } from './platforms/index.js';
+import { closeDb } from './db/index.js';
+import { createTranscriptRecorder, TranscriptRecorder } from './transcripts/index.js';
+import { createSessionAnalytics, SessionAnalytics } from './analytics/index.js';
+import { createActionVerifier, ActionVerifier, VerificationVerdict } from './verification/index.js';
+import { getTours, findTour, getOnboardingTour, Tour } from './tours/index.js';
+import { getPersona, personaIdentity, personaGuidelines, sessionLanguage } from './persona/index.js';
+import { parseLocale, metaPhrasePatterns } from './i18n/index.js';
+import { parseVisitorId, shouldOnboard, markOnboarded, buildWelcomePrompt } from './onboarding/index.js';
+import { isOriginAllowed, issueWidgetToken, verifyWidgetToken } from './widget-auth/index.js';
+import { recordOrigin } from './widget-auth/origins.js';
+import { createSessionQuota, flushUsage, SessionQuota, QuotaViolation, LimitedMessage } from './quotas/index.js';
 
 /** Message types from client */
 interface ClientMessage {
-  type: 'frame' | 'audio' | 'text' | 'user_query' | 'ping' | 'selector_map';
+  type: 'frame' | 'audio' | 'text' | 'user_query' | 'ping' | 'selector_map' | 'overlay_result' | 'task_progress';
   data?: string;
   text?: string;
   frame?: string;
@@ -37,27 +49,105 @@ interface ClientMessage {
   scrollY?: number;
   /** Dynamic selector map from client DOM scanner */
   selectors?: Array<{ selector: string; label: string; category: string }>;
+  /** Draw command an overlay_result answers (Live tool draws only) */
+  commandId?: string;
+  /** Selector an overlay_result is about */
+  selector?: string;
+  /** How the highlight rendered (overlay_result) */
+  status?: OverlayStatus;
+  /** Document-relative bounds of the highlighted element (overlay_result) */
+  rect?: { x: number; y: number; width: number; height: number };
+  /** Highlight sequence or guided task step (overlay_result, task_progress) */
+  stepIndex?: number;
+  /** Guided task a task_progress is about */
+  taskId?: string;
+  /** Guided task step progress (task_progress) */
+  progress?: TaskProgressStatus;
+}
+
+/** Outcome of rendering a highlight on the host page */
+type OverlayStatus = 'rendered' | 'not_found' | 'hidden' | 'zero_size' | 'invalid_selector' | 'invalid_coordinates' | 'aborted';
+
+/** Client's report on one rendered highlight (or sequence step) */
+type OverlayResult = Required<Pick<ClientMessage, 'status'>> & Pick<ClientMessage, 'selector' | 'rect' | 'stepIndex'>;
+
+/** Guided task progress reported by the client */
+type TaskProgressStatus = 'step_started' | 'step_completed' | 'step_stalled' | 'step_failed' | 'task_completed' | 'task_cancelled';
+
+/** What finishes a guided task step on the page */
+const COMPLETION_CONDITIONS = ['click', 'url_change', 'element_visible', 'input_value', 'delay'] as const;
+
+/** Whether a wait_for from the model is one the client supports */
+function isCompletionCondition(value: unknown): value is typeof COMPLETION_CONDITIONS[number] {
+  return (COMPLETION_CONDITIONS as readonly unknown[]).includes(value);
+}
+
+/** One step of a guided task (start_guided_task, or a product tour) */
+interface GuidedTaskStep {
+  selector: string;
+  label: string;
+  wait_for: typeof COMPLETION_CONDITIONS[number];
+  /** Element watched by element_visible / input_value (default: selector) */
+  target?: string;
+  /** Exact value input_value waits for */
+  value?: string;
+  /** How long a delay step stays up */
+  delay_ms?: number;
+  /** Tour steps: what the assistant says, word for word (not sent to the client) */
+  narration?: string;
 }
 
+/** Tool-response wording for highlights that didn't render */
+const OVERLAY_FAILURES: Record<Exclude<OverlayStatus, 'rendered'>, string> = {
+  not_found: 'Element not found on the page',
+  hidden: 'Element is on the page but hidden',
+  zero_size: 'Element has no visible size',
+  invalid_selector: 'Invalid CSS selector',
+  invalid_coordinates: 'Coordinates must be numbers between 0 and 1000',
+  aborted: 'Highlight was cancelled before it was shown',
+};
+
 /** Message types to client */
 interface ServerMessage {
-  type: 'assistant_response' | 'audio' | 'draw' | 'clear' | 'highlight_sequence' | 'error' | 'connected' | 'pong';
+  type: 'assistant_response' | 'assistant_delta' | 'assistant_progress' | 'assistant_done' | 'audio' | 'draw' | 'draw_shape' | 'clear' | 'highlight_sequence' | 'guided_task' | 'error' | 'connected' | 'pong' | 'status';
   text?: string;
+  /** Voice session status for 'status' messages */
+  status?: 'reconnecting' | 'reconnected';
+  /** Reconnect attempt number (status: reconnecting) */
+  attempt?: number;
   data?: string;
   action?: string;
   selector?: string;
+  /** Coordinate overlay kind (draw_shape) */
+  shape?: 'arrow' | 'circle' | 'box';
+  /** [y, x], normalized 0-1000 (draw_shape arrow/circle) */
   point?: [number, number];
+  /** [y1, x1, y2, x2], normalized 0-1000 (draw_shape box) */
+  box?: [number, number, number, number];
   label?: string;
+  /** Tool the agent is running (assistant_progress) */
+  tool?: string;
   width?: number;
   height?: number;
   error?: string;
+  /** Machine-readable error code (e.g. "platform_unknown") */
+  code?: string;
   sessionId?: string;
+  /** Opaque token the client presents as ?resume= to pick this session back up */
+  resumeToken?: string;
+  /** Whether the connection continued an earlier session */
+  resumed?: boolean;
   visualCommands?: VisualCommand[];
   /** Highlight sequence steps */
   steps?: Array<{ selector: string; label: string; delay_ms?: number }>;
+  /** Guided task to run (guided_task) */
+  taskId?: string;
+  taskSteps?: GuidedTaskStep[];
   /** Scroll context from the frame that generated these overlays */
   scrollX?: number;
   scrollY?: number;
+  /** Set on Live tool draws; the client answers with an overlay_result */
+  commandId?: string;
 }
 
 /** Visual command structure */
@@ -71,7 +161,16 @@ interface VisualCommand {
 
 /** Session state */
 interface SessionState {
+  /** Stable across resumes; also the agent's conversation thread id */
   sessionId: string;
+  /** Current resume token (rotated on every resume) */
+  resumeToken: string;
+  /** Tenant resolved from the data-platform-id presented on the handshake */
+  platform: PlatformConfig;
+  /** Widget-persisted visitor id from the handshake (null if the browser keeps no storage) */
+  visitorId: string | null;
+  /** Visitor's locale from the handshake (?locale=), null if not reported */
+  locale: string | null;
   liveSession: LiveAPIProxy | null;
   lastFrame: string | null;
   thoughtSignature: string | null;
@@ -82,15 +181,130 @@ interface SessionState {
   /** Last known scroll position from client */
   lastScrollX: number;
   lastScrollY: number;
-  /** Whether the onboarding tour has already been sent */
+  /** Whether the onboarding tour has already been sent (or is not wanted for this visitor) */
   hasOnboarded: boolean;
   /** Dynamic selector map from client-side DOM scanner */
   currentSelectors: Array<{ selector: string; label: string; category: string }>;
+  /** Conversation record for dashboard review */
+  transcript: TranscriptRecorder;
+  /** Usage metrics for the dashboard */
+  analytics: SessionAnalytics;
+  /** Rate limits, Live session slot and monthly usage metering */
+  quota: SessionQuota;
+  /** Live tool draws waiting for their first overlay_result, by commandId */
+  pendingAcks: Map<string, (result: OverlayResult | null) => void>;
+  /** Actions the latest Live tool draw asks for (expect_action), by commandId, one per step */
+  expectedActions: Map<string, Array<string | undefined>>;
+  /** Watches the screen for the action the current highlight asks for */
+  verifier: ActionVerifier;
+  /** Guided task playing on the page, until it completes, fails or is replaced */
+  guidedTask: { taskId: string; steps: GuidedTaskStep[]; tour?: string } | null;
 }
 
 // Active sessions
 const sessions = new Map<WebSocket, SessionState>();
 
+/** A session that can be picked back up with its resume token */
+interface ResumableSession {
+  state: SessionState;
+  /** Socket currently attached, or null while waiting out the grace window */
+  socket: WebSocket | null;
+  expiryTimer: NodeJS.Timeout | null;
+}
+
+// Resumable sessions by resume token
+const resumableSessions = new Map<string, ResumableSession>();
+
+/**
+ * Fresh state for a new widget session
+ */
+function createSessionState(platform: PlatformConfig, visitorId: string | null, locale: string | null): SessionState {
+  const sessionId = randomUUID();
+  return {
+    sessionId,
+    resumeToken: createResumeToken(),
+    platform,
+    visitorId,
+    locale,
+    liveSession: null,
+    lastFrame: null,
+    thoughtSignature: null,
+    hasMicAudio: false,
+    hasScreenShare: false,
+    lastScrollX: 0,
+    lastScrollY: 0,
+    // Platforms can turn onboarding off or limit it to a visitor's first visit
+    hasOnboarded: !shouldOnboard(platform, visitorId),
+    currentSelectors: [],
+    transcript: createTranscriptRecorder(sessionId, platform.id),
+    analytics: createSessionAnalytics(sessionId, platform.id),
+    quota: createSessionQuota(platform),
+    pendingAcks: new Map(),
+    expectedActions: new Map(),
+    verifier: createActionVerifier(),
+    guidedTask: null,
+  };
+}
+
+/**
+ * Generate an unguessable resume token
+ */
+function createResumeToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Claim a session by resume token for a new socket
+ *
+ * Returns null if the token is unknown, expired, or belongs to another
+ * platform. If the old socket is somehow still attached (the client
+ * reconnected before the server noticed the drop) it is closed.
+ */
+function claimSession(token: string, platformId: string): SessionState | null {
+  const entry = resumableSessions.get(token);
+  if (!entry || entry.state.platform.id !== platformId) return null;
+
+  resumableSessions.delete(token);
+  if (entry.expiryTimer) clearTimeout(entry.expiryTimer);
+  entry.state.analytics.resume();
+
+  if (entry.socket) {
+    sessions.delete(entry.socket);
+    cleanupSession(entry.state);
+    entry.socket.close(4000, 'Session resumed on another connection');
+  }
+
+  return entry.state;
+}
+
+/**
+ * Keep a disconnected session resumable for the grace window
+ */
+function detachSession(state: SessionState): void {
+  const entry = resumableSessions.get(state.resumeToken);
+  if (!entry) return;
+
+  entry.socket = null;
+  state.analytics.detach();
+  entry.expiryTimer = setTimeout(() => {
+    resumableSessions.delete(state.resumeToken);
+    state.analytics.end();
+    console.log(`[WS] Resume window expired for ${state.sessionId}`);
+  }, env.SESSION_RESUME_GRACE_MS);
+  entry.expiryTimer.unref();
+}
+
+/**
+ * Record the end of every session still open or waiting to be resumed
+ * (on shutdown, when no resume can happen)
+ */
+function endResumableSessions(): void {
+  for (const { state } of resumableSessions.values()) {
+    state.analytics.end();
+  }
+  resumableSessions.clear();
+}
+
 /**
  * Format dynamic selectors from the client-side DOM scanner
  * into a prompt-friendly string grouped by category.
@@ -116,28 +330,140 @@ function formatDynamicSelectors(selectors: Array<{ selector: string; label: stri
   return lines.join('\n');
 }
 
+/** How long a Live tool call waits for the client to confirm a highlight */
+const HIGHLIGHT_ACK_TIMEOUT_MS = 3000;
+
+/**
+ * Selectors that aren't in the latest selector_map
+ *
+ * Before the client has sent a map there is nothing to check against,
+ * so every selector passes and the client's ack is the only check.
+ */
+function findUnknownSelectors(state: SessionState, selectors: string[]): string[] {
+  if (state.currentSelectors.length === 0) return [];
+  const known = new Set(state.currentSelectors.map(entry => entry.selector));
+  return selectors.filter(selector => !known.has(selector));
+}
+
+/**
+ * Tool response telling the model which selectors failed and what it can use instead
+ */
+function selectorFailure(state: SessionState, problem: string, selectors: string[]): Record<string, unknown> {
+  return {
+    success: false,
+    error: `${problem}: ${selectors.join(', ')}. Nothing was highlighted — do not tell the user it was. ` +
+      'Pick a selector from the current selector map, or describe the location in words instead.',
+    available_selectors: state.currentSelectors.slice(0, 40).map(({ selector, label }) => ({ selector, label })),
+  };
+}
+
+/**
+ * Send a draw command and wait for the client's first overlay_result
+ * (for a sequence, that's step 0; later steps are reported as they play)
+ *
+ * The draw replaces any guidance still being verified; `expectedActions`
+ * (one per step) are watched for as each step renders.
+ * Resolves with null if the client doesn't answer in time (or disconnects).
+ */
+function sendDrawAndAwaitAck(
+  socket: WebSocket,
+  state: SessionState,
+  message: ServerMessage,
+  expectedActions: Array<string | undefined> = [],
+): Promise<OverlayResult | null> {
+  const commandId = randomUUID();
+
+  state.verifier.cancel();
+  state.expectedActions.clear();
+  if (expectedActions.some(Boolean)) state.expectedActions.set(commandId, expectedActions);
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      state.pendingAcks.delete(commandId);
+      resolve(null);
+    }, HIGHLIGHT_ACK_TIMEOUT_MS);
+
+    state.pendingAcks.set(commandId, result => {
+      clearTimeout(timer);
+      state.pendingAcks.delete(commandId);
+      resolve(result);
+    });
+
+    sendMessage(socket, { ...message, commandId });
+  });
+}
+
+/** How long a highlight waits on the vision fallback before giving up */
+const VISION_FALLBACK_TIMEOUT_MS = 12000;
+
+/**
+ * Vision fallback for a highlight whose selector can't be resolved
+ *
+ * Looks for the element in the latest screen frame (by its label) and points
+ * at it with a coordinate overlay — a box around it, or a circle when vision
+ * returned no bounds. Returns the tool response, or null when there is no
+ * frame, vision can't place the element in time, or the overlay didn't render.
+ */
+async function highlightWithVision(
+  socket: WebSocket,
+  state: SessionState,
+  selector: string,
+  label: string | undefined,
+  expectAction: string | undefined,
+): Promise<Record<string, unknown> | null> {
+  const frame = state.lastFrame;
+  if (!frame) return null;
+
+  // Coordinates refer to this frame, so pin its scroll offsets before the (slow) analysis
+  const scrollX = state.lastScrollX;
+  const scrollY = state.lastScrollY;
+
+  let timer: NodeJS.Timeout | undefined;
+  const element = await Promise.race([
+    getAgenticVision().locateElement(frame, label || selector).catch(error => {
+      console.error('[LiveToolCall] Vision fallback failed:', error);
+      return null;
+    }),
+    new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), VISION_FALLBACK_TIMEOUT_MS);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  const inRange = (values: unknown[]) => values.every(v => typeof v === 'number' && v >= 0 && v <= 1000);
+  const box = element?.boundingBox;
+  const useBox = !!box && box.length === 4 && inRange(box) && box[2] > box[0] && box[3] > box[1];
+  if (!element || (!useBox && !inRange(element.point))) return null;
+
+  console.log(`[LiveToolCall] Vision fallback located "${element.label}" for ${selector}`);
+  sendMessage(socket, { type: 'clear' });
+  const result = await sendDrawAndAwaitAck(socket, state, {
+    type: 'draw_shape',
+    ...(useBox ? { shape: 'box' as const, box } : { shape: 'circle' as const, point: element.point }),
+    label,
+    scrollX,
+    scrollY,
+  }, [expectAction]);
+  if (result && result.status !== 'rendered') return null;
+
+  return {
+    success: true,
+    fallback: 'vision',
+    ...(result ? {} : { confirmed: false }),
+    message: `Selector ${selector} could not be used, so "${element.label}" was located in the screen image and marked instead`,
+  };
+}
+
 /**
  * Safety-net text filter — strips meta-commentary and knowledge-base references
- * that the model may leak despite system prompt instructions.
+ * that the model may leak despite system prompt instructions, in English and
+ * the session's language.
  *
  * Returns the cleaned text, or empty string if entirely problematic.
  */
-const BLACKLISTED_PHRASES: RegExp[] = [
-  /according to (the |our )?(documentation|knowledge base|records|system|docs)/gi,
-  /the knowledge base (says|shows|indicates|mentions)/gi,
-  /based on (the |our )?(system|documentation|records)/gi,
-  /our (records|documentation|system) (show|indicate|say|mention)/gi,
-  /I'?m (now )?(highlighting|pointing|showing|drawing)/gi,
-  /let me (highlight|point|show|draw)/gi,
-  /I'?ve (highlighted|pointed|shown|drawn)/gi,
-  /as you can see,? I'?m pointing/gi,
-  /I'?ll highlight/gi,
-  /I'?m going to highlight/gi,
-];
-
-function filterResponseText(text: string): string {
+function filterResponseText(text: string, language: string | null): string {
   let filtered = text;
-  for (const pattern of BLACKLISTED_PHRASES) {
+  for (const pattern of metaPhrasePatterns(language)) {
     filtered = filtered.replace(pattern, '');
   }
   // Collapse multiple spaces / leading commas left by removals
@@ -202,36 +528,148 @@ async function createServer() {
       version: '0.1.0',
       endpoints: {
         ws: '/ws',
+        token: '/token',
         health: '/health',
       },
     };
   });
 
+  // Widget token endpoint — exchanges a publishable key for a short-lived
+  // token the widget presents on the /ws handshake. Called cross-origin
+  // from customer pages, so it answers CORS for the caller itself; the
+  // token is only issued to the platform's allowed origins.
+  server.get('/token', async (request, reply) => {
+    const { key } = request.query as { key?: string };
+    const origin = request.headers.origin;
+    if (origin) reply.header('Access-Control-Allow-Origin', origin).header('Vary', 'Origin');
+
+    if (!key?.trim()) {
+      return reply.code(400).send({
+        code: 'key_missing',
+        error: 'Missing publishable key. Add data-key="<your publishable key>" to the Ocula script tag.',
+      });
+    }
+
+    let platform: PlatformConfig | null;
+    try {
+      platform = getPlatformByPublishableKey(key.trim());
+    } catch (error) {
+      server.log.error({ err: error }, '[Token] Failed to look up publishable key');
+      return reply.code(503).send({
+        code: 'platform_unavailable',
+        error: 'Platform lookup is temporarily unavailable. Please try again later.',
+      });
+    }
+    if (!platform) {
+      return reply.code(401).send({
+        code: 'key_unknown',
+        error: 'Unknown publishable key. Copy the embed snippet from your Ocula dashboard.',
+      });
+    }
+    if (!isOriginAllowed(platform, origin)) {
+      server.log.warn(`[Token] Refused token for ${platform.id} to origin ${origin ?? '(none)'}`);
+      recordOrigin(platform.id, origin, false);
+      return reply.code(403).send({
+        code: 'origin_not_allowed',
+        error: 'This site is not allowed to use this Ocula widget.',
+      });
+    }
+
+    return { platformId: platform.id, ...issueWidgetToken(platform, origin!) };
+  });
+
   // WebSocket endpoint
-  server.get('/ws', { websocket: true }, (socket, req) => {
-    const sessionId = randomUUID();
-    
-    // Initialize session state
-    const sessionState: SessionState = {
-      sessionId,
-      liveSession: null,
-      lastFrame: null,
-      thoughtSignature: null,
-      hasMicAudio: false,
-      hasScreenShare: false,
-      lastScrollX: 0,
-      lastScrollY: 0,
-      hasOnboarded: false,
-      currentSelectors: [],
+  //
+  // Upgrades from pages outside the platform's allowed origins are refused
+  // with a plain 403 before a socket exists (the widget already showed why,
+  // when its token request was refused). Unknown platforms and bad tokens
+  // are reported over the socket below.
+  server.get('/ws', {
+    websocket: true,
+    preValidation: async (req, reply) => {
+      const { platformId } = req.query as { platformId?: string };
+      const resolution = resolvePlatform(platformId);
+      if (resolution.ok && !isOriginAllowed(resolution.platform, req.headers.origin)) {
+        server.log.warn(`[WS] Refused upgrade for ${resolution.platform.id} from ${req.headers.origin ?? '(no origin)'}`);
+        recordOrigin(resolution.platform.id, req.headers.origin, false);
+        return reply.code(403).send({ code: 'origin_not_allowed', error: 'This site is not allowed to use this Ocula widget.' });
+      }
+    },
+  }, (socket, req) => {
+    // Resolve the tenant before doing anything else — unknown or missing
+    // platform ids never get a Live session
+    const { platformId, token, resume, visitor, locale } = req.query as {
+      platformId?: string;
+      token?: string;
+      resume?: string;
+      visitor?: string;
+      locale?: string;
     };
+    const resolution = resolvePlatform(platformId);
+    if (!resolution.ok) {
+      server.log.warn(`[WS] Rejected connection (${resolution.reason}): ${platformId ?? '(none)'}`);
+      sendMessage(socket, {
+        type: 'error',
+        code: `platform_${resolution.reason}`,
+        error: resolution.message,
+      });
+      socket.close(1008, 'Invalid platform id');
+      return;
+    }
+
+    // The token must have been issued for this platform to the page
+    // that is connecting
+    const verification = verifyWidgetToken(token, resolution.platform, req.headers.origin);
+    if (!verification.ok) {
+      server.log.warn(`[WS] Rejected connection (token ${verification.reason}): ${resolution.platform.id} from ${req.headers.origin ?? '(no origin)'}`);
+      sendMessage(socket, {
+        type: 'error',
+        code: `token_${verification.reason}`,
+        error: verification.message,
+      });
+      socket.close(1008, 'Invalid widget token');
+      return;
+    }
+    recordOrigin(resolution.platform.id, req.headers.origin, true);
+
+    // Pick up a dropped session (selectors, onboarding, scroll, agent
+    // thread) if the client presented a live resume token
+    const restored = resume ? claimSession(resume, resolution.platform.id) : null;
+
+    const sessionState: SessionState = restored
+      ? {
+          ...restored,
+          platform: resolution.platform,
+          resumeToken: createResumeToken(),
+          // The visitor may have switched language since
+          locale: parseLocale(locale) ?? restored.locale,
+          liveSession: null,
+          // Re-detected from the client's next audio/frame messages
+          hasMicAudio: false,
+          hasScreenShare: false,
+        }
+      : createSessionState(resolution.platform, parseVisitorId(visitor), parseLocale(locale));
+    const { sessionId } = sessionState;
     sessions.set(socket, sessionState);
+    resumableSessions.set(sessionState.resumeToken, { state: sessionState, socket, expiryTimer: null });
+
+    if (restored) {
+      server.log.info(`[WS] Client resumed: ${sessionId} (platform: ${resolution.platform.id})`);
+    } else {
+      if (resume) server.log.info('[WS] Resume token unknown or expired, starting a new session');
+      server.log.info(`[WS] Client connected: ${sessionId} (platform: ${resolution.platform.id})`);
+      sessionState.analytics.start();
+    }
 
-    server.log.info(`[WS] Client connected: ${sessionId}`);
+    // Build the tenant's knowledge corpus before the first search needs it
+    preloadKnowledge(resolution.platform.id);
 
     // Send connection confirmation
     sendMessage(socket, {
       type: 'connected',
       sessionId,
+      resumeToken: sessionState.resumeToken,
+      resumed: restored !== null,
     });
 
     // Initialize Live API session for this client
@@ -244,6 +682,7 @@ async function createServer() {
         await handleClientMessage(socket, sessionState, message);
       } catch (error) {
         server.log.error({ err: error }, '[WS] Failed to process message');
+        sessionState.analytics.recordError('message', error);
         sendMessage(socket, {
           type: 'error',
           error: 'Failed to process message',
@@ -252,10 +691,22 @@ async function createServer() {
     });
 
     // Handle disconnect
-    socket.on('close', () => {
-      server.log.info(`[WS] Client disconnected: ${sessionId}`);
+    socket.on('close', (code: number) => {
+      // Already handed over to a resumed connection
+      if (sessions.get(socket) !== sessionState) return;
+
+      server.log.info(`[WS] Client disconnected: ${sessionId} (code ${code})`);
       cleanupSession(sessionState);
       sessions.delete(socket);
+
+      // A deliberate client disconnect ends the session; anything else
+      // (network drop, page navigation) stays resumable for a while
+      if (code === 1000) {
+        resumableSessions.delete(sessionState.resumeToken);
+        sessionState.analytics.end();
+      } else {
+        detachSession(sessionState);
+      }
     });
 
     // Handle errors
@@ -276,11 +727,39 @@ async function createServer() {
  * clear_overlays is handled as a legacy fallback but is no longer advertised.
  */
 async function initializeLiveSession(socket: WebSocket, state: SessionState): Promise<void> {
-  const selectorList = state.currentSelectors.length > 0
+  // The quota is shared with any session this one resumed, so callbacks
+  // only act while their own proxy is still the session's Live session
+  let proxy: LiveAPIProxy | null = null;
+
+  // Concurrent-session cap and monthly minutes — without Live, typed
+  // questions to the agent still work
+  const refused = state.quota.startLive((exhausted) => {
+    if (!proxy || state.liveSession !== proxy) return;
+    reportQuotaViolation(socket, state, exhausted);
+    proxy.close();
+    state.liveSession = null;
+    state.quota.stopLive();
+  });
+  if (refused) {
+    reportQuotaViolation(socket, state, refused);
+    return;
+  }
+
+  // The static Acme CRM selectors only apply to the bundled demo;
+  // other platforms wait for the client's DOM scan
+  const selectorList = state.currentSelectors.length > 0 || !state.platform.isDemo
     ? formatDynamicSelectors(state.currentSelectors)
     : formatSelectorMap(); // fallback to static selectors on initial connect
 
-  const systemPrompt = `You are Ocula AI, a visual support assistant that helps users navigate software interfaces in real-time.
+  const tours = getTours(state.platform.id);
+  const tourList = tours.length > 0
+    ? tours.map(t => `- "${t.name}" (${t.steps.length} steps)${t.description ? `: ${t.description}` : ''}`).join('\n')
+    : '(none)';
+
+  const persona = getPersona(state.platform.id);
+  const language = sessionLanguage(persona, state.locale);
+
+  const systemPrompt = `${personaIdentity(persona, state.platform.name)}
 
 CAPABILITIES:
 1. SEE the user's screen through captured frames (when shared)
@@ -290,11 +769,17 @@ CAPABILITIES:
 AVAILABLE TOOLS:
 - highlight_element(selector, label, action): Highlight a single element with a glowing border
 - highlight_sequence(steps): Walk through multiple elements one-by-one with smooth transitions — use this for walkthroughs and process explanations
+- start_guided_task(steps): Walk the user through a task they DO themselves — each step stays highlighted until they complete it (click, page change, element appears, field filled in)
+- start_tour(name): Play one of the product tours listed below; you are given each step's narration to say word for word
+- draw_arrow(y, x, label) / draw_circle(y, x, label) / draw_box(y1, x1, y2, x2, label): Point at what you see in the screen frame, in 0-1000 coordinates — ONLY for things with no selector (charts, canvases, iframes, images)
 - search_knowledge(query): Search help documentation
 
 AVAILABLE UI SELECTORS (use ONLY these exact selectors):
 ${selectorList}
 
+PRODUCT TOURS (scripted by the ${state.platform.name} team — prefer one over improvising when it fits the request):
+${tourList}
+
 VISUAL GUIDANCE RULES:
 - Call highlight_element or highlight_sequence and speak your guidance simultaneously.
 - NEVER say "I'm highlighting", "let me show you", "I've highlighted", "as you can see I'm pointing to", or any variation. The user already sees the visual. Just describe the element and what to do with it.
@@ -302,8 +787,10 @@ VISUAL GUIDANCE RULES:
 - Speak as if the user is naturally looking at a glowing element — describe what IT is and what to do, not that you are showing it.
 - NEVER describe what you see verbatim from any provided documentation. Speak naturally about what's on the screen.
 - When asked about a process or workflow (e.g. "What's the billing process?", "How do I create a deal?"), use highlight_sequence to walk through each relevant element while explaining each one.
+- When the user wants to actually DO a multi-step task now, use start_guided_task instead, and narrate one step at a time as [SYSTEM] progress messages arrive.
 - Use the EXACT CSS selectors from the list above. Do NOT invent or guess selectors.
 - Target the outermost container element, NOT inner children.
+- When you ask the user to DO something (click, open, type), pass expect_action with it (e.g. "click Export", or per step in highlight_sequence). A [SYSTEM] verification message then tells you whether they did it: continue with the next step when they have, gently re-prompt when they haven't.
 
 SCREEN RULES:
 - You can ONLY see the screen when the user shares it (you receive image frames).
@@ -316,12 +803,15 @@ VOICE STYLE:
 - Do NOT enumerate steps out loud ("Step 1, Step 2...") — just guide fluidly.
 - Be concise — keep responses under 2 sentences per element.
 - NEVER reference "documentation", "knowledge base", "our records", or "according to the system". Everything you say should sound like personal expertise.
-- NEVER repeat yourself. Say things once.`;
+- NEVER repeat yourself. Say things once.
+
+${personaGuidelines(persona, state.platform.name, state.locale)}`;
 
   try {
-    state.liveSession = createLiveSession({
+    proxy = createLiveSession({
       systemPrompt,
-      voiceName: 'Kore',
+      voiceName: persona.voice,
+      languageCode: language ?? undefined,
       tools: LIVE_OVERLAY_TOOLS,
       onAudio: (base64Audio) => {
         if (process.env.DEBUG === 'true') console.log('[Server] Sending audio to client, length:', base64Audio.length);
@@ -331,8 +821,9 @@ VOICE STYLE:
         });
       },
       onText: (text) => {
+        state.transcript.appendSpeech('assistant', text);
         // Safety-net filter: strip meta-commentary and knowledge-base references
-        const filtered = filterResponseText(text);
+        const filtered = filterResponseText(text, language);
         if (!filtered) return; // entirely filtered out
         if (process.env.DEBUG === 'true') console.log('[Server] Sending text to client:', filtered.slice(0, 80));
         sendMessage(socket, {
@@ -340,45 +831,70 @@ VOICE STYLE:
           text: filtered,
         });
       },
+      onInputTranscription: (text) => {
+        state.transcript.appendSpeech('user', text);
+      },
       onToolCall: async (toolCall) => {
         // Handle Live API tool calls for real-time visual overlays
         await handleLiveToolCall(socket, state, toolCall);
       },
+      onTurnComplete: () => {
+        state.transcript.flush();
+      },
       onError: (error) => {
         console.error('[LiveAPI] Error:', error);
+        state.analytics.recordError('live_session', error);
         sendMessage(socket, {
           type: 'error',
           error: 'Voice session error',
         });
       },
+      onReconnecting: (attempt) => {
+        // The proxy retries with backoff and buffers input meanwhile
+        sendMessage(socket, { type: 'status', status: 'reconnecting', attempt });
+      },
+      onReconnected: (resumed) => {
+        console.log(`[LiveAPI] Reconnected for ${state.sessionId} (resumed: ${resumed})`);
+        sendMessage(socket, { type: 'status', status: 'reconnected' });
+      },
       onClose: () => {
+        // Final close: cleanup, or reconnect retries exhausted
         console.log('[LiveAPI] Session closed for', state.sessionId);
-        // Attempt to reconnect the Live API session after unexpected close
+        // Closed by cleanupSession (which already stopped metering), or
+        // replaced: a late close must not stop a newer session's metering
+        if (state.liveSession !== proxy) return;
         state.liveSession = null;
-        setTimeout(async () => {
-          console.log('[LiveAPI] Attempting reconnection for', state.sessionId);
-          try {
-            // Only reconnect if the client WS is still open
-            if (socket.readyState === WebSocket.OPEN) {
-              await initializeLiveSession(socket, state);
-              console.log('[LiveAPI] Reconnected for', state.sessionId);
-            }
-          } catch (err) {
-            console.error('[LiveAPI] Reconnection failed:', err);
-          }
-        }, 2000);
+        state.quota.stopLive();
       },
     });
+    state.liveSession = proxy;
 
-    await state.liveSession.connect();
+    await proxy.connect();
     console.log('[LiveAPI] Session initialized for', state.sessionId);
 
   } catch (error) {
     console.error('[LiveAPI] Failed to initialize:', error);
+    state.analytics.recordError('live_session', error);
+    if (state.liveSession === proxy) {
+      state.liveSession = null;
+      state.quota.stopLive();
+    }
     // Continue without live session - text mode still works
   }
 }
 
+/**
+ * Charge a message that is about to be processed against the rate limits
+ * (requests also against the monthly quota). Over a limit, it is dropped:
+ * returns false after telling the client.
+ */
+function admitMessage(socket: WebSocket, state: SessionState, kind: LimitedMessage): boolean {
+  const violation = state.quota.admit(kind);
+  if (!violation) return true;
+  reportQuotaViolation(socket, state, violation);
+  return false;
+}
+
 /**
  * Handle incoming client message
  * 
@@ -393,31 +909,43 @@ async function handleClientMessage(
   switch (message.type) {
     case 'frame':
       // Store latest frame and send to Live API for real-time vision
-      if (message.data) {
+      if (message.data && admitMessage(socket, state, 'frame')) {
         state.lastFrame = message.data;
         state.hasScreenShare = true;
+        state.analytics.markScreenShare();
 
         // Track scroll offset if provided
         if (message.scrollX !== undefined) state.lastScrollX = message.scrollX;
         if (message.scrollY !== undefined) state.lastScrollY = message.scrollY;
 
         if (process.env.DEBUG === 'true') console.log(`[WS] Received frame for session ${state.sessionId}, scroll: (${state.lastScrollX}, ${state.lastScrollY})`);
+
+        // Observe: did the user carry out the highlighted action yet?
+        if (state.verifier.isWatching()) {
+          state.verifier.observe(message.data)
+            .then(verdict => verdict && reportVerification(state, verdict))
+            .catch(error => console.error('[Verification] Screen comparison failed:', error));
+        }
         
         // Forward frame to Live API so the model can actually SEE the screen
-        if (state.liveSession?.getIsConnected()) {
+        if (state.liveSession?.isActive()) {
           state.liveSession.sendFrame(message.data);
 
           // Onboarding: trigger ONCE on the very first frame received
-          // so the model can actually see the UI before highlighting
+          // so the model can actually see the UI before highlighting.
+          // A platform's own onboarding tour replaces the improvised one.
           if (!state.hasOnboarded) {
             state.hasOnboarded = true;
-            state.liveSession.sendText(
-              'The user has just started sharing their screen. ' +
-              'Welcome them warmly in one short sentence, then use highlight_sequence to give a quick visual tour ' +
-              'of the key areas you can see on the page. Pick 3-5 important elements from the available selectors. ' +
-              'As each element highlights, describe what it is and how they can use it — keep it natural and concise.'
-            );
-            console.log('[Server] Onboarding tour triggered for', state.sessionId);
+            markOnboarded(state.platform, state.visitorId);
+            const onboardingTour = getOnboardingTour(state.platform.id);
+            state.liveSession.sendText(buildWelcomePrompt(state.platform, onboardingTour), false);
+            if (onboardingTour) {
+              startGuidedTask(socket, state, tourSteps(onboardingTour), onboardingTour.name)
+                .catch(error => console.error('[Server] Failed to start onboarding tour:', error));
+              console.log(`[Server] Onboarding tour "${onboardingTour.name}" started for`, state.sessionId);
+            } else {
+              console.log('[Server] Onboarding tour triggered for', state.sessionId);
+            }
           }
 
           // Start silent audio keepalive if no mic is active
@@ -432,10 +960,11 @@ async function handleClientMessage(
 
     case 'audio':
       // Forward audio to Live API
-      if (message.data && state.liveSession?.getIsConnected()) {
+      if (message.data && state.liveSession?.isActive() && admitMessage(socket, state, 'audio')) {
         // Mark that we have real mic audio
         if (!state.hasMicAudio) {
           state.hasMicAudio = true;
+          state.analytics.markMic();
           // Stop silent audio since we have real audio now
           if (state.liveSession.isSilentAudioActive()) {
             state.liveSession.stopSilentAudio();
@@ -448,7 +977,8 @@ async function handleClientMessage(
 
     case 'text':
       // Forward text to Live API
-      if (message.text && state.liveSession?.getIsConnected()) {
+      if (message.text && state.liveSession?.isActive() && admitMessage(socket, state, 'request')) {
+        state.transcript.recordText('user', message.text);
         state.liveSession.sendText(message.text);
       }
       break;
@@ -469,26 +999,214 @@ async function handleClientMessage(
         console.log(`[WS] Received selector map with ${message.selectors.length} selectors for ${state.sessionId}`);
 
         // Send updated selector context to the Live API so the model knows about new elements
-        if (state.liveSession?.getIsConnected()) {
+        if (state.liveSession?.isActive()) {
           const selectorContext = formatDynamicSelectors(state.currentSelectors);
           state.liveSession.sendText(
-            `[SYSTEM] The page has changed. Here are the UPDATED available UI elements you can highlight:\n${selectorContext}\nUse ONLY these exact selectors when calling highlight_element or highlight_sequence.`
+            `[SYSTEM] The page has changed. Here are the UPDATED available UI elements you can highlight:\n${selectorContext}\nUse ONLY these exact selectors when calling highlight_element or highlight_sequence.`,
+            false
           );
         }
       }
       break;
 
+    case 'overlay_result':
+      // Client reports whether a highlight actually rendered
+      if (message.status) {
+        handleOverlayResult(state, message.commandId, {
+          status: message.status,
+          selector: message.selector,
+          rect: message.rect,
+          stepIndex: message.stepIndex,
+        });
+      }
+      break;
+
+    case 'task_progress':
+      if (message.taskId && message.progress && message.stepIndex !== undefined) {
+        handleTaskProgress(socket, state, message.taskId, message.stepIndex, message.progress);
+      }
+      break;
+
     default:
       console.warn('[WS] Unknown message type:', message.type);
   }
 }
 
+/**
+ * Record an overlay_result and route it to whoever needs it
+ *
+ * The first result for a Live tool draw completes the pending tool call.
+ * Later sequence steps that fail to render are reported to the model
+ * directly, so it doesn't narrate a step nobody saw. Rendered steps with an
+ * expect_action start watching the screen for that action.
+ */
+function handleOverlayResult(state: SessionState, commandId: string | undefined, result: OverlayResult): void {
+  state.analytics.recordOverlayResult(result.status);
+
+  const step = result.stepIndex !== undefined ? ` (step ${result.stepIndex + 1})` : '';
+  if (result.status !== 'rendered') {
+    console.log(`[Overlay] ${result.selector ?? '(unknown)'}${step}: ${result.status}`);
+  }
+
+  // A rendered step that asks for an action starts the verification loop
+  const expectedAction = commandId ? state.expectedActions.get(commandId)?.[result.stepIndex ?? 0] : undefined;
+  if (expectedAction && result.status === 'rendered' && state.lastFrame) {
+    state.verifier.expect({ action: expectedAction, selector: result.selector ?? '' }, state.lastFrame);
+  }
+
+  const pending = commandId ? state.pendingAcks.get(commandId) : undefined;
+  if (pending) {
+    pending(result);
+    return;
+  }
+
+  // Guided task steps report their own failures through task_progress
+  if (
+    result.stepIndex !== undefined &&
+    result.status !== 'rendered' &&
+    result.status !== 'aborted' &&
+    !state.guidedTask &&
+    state.liveSession?.isActive()
+  ) {
+    state.liveSession.sendText(
+      `[SYSTEM] Step ${result.stepIndex + 1} of the highlight sequence (${result.selector}) was not shown: ` +
+        `${OVERLAY_FAILURES[result.status]}. Do not refer to it as highlighted.`,
+      false
+    );
+  }
+}
+
+/**
+ * Start a guided task (or product tour) on the page and wait for step 1 to render
+ */
+function startGuidedTask(
+  socket: WebSocket,
+  state: SessionState,
+  steps: GuidedTaskStep[],
+  tour?: string,
+): Promise<OverlayResult | null> {
+  const taskId = randomUUID();
+  state.guidedTask = { taskId, steps, tour };
+
+  // Narration stays on the server; the client only needs what to highlight and wait for
+  const taskSteps = steps.map(({ narration, ...step }) => step);
+  sendMessage(socket, { type: 'clear' });
+  return sendDrawAndAwaitAck(socket, state, { type: 'guided_task', taskId, taskSteps });
+}
+
+/**
+ * Guided task steps for a product tour
+ */
+function tourSteps(tour: Tour): GuidedTaskStep[] {
+  return tour.steps.map(step => ({
+    selector: step.selector,
+    label: step.label,
+    wait_for: step.wait_for,
+    target: step.target,
+    value: step.value,
+    delay_ms: step.delay_ms,
+    narration: step.narration,
+  }));
+}
+
+/**
+ * Relay guided task progress to the Live model so it narrates along
+ *
+ * Tour steps are narrated with the author's text as each one starts;
+ * improvised tasks get told which step the user moved on to. Progress
+ * from a task that has since been replaced is ignored. A failed first
+ * step is already in the tool response that started the task.
+ */
+function handleTaskProgress(
+  socket: WebSocket,
+  state: SessionState,
+  taskId: string,
+  stepIndex: number,
+  progress: TaskProgressStatus,
+): void {
+  const task = state.guidedTask;
+  const step = task?.taskId === taskId ? task.steps[stepIndex] : undefined;
+  if (!task || !step) return;
+
+  const total = task.steps.length;
+  const position = `step ${stepIndex + 1} of ${total} ("${step.label}")`;
+  console.log(`[GuidedTask] ${taskId} ${position}: ${progress}`);
+
+  let note: string | null = null;
+  switch (progress) {
+    case 'step_started':
+      if (task.tour && step.narration) {
+        // Without a voice session the narration goes straight to the widget
+        if (!state.liveSession?.isActive()) {
+          sendMessage(socket, { type: 'assistant_response', text: step.narration });
+          state.transcript.recordText('assistant', step.narration);
+          return;
+        }
+        note = `${position} is highlighted. Say this to the user, word for word, and nothing else: "${step.narration}"`;
+      }
+      break;
+    case 'step_completed': {
+      // Tours narrate the next step when it starts; after the last step, task_completed follows
+      const next = task.steps[stepIndex + 1];
+      if (next && !task.tour) {
+        note = `the user completed ${position}. Step ${stepIndex + 2} ("${next.label}") is now highlighted — tell them what to do there.`;
+      }
+      break;
+    }
+    case 'step_stalled':
+      note = `the user has been on ${position} for a while without finishing it. Look at the screen and offer help.`;
+      break;
+    case 'step_failed':
+      state.guidedTask = null;
+      if (stepIndex > 0) {
+        note = `${position} could not be shown (${step.selector} is not on the page), so the task stopped. ` +
+          'Explain the step in words, or start a new task from where the user is now.';
+      }
+      break;
+    case 'task_completed':
+      state.guidedTask = null;
+      note = task.tour
+        ? 'the tour is finished. Ask briefly whether they have any questions.'
+        : `the user finished all ${total} steps. Congratulate them briefly.`;
+      break;
+    case 'task_cancelled':
+      state.guidedTask = null;
+      break;
+  }
+
+  if (note && state.liveSession?.isActive()) {
+    const subject = task.tour ? `Tour "${task.tour}"` : 'Guided task';
+    state.liveSession.sendText(`[SYSTEM] ${subject}: ${note}`, false);
+  }
+}
+
+/**
+ * Tell the Live model whether the user carried out the highlighted action,
+ * so it can move the walkthrough on or re-prompt without being asked
+ */
+function reportVerification(state: SessionState, verdict: VerificationVerdict): void {
+  const { action, selector } = verdict.expected;
+  console.log(`[Verification] "${action}" (${selector}): ${verdict.completed ? 'completed' : 'not completed'}`);
+  if (!state.liveSession?.isActive()) return;
+
+  state.liveSession.sendText(
+    verdict.completed
+      ? `[SYSTEM] Verification: the user did "${action}" — ${verdict.changes.join('; ') || 'the screen changed'}. ` +
+        `Screen now: ${verdict.currentPage}. Acknowledge it briefly and continue with the next step.`
+      : `[SYSTEM] Verification: the user has not done "${action}" yet — the screen is unchanged. ` +
+        'Gently re-prompt them, or describe another way to get there.',
+    false
+  );
+}
+
 /**
  * Handle user query with LangChain agent
  * 
  * Routes user queries through the ReAct agent (createAgent)
  * which orchestrates tool calls (inspect_screen, draw_visual_guide,
- * search_knowledge) and returns a structured response.
+ * search_knowledge). The answer streams to the client as
+ * assistant_delta text, assistant_progress while tools run, and a
+ * final assistant_done with the complete text and visual commands.
  */
 async function handleUserQuery(
   socket: WebSocket,
@@ -508,28 +1226,43 @@ async function handleUserQuery(
     return;
   }
 
+  if (!admitMessage(socket, state, 'request')) return;
+
+  state.transcript.recordText('user', query);
+
   try {
-    // Run the LangChain ReAct agent with session context
-    const result = await runOculaAgent({
+    // Stream the LangChain ReAct agent's answer as it is generated
+    for await (const event of streamOculaAgent({
       sessionId: state.sessionId,
+      platformId: state.platform.id,
+      platformName: state.platform.name,
+      persona: getPersona(state.platform.id),
+      locale: state.locale,
       userMessage: query,
       screenBase64: frame || undefined,
-    });
-
-    // Send the agent's text response with visual commands
-    sendMessage(socket, {
-      type: 'assistant_response',
-      text: result.response,
-      visualCommands: result.visualCommands as VisualCommand[],
-      scrollX: state.lastScrollX,
-      scrollY: state.lastScrollY,
-    });
-
-    // Visual commands are already included in assistant_response.visualCommands
-    // The client iterates them via onResponse handler — no need to send separately
-
+    })) {
+      if (event.type === 'text') {
+        sendMessage(socket, { type: 'assistant_delta', text: event.content });
+      } else if (event.type === 'tool_call') {
+        sendMessage(socket, { type: 'assistant_progress', tool: event.toolName });
+      } else if (event.type === 'done') {
+        if (event.error) state.analytics.recordError('agent', event.error);
+        state.transcript.recordText('assistant', event.response ?? '');
+
+        // The final answer replaces the streamed text; the client runs
+        // the visual commands via its onResponseDone handler
+        sendMessage(socket, {
+          type: 'assistant_done',
+          text: event.response,
+          visualCommands: event.visualCommands as VisualCommand[],
+          scrollX: state.lastScrollX,
+          scrollY: state.lastScrollY,
+        });
+      }
+    }
   } catch (error) {
     console.error('[Query] Agent execution failed:', error);
+    state.analytics.recordError('agent', error);
     sendMessage(socket, {
       type: 'error',
       error: 'Failed to process your request. Please try again.',
@@ -547,6 +1280,11 @@ async function handleUserQuery(
  * The Live API sends a toolCall message with functionCalls array.
  * We execute each tool, send the visual command to the client,
  * and report the result back to the Live API so the model knows it succeeded.
+ * Highlight selectors are checked against the latest selector_map first, and
+ * the client's overlay_result says whether the element actually rendered.
+ * A highlight_element the page can't resolve is retried by locating the
+ * element in the latest frame (highlightWithVision); only when that fails
+ * too does it go back as success: false so the model can correct itself.
  */
 async function handleLiveToolCall(
   socket: WebSocket,
@@ -564,50 +1302,217 @@ async function handleLiveToolCall(
     try {
       switch (name) {
         case 'highlight_element': {
-          const { selector, label, action } = args;
-          // Auto-clear previous highlights before applying new one
-          if (action !== 'clear') {
-            sendMessage(socket, { type: 'clear' });
+          const { selector, label, action, expect_action: expectAction } = args;
+          if (action === 'clear') {
+            state.verifier.cancel();
+            sendMessage(socket, { type: 'draw', action: 'clear', selector, label });
+            responses.push({ id, name, response: { success: true, message: `Cleared highlight on ${selector}` } });
+            break;
+          }
+
+          // Selectors the page never reported go straight to the vision fallback
+          const unknown = findUnknownSelectors(state, [selector]);
+          if (unknown.length > 0) {
+            const fallback = await highlightWithVision(socket, state, selector, label, expectAction);
+            responses.push({ id, name, response: fallback ?? selectorFailure(state, 'Selector is not in the current selector map', unknown) });
+            break;
           }
-          sendMessage(socket, {
+
+          // Auto-clear previous highlights before applying new one
+          sendMessage(socket, { type: 'clear' });
+          const result = await sendDrawAndAwaitAck(socket, state, {
             type: 'draw',
             action: action || 'apply',
             selector,
             label,
-          });
-          responses.push({
-            id,
-            name,
-            response: { success: true, message: `Highlighted element ${selector}` },
-          });
+          }, [expectAction]);
+
+          if (result && result.status !== 'rendered') {
+            const fallback = result.status === 'aborted' ? null : await highlightWithVision(socket, state, selector, label, expectAction);
+            responses.push({ id, name, response: fallback ?? selectorFailure(state, OVERLAY_FAILURES[result.status], [selector]) });
+          } else {
+            responses.push({
+              id,
+              name,
+              response: result
+                ? { success: true, message: `Highlighted element ${selector}`, rect: result.rect }
+                : { success: true, confirmed: false, message: `Sent highlight for ${selector}; the page did not confirm it in time` },
+            });
+          }
           break;
         }
 
         case 'highlight_sequence': {
           const { steps } = args;
-          if (steps && Array.isArray(steps) && steps.length > 0) {
-            // Send clear first, then the full sequence to the client
-            sendMessage(socket, { type: 'clear' });
-            sendMessage(socket, {
-              type: 'highlight_sequence',
-              steps: steps,
+          if (!steps || !Array.isArray(steps) || steps.length === 0) {
+            responses.push({
+              id,
+              name,
+              response: { success: false, error: 'No steps provided for highlight_sequence' },
             });
+            break;
+          }
+
+          const selectors = steps.map((step: { selector: string }) => step.selector);
+          const unknown = findUnknownSelectors(state, selectors);
+          if (unknown.length > 0) {
+            responses.push({ id, name, response: selectorFailure(state, 'Selectors are not in the current selector map', unknown) });
+            break;
+          }
+
+          // Send clear first, then the full sequence to the client
+          sendMessage(socket, { type: 'clear' });
+          const first = await sendDrawAndAwaitAck(socket, state, {
+            type: 'highlight_sequence',
+            steps: steps,
+          }, steps.map((step: { expect_action?: string }) => step.expect_action));
+
+          if (first && first.status !== 'rendered') {
+            // The client skips to the next step; later failures arrive as overlay_results
             responses.push({
               id,
               name,
-              response: { success: true, message: `Highlighting sequence of ${steps.length} elements` },
+              response: {
+                ...selectorFailure(state, `Step 1: ${OVERLAY_FAILURES[first.status]}`, [selectors[0]]),
+                note: 'The remaining steps are still playing.',
+              },
             });
           } else {
             responses.push({
               id,
               name,
-              response: { success: false, error: 'No steps provided for highlight_sequence' },
+              response: first
+                ? { success: true, message: `Highlighting sequence of ${steps.length} elements` }
+                : { success: true, confirmed: false, message: `Sent a sequence of ${steps.length} elements; the page did not confirm it in time` },
+            });
+          }
+          break;
+        }
+
+        case 'start_guided_task': {
+          const steps = args.steps as Array<Partial<GuidedTaskStep>> | undefined;
+          if (!steps || !Array.isArray(steps) || steps.length === 0) {
+            responses.push({ id, name, response: { success: false, error: 'No steps provided for start_guided_task' } });
+            break;
+          }
+          const malformed = steps.findIndex(step =>
+            typeof step?.selector !== 'string' || !step.selector || typeof step.label !== 'string'
+          );
+          if (malformed >= 0) {
+            responses.push({ id, name, response: { success: false, error: `Step ${malformed + 1} needs a selector and a label` } });
+            break;
+          }
+
+          // Later steps may target elements that only appear once earlier steps are done,
+          // so only the first has to be on the page already
+          const selectors = steps.map(step => step.selector as string);
+          const unknown = findUnknownSelectors(state, [selectors[0]]);
+          if (unknown.length > 0) {
+            responses.push({ id, name, response: selectorFailure(state, 'Step 1 selector is not in the current selector map', unknown) });
+            break;
+          }
+
+          const taskSteps: GuidedTaskStep[] = steps.map(step => ({
+            selector: step.selector as string,
+            label: step.label as string,
+            wait_for: isCompletionCondition(step.wait_for) ? step.wait_for : 'click',
+            target: typeof step.target === 'string' ? step.target : undefined,
+            value: typeof step.value === 'string' ? step.value : undefined,
+          }));
+          const first = await startGuidedTask(socket, state, taskSteps);
+
+          if (first && first.status !== 'rendered') {
+            responses.push({ id, name, response: selectorFailure(state, `Step 1: ${OVERLAY_FAILURES[first.status]}`, [selectors[0]]) });
+          } else {
+            responses.push({
+              id,
+              name,
+              response: {
+                success: true,
+                ...(first ? {} : { confirmed: false }),
+                message: `Guided task of ${taskSteps.length} steps started; step 1 is highlighted and waits for the user. ` +
+                  'Progress arrives as [SYSTEM] messages — explain only the current step.',
+              },
+            });
+          }
+          break;
+        }
+
+        case 'start_tour': {
+          const tour = typeof args.name === 'string' ? findTour(state.platform.id, args.name) : undefined;
+          if (!tour) {
+            const available = getTours(state.platform.id).map(t => t.name);
+            responses.push({
+              id,
+              name,
+              response: {
+                success: false,
+                error: `No tour named "${args.name}". ` + (available.length > 0
+                  ? 'Use one of the available tours.'
+                  : 'This platform has no tours; use start_guided_task or highlight_sequence instead.'),
+                available_tours: available,
+              },
+            });
+            break;
+          }
+
+          const first = await startGuidedTask(socket, state, tourSteps(tour), tour.name);
+          if (first && first.status !== 'rendered') {
+            responses.push({ id, name, response: selectorFailure(state, `Tour step 1: ${OVERLAY_FAILURES[first.status]}`, [tour.steps[0].selector]) });
+          } else {
+            responses.push({
+              id,
+              name,
+              response: {
+                success: true,
+                ...(first ? {} : { confirmed: false }),
+                message: `Tour "${tour.name}" (${tour.steps.length} steps) started. ` +
+                  'Each step\'s narration arrives as a [SYSTEM] message — say it as given and do not add your own walkthrough.',
+              },
+            });
+          }
+          break;
+        }
+
+        case 'draw_arrow':
+        case 'draw_circle':
+        case 'draw_box': {
+          const shape = name === 'draw_arrow' ? 'arrow' : name === 'draw_circle' ? 'circle' : 'box';
+          const coordinates: number[] = shape === 'box' ? [args.y1, args.x1, args.y2, args.x2] : [args.y, args.x];
+          if (!coordinates.every(v => typeof v === 'number' && v >= 0 && v <= 1000)) {
+            responses.push({ id, name, response: { success: false, error: OVERLAY_FAILURES.invalid_coordinates } });
+            break;
+          }
+
+          // Coordinates refer to the latest frame, so send its scroll offsets along
+          sendMessage(socket, { type: 'clear' });
+          const result = await sendDrawAndAwaitAck(socket, state, {
+            type: 'draw_shape',
+            shape,
+            ...(shape === 'box'
+              ? { box: coordinates as [number, number, number, number] }
+              : { point: coordinates as [number, number] }),
+            label: args.label,
+            scrollX: state.lastScrollX,
+            scrollY: state.lastScrollY,
+          }, [args.expect_action]);
+
+          if (result && result.status !== 'rendered') {
+            responses.push({ id, name, response: { success: false, error: `${OVERLAY_FAILURES[result.status]}. Nothing was drawn.` } });
+          } else {
+            responses.push({
+              id,
+              name,
+              response: result
+                ? { success: true, message: `Drew ${shape} at ${coordinates.join(', ')}` }
+                : { success: true, confirmed: false, message: `Sent ${shape}; the page did not confirm it in time` },
             });
           }
           break;
         }
 
         case 'clear_overlays': {
+          state.verifier.cancel();
           sendMessage(socket, { type: 'clear' });
           responses.push({
             id,
@@ -621,8 +1526,12 @@ async function handleLiveToolCall(
           const { query } = args;
           let knowledgeResult = 'No relevant documentation found.';
           try {
-            const result = await lookupKnowledge(query);
-            knowledgeResult = result.summary || result.sections.map(s => s.content).join('\n\n') || knowledgeResult;
+            const result = await lookupKnowledge(query, state.platform.id);
+            if (result.found) {
+              knowledgeResult = result.sections.map(s => `## ${s.title}\n${s.content}`).join('\n\n');
+            } else {
+              knowledgeResult = result.summary || knowledgeResult;
+            }
           } catch (err) {
             console.error('[LiveToolCall] Knowledge search error:', err);
           }
@@ -649,16 +1558,21 @@ async function handleLiveToolCall(
       }
     } catch (error) {
       console.error(`[LiveToolCall] Error executing ${name}:`, error);
+      state.analytics.recordError('tool_call', error);
       responses.push({
         id,
         name: name || 'unknown',
         response: { success: false, error: String(error) },
       });
     }
+
+    const response = responses[responses.length - 1]?.response;
+    state.transcript.recordToolCall(name || 'unknown', args, response);
+    state.analytics.recordToolCall(name || 'unknown', response?.success !== false);
   }
 
   // Send all tool responses back to the Live API
-  // so the model knows the tools executed successfully
+  // so the model knows which tools actually worked
   if (state.liveSession?.getIsConnected() && responses.length > 0) {
     for (const resp of responses) {
       state.liveSession.sendToolResponse(resp.id, resp.name, resp.response);
@@ -679,14 +1593,31 @@ function sendMessage(socket: WebSocket, message: ServerMessage): void {
   }
 }
 
+/**
+ * Tell the client a message was dropped or Live refused for a limit
+ * (throttled per code, so dropped frames don't flood the chat)
+ */
+function reportQuotaViolation(socket: WebSocket, state: SessionState, violation: QuotaViolation): void {
+  if (!state.quota.shouldNotify(violation.code)) return;
+  console.warn(`[Quotas] ${violation.code} for ${state.sessionId} (platform: ${state.platform.id})`);
+  state.analytics.recordError('quota', violation.code);
+  sendMessage(socket, { type: 'error', code: violation.code, error: violation.message });
+}
+
 /**
  * Cleanup session resources
  */
 function cleanupSession(state: SessionState): void {
+  state.transcript.flush();
+  for (const resolveAck of state.pendingAcks.values()) resolveAck(null);
+  state.verifier.cancel();
+  // A guided task lives in the page, so it ends with the connection
+  state.guidedTask = null;
   if (state.liveSession) {
     state.liveSession.close();
     state.liveSession = null;
   }
+  state.quota.stopLive();
 }
 
 /**
@@ -718,21 +1649,27 @@ async function main() {
   }
 }
 
-// Handle shutdown
-process.on('SIGINT', () => {
+/**
+ * Close every session, write what is still buffered (Live minutes,
+ * transcripts, usage, analytics) and exit
+ */
+function shutdown(): void {
   console.log('\nShutting down...');
   // Cleanup all sessions
   for (const [socket, state] of sessions) {
     cleanupSession(state);
     socket.close();
   }
+  endResumableSessions();
+  flushUsage();
+  closeDb();
+  closeCheckpointer();
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  console.log('\nShutting down...');
-  process.exit(0);
-});
+// Handle shutdown
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 // Start server
 main();
@@ -0,0 +1,166 @@
+/**
+ * Embeddings - Pluggable text embedding providers for knowledge retrieval
+ *
+ * - GeminiEmbeddingProvider: gemini-embedding-001 via the shared GenAI client
+ * - LocalEmbeddingProvider: deterministic feature-hashing embedder with no
+ *   network calls, for tests and offline development
+ *
+ * The active provider is chosen by EMBEDDING_PROVIDER and can be swapped at
+ * runtime with setEmbeddingProvider().
+ */
+
+import { env } from '../config/env.js';
+import { getGeminiClient } from '../gemini/client.js';
+
+/** Whether a text is being indexed or searched for */
+export type EmbeddingKind = 'document' | 'query';
+
+/** Turns texts into fixed-length vectors */
+export interface EmbeddingProvider {
+  /** Identifies the provider (and model) so indexes can detect a swap */
+  readonly name: string;
+  /** Cosine similarity typical of unrelated texts; scores at or below it count as no match */
+  readonly baseline: number;
+  embed(texts: string[], kind: EmbeddingKind): Promise<number[][]>;
+}
+
+/** Max texts per embedContent request */
+const GEMINI_BATCH_SIZE = 100;
+
+/**
+ * Gemini text embeddings
+ */
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly baseline = 0.55;
+
+  constructor(
+    private readonly model = 'gemini-embedding-001',
+    private readonly dimensions = 768,
+  ) {
+    this.name = `gemini:${model}:${dimensions}`;
+  }
+
+  async embed(texts: string[], kind: EmbeddingKind): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + GEMINI_BATCH_SIZE);
+      const response = await getGeminiClient().models.embedContent({
+        model: this.model,
+        contents: batch,
+        config: {
+          taskType: kind === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+          outputDimensionality: this.dimensions,
+        },
+      });
+
+      const embeddings = response.embeddings ?? [];
+      if (embeddings.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+      }
+      vectors.push(...embeddings.map(e => e.values ?? []));
+    }
+
+    return vectors;
+  }
+}
+
+/**
+ * Deterministic local embedder
+ *
+ * Hashes words and character trigrams into a fixed number of buckets, so
+ * texts sharing vocabulary or word stems ("invoice"/"invoices") land close
+ * together. Same input always yields the same vector.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly baseline = 0.1;
+
+  constructor(private readonly dimensions = 256) {
+    this.name = `local:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+    for (const word of words) {
+      this.add(vector, `w:${word}`, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.add(vector, `t:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private add(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    // Signed hashing keeps unrelated collisions from always adding up
+    vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+  }
+}
+
+/** 32-bit FNV-1a hash */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Scale a vector to unit length */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+let activeProvider: EmbeddingProvider | null | undefined;
+
+/**
+ * Get the configured embedding provider (null = lexical retrieval only)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (activeProvider === undefined) {
+    activeProvider =
+      env.EMBEDDING_PROVIDER === 'gemini' ? new GeminiEmbeddingProvider() :
+      env.EMBEDDING_PROVIDER === 'local' ? new LocalEmbeddingProvider() :
+      null;
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the embedding provider (e.g. a LocalEmbeddingProvider in tests).
+ * Cached knowledge indexes are rebuilt on their next lookup.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider;
+}
@@ -1,51 +1,76 @@
 /**
- * Knowledge Base - Demo knowledge lookup
- * 
- * Provides keyword-based search over the hardcoded Acme CRM
- * knowledge base. In production, this would be replaced with
- * a vector store or API call to the host SaaS platform's docs.
+ * Knowledge Base - Per-platform knowledge lookup
+ *
+ * Provides hybrid (BM25 + embedding) search over each platform's own corpus:
+ * - The bundled Acme CRM demo (DEMO_PLATFORM_ID) searches demo.md
+ * - Every other platform searches the documents it uploaded through
+ *   the dashboard, ingested by ./ingest.ts
+ *
+ * Search indexes are cached per platform and rebuilt when the platform's
+ * document set or the embedding provider changes.
  */
 
 import { readFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { env } from '../config/env.js';
+import { parseMarkdownSections } from './parse.js';
+import { ingestPlatformDocuments, getCorpusSignature } from './ingest.js';
+import { buildKnowledgeIndex, searchKnowledgeIndex, KnowledgeIndex } from './retrieval.js';
+import { getEmbeddingProvider, EmbeddingProvider } from './embeddings.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
-/** Knowledge section parsed from demo.md */
-interface KnowledgeSection {
-  title: string;
-  content: string;
-  keywords: string[];
-}
-
 /** Knowledge search result */
 export interface KnowledgeResult {
   found: boolean;
   sections: Array<{
+    id: string;
     title: string;
     content: string;
+    source: string;
+    /** Blended relevance, 0–1 */
     relevance: number;
   }>;
+  /** Ids of the returned sections, for citing answers */
+  citations: string[];
   summary: string;
 }
 
-// Cache parsed knowledge base
-let knowledgeCache: KnowledgeSection[] | null = null;
+/** Cached search index for one platform */
+interface CorpusEntry {
+  index: KnowledgeIndex;
+  /** Document-set fingerprint the index was built from */
+  signature: string;
+  /** Embedding provider that was active when the index was built */
+  embedder: EmbeddingProvider | null;
+  /** When the signature was last compared against the database */
+  checkedAt: number;
+}
+
+/** How often a cached corpus is checked for new/removed documents */
+const CORPUS_RECHECK_MS = 30_000;
+
+/** Signature used for the bundled demo corpus, which never changes */
+const DEMO_SIGNATURE = 'demo.md';
+
+// Cache search indexes by platform id (the demo included)
+const corpusCache = new Map<string, CorpusEntry>();
+
+// In-flight index builds, so concurrent lookups share one ingestion
+const pendingLoads = new Map<string, Promise<KnowledgeIndex | null>>();
 
 /**
  * Load and parse the demo knowledge base
  */
-function loadKnowledge(): KnowledgeSection[] {
-  if (knowledgeCache) return knowledgeCache;
-
+function loadDemoSections() {
   try {
     const mdPath = join(__dirname, 'demo.md');
     const raw = readFileSync(mdPath, 'utf-8');
-    knowledgeCache = parseMarkdownSections(raw);
-    console.log(`[Knowledge] Loaded ${knowledgeCache.length} sections from demo.md`);
-    return knowledgeCache;
+    const sections = parseMarkdownSections(raw, 'demo.md');
+    console.log(`[Knowledge] Loaded ${sections.length} sections from demo.md`);
+    return sections;
   } catch (error) {
     console.error('[Knowledge] Failed to load demo.md:', error);
     return [];
@@ -53,129 +78,107 @@ function loadKnowledge(): KnowledgeSection[] {
 }
 
 /**
- * Parse markdown into searchable sections
+ * Load the search index for a platform
+ *
+ * Rebuilds only when the document-set signature or the embedding provider
+ * changed since the last build; otherwise serves the cached index.
  */
-function parseMarkdownSections(markdown: string): KnowledgeSection[] {
-  const sections: KnowledgeSection[] = [];
-  const lines = markdown.split('\n');
-  
-  let currentTitle = '';
-  let currentContent: string[] = [];
-
-  for (const line of lines) {
-    // Match ## or ### headings as section boundaries
-    const headingMatch = line.match(/^#{2,3}\s+(.+)/);
-    
-    if (headingMatch) {
-      // Save previous section
-      if (currentTitle && currentContent.length > 0) {
-        const content = currentContent.join('\n').trim();
-        sections.push({
-          title: currentTitle,
-          content,
-          keywords: extractKeywords(currentTitle + ' ' + content),
-        });
-      }
-      
-      currentTitle = headingMatch[1];
-      currentContent = [];
-    } else {
-      currentContent.push(line);
-    }
-  }
+async function loadKnowledge(platformId: string): Promise<KnowledgeIndex | null> {
+  const pending = pendingLoads.get(platformId);
+  if (pending) return pending;
 
-  // Save last section
-  if (currentTitle && currentContent.length > 0) {
-    const content = currentContent.join('\n').trim();
-    sections.push({
-      title: currentTitle,
-      content,
-      keywords: extractKeywords(currentTitle + ' ' + content),
-    });
-  }
-
-  return sections;
+  const load = refreshCorpus(platformId).finally(() => pendingLoads.delete(platformId));
+  pendingLoads.set(platformId, load);
+  return load;
 }
 
 /**
- * Extract searchable keywords from text
+ * Return the cached index, rebuilding it if it is out of date
  */
-function extractKeywords(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .split(/\s+/)
-    .filter(word => word.length > 2)
-    .filter((word, index, arr) => arr.indexOf(word) === index); // unique
+async function refreshCorpus(platformId: string): Promise<KnowledgeIndex | null> {
+  const isDemo = platformId === env.DEMO_PLATFORM_ID;
+  const cached = corpusCache.get(platformId);
+  const embedder = getEmbeddingProvider();
+  const now = Date.now();
+  const embedderChanged = cached !== undefined && cached.embedder !== embedder;
+
+  if (cached && !embedderChanged && (isDemo || now - cached.checkedAt < CORPUS_RECHECK_MS)) {
+    return cached.index;
+  }
+
+  try {
+    const signature = isDemo ? DEMO_SIGNATURE : getCorpusSignature(platformId);
+    if (cached && !embedderChanged && cached.signature === signature) {
+      cached.checkedAt = now;
+      return cached.index;
+    }
+
+    const sections = isDemo ? loadDemoSections() : await ingestPlatformDocuments(platformId);
+    const index = await buildKnowledgeIndex(sections, embedder);
+    corpusCache.set(platformId, { index, signature, embedder, checkedAt: now });
+    return index;
+  } catch (error) {
+    console.error(`[Knowledge] Failed to load corpus for ${platformId}:`, error);
+    // Serve the stale index rather than nothing if we had one
+    return cached?.index ?? null;
+  }
 }
 
 /**
- * Search the knowledge base
- * 
- * Uses simple keyword matching for MVP.
- * Returns top matching sections ranked by relevance score.
+ * Search a platform's knowledge base
+ *
+ * Returns up to 3 sections that clear the relevance cutoff, best first,
+ * with their ids as citations. Only the calling platform's corpus is
+ * ever searched.
  */
-export async function lookupKnowledge(query: string): Promise<KnowledgeResult> {
-  const sections = loadKnowledge();
-  
-  if (sections.length === 0) {
+export async function lookupKnowledge(query: string, platformId: string): Promise<KnowledgeResult> {
+  const index = await loadKnowledge(platformId);
+
+  if (!index || index.sections.length === 0) {
     return {
       found: false,
       sections: [],
+      citations: [],
       summary: 'Knowledge base is not available.',
     };
   }
 
-  const queryKeywords = extractKeywords(query);
-  
-  // Score each section by keyword overlap
-  const scored = sections.map(section => {
-    let score = 0;
-    
-    for (const queryWord of queryKeywords) {
-      // Exact keyword match
-      if (section.keywords.includes(queryWord)) {
-        score += 2;
-      }
-      
-      // Partial match in title (higher weight)
-      if (section.title.toLowerCase().includes(queryWord)) {
-        score += 3;
-      }
-      
-      // Partial match in content
-      if (section.content.toLowerCase().includes(queryWord)) {
-        score += 1;
-      }
-    }
-    
-    return { section, score };
-  });
+  const hits = await searchKnowledgeIndex(index, query);
 
-  // Filter and sort by relevance
-  const results = scored
-    .filter(s => s.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 3) // Top 3 results
-    .map(s => ({
-      title: s.section.title,
-      content: s.section.content,
-      relevance: s.score,
-    }));
+  const results = hits.map(hit => ({
+    id: hit.section.id,
+    title: hit.section.title,
+    content: hit.section.content,
+    source: hit.section.source,
+    relevance: Math.round(hit.score * 1000) / 1000,
+  }));
 
   if (results.length === 0) {
+    const topics = index.sections.slice(0, 5).map(s => `"${s.title}"`).join(', ');
     return {
       found: false,
       sections: [],
-      summary: `No knowledge base articles found for: "${query}". Try searching for specific features like "contacts", "deals", "reports", "billing", or "settings".`,
+      citations: [],
+      summary: `No knowledge base articles found for: "${query}". Try searching for specific topics like ${topics}.`,
     };
   }
 
   return {
     found: true,
     sections: results,
+    citations: results.map(r => r.id),
     summary: `Found ${results.length} relevant article(s): ${results.map(r => r.title).join(', ')}`,
   };
 }
 
+/**
+ * Warm a platform's corpus in the background (called on session start
+ * so the first search_knowledge call doesn't wait on document downloads)
+ */
+export function preloadKnowledge(platformId: string): void {
+  loadKnowledge(platformId).catch(error => {
+    console.error(`[Knowledge] Preload failed for ${platformId}:`, error);
+  });
+}
+
 export default lookupKnowledge;
@@ -0,0 +1,163 @@
+/**
+ * Knowledge Ingestion - Platform documents → searchable sections
+ *
+ * Turns the documents a customer uploaded through the dashboard
+ * (`platform_document`) into knowledge sections:
+ * - Documents the dashboard has analyzed are indexed from the structured
+ *   `analysis` JSON (sections, UI terms, summary)
+ * - Markdown files without an analysis yet are downloaded from Cloudinary
+ *   and split on headings
+ * - PDFs and images are skipped until their analysis is ready
+ */
+
+import { getDb } from '../db/index.js';
+import { parseMarkdownSections, extractKeywords, KnowledgeSection } from './parse.js';
+
+/** Row shape of the dashboard's `platform_document` table (subset) */
+interface DocumentRow {
+  id: string;
+  type: 'pdf' | 'image' | 'markdown';
+  cloudinaryUrl: string;
+  filename: string;
+  analysis: string | null;
+}
+
+/** Structured analysis written by the dashboard (web/src/lib/document-analysis.ts) */
+interface DocumentAnalysis {
+  summary: string;
+  sections: Array<{ title: string; content: string }>;
+  uiTerms: string[];
+  text: string;
+  analyzedAt: string;
+}
+
+/** Download timeout for markdown documents */
+const FETCH_TIMEOUT_MS = 10_000;
+
+/**
+ * Raw markdown by platform, then document id. Uploads are immutable (every
+ * upload gets a new Cloudinary public id), so cached content never goes stale.
+ */
+const markdownCache = new Map<string, Map<string, string>>();
+
+/**
+ * Cheap fingerprint of a platform's document set
+ *
+ * Changes whenever a document is added, deleted, or (re-)analyzed (the
+ * dashboard sets `analyzedAt` on every analysis write), so callers can
+ * tell when the corpus must be rebuilt.
+ */
+export function getCorpusSignature(platformId: string): string {
+  const rows = getDb()
+    .prepare('SELECT "id", "analyzedAt" FROM "platform_document" WHERE "platformId" = ? ORDER BY "id"')
+    .all(platformId) as Array<{ id: string; analyzedAt: string | null }>;
+
+  return rows.map(r => `${r.id}:${r.analyzedAt ?? ''}`).join('|');
+}
+
+/**
+ * Build the knowledge sections for every document of a platform
+ *
+ * Individual document failures are logged and skipped so one broken
+ * upload never empties the whole corpus.
+ */
+export async function ingestPlatformDocuments(platformId: string): Promise<KnowledgeSection[]> {
+  const documents = getDb()
+    .prepare('SELECT "id","type","cloudinaryUrl","filename","analysis" FROM "platform_document" WHERE "platformId" = ? ORDER BY "createdAt"')
+    .all(platformId) as DocumentRow[];
+
+  // Carry over downloads for documents that still exist, drop the rest
+  const previousCache = markdownCache.get(platformId);
+  const cache = new Map<string, string>();
+  for (const doc of documents) {
+    const cached = previousCache?.get(doc.id);
+    if (cached !== undefined) cache.set(doc.id, cached);
+  }
+  markdownCache.set(platformId, cache);
+
+  const sections: KnowledgeSection[] = [];
+
+  for (const doc of documents) {
+    try {
+      const docSections = await ingestDocument(doc, cache);
+      sections.push(...docSections);
+    } catch (error) {
+      console.error(`[Knowledge] Failed to ingest ${doc.filename} (${doc.id}):`, error);
+    }
+  }
+
+  console.log(`[Knowledge] Ingested ${sections.length} sections from ${documents.length} document(s) for ${platformId}`);
+  return sections;
+}
+
+/**
+ * Turn a single document into sections
+ */
+async function ingestDocument(doc: DocumentRow, cache: Map<string, string>): Promise<KnowledgeSection[]> {
+  const title = titleFromFilename(doc.filename);
+
+  // Analyzed text wins for every type — it is already on hand
+  if (doc.analysis) {
+    const analysis = parseAnalysis(doc.analysis);
+    return analysis
+      ? sectionsFromAnalysis(analysis, doc.filename)
+      : parseMarkdownSections(doc.analysis, doc.filename, title);
+  }
+
+  if (doc.type === 'markdown') {
+    const markdown = await fetchMarkdown(doc, cache);
+    return parseMarkdownSections(markdown, doc.filename, title);
+  }
+
+  // PDFs and images need text extraction before they are searchable
+  return [];
+}
+
+/**
+ * Parse the stored analysis JSON (null for legacy plain-text analyses)
+ */
+function parseAnalysis(raw: string): DocumentAnalysis | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<DocumentAnalysis>;
+    return Array.isArray(parsed.sections) ? parsed as DocumentAnalysis : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Turn an analysis into sections
+ */
+function sectionsFromAnalysis(analysis: DocumentAnalysis, source: string): KnowledgeSection[] {
+  return analysis.sections
+    .filter(section => section.title && section.content?.trim())
+    .map(section => ({
+      title: section.title,
+      content: section.content.trim(),
+      keywords: extractKeywords(`${section.title} ${section.content}`),
+      source,
+    }));
+}
+
+/**
+ * Download a markdown document (cached by document id)
+ */
+async function fetchMarkdown(doc: DocumentRow, cache: Map<string, string>): Promise<string> {
+  const cached = cache.get(doc.id);
+  if (cached !== undefined) return cached;
+
+  const response = await fetch(doc.cloudinaryUrl, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Download failed with HTTP ${response.status}`);
+  }
+
+  const markdown = await response.text();
+  cache.set(doc.id, markdown);
+  return markdown;
+}
+
+/** "billing-guide_v2.md" → "Billing guide v2" */
+function titleFromFilename(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
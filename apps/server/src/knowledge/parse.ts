@@ -0,0 +1,87 @@
+/**
+ * Knowledge Parsing - Markdown → searchable sections
+ *
+ * Shared by the bundled demo knowledge base and the per-platform
+ * ingestion pipeline.
+ */
+
+/** Searchable knowledge section */
+export interface KnowledgeSection {
+  title: string;
+  content: string;
+  keywords: string[];
+  /** Where the section came from (document filename or "demo.md") */
+  source: string;
+}
+
+/**
+ * Parse markdown into searchable sections
+ *
+ * ## and ### headings start a new section. Text before the first heading
+ * (or a document without any headings) becomes a section titled
+ * `fallbackTitle`, so plain-text uploads are still searchable.
+ */
+export function parseMarkdownSections(markdown: string, source: string, fallbackTitle?: string): KnowledgeSection[] {
+  const sections: KnowledgeSection[] = [];
+  const lines = markdown.split('\n');
+
+  let currentTitle = fallbackTitle ?? '';
+  let currentContent: string[] = [];
+
+  const pushSection = () => {
+    const content = currentContent.join('\n').trim();
+    if (currentTitle && content.length > 0) {
+      sections.push({
+        title: currentTitle,
+        content,
+        keywords: extractKeywords(currentTitle + ' ' + content),
+        source,
+      });
+    }
+  };
+
+  for (const line of lines) {
+    // Match ## or ### headings as section boundaries
+    const headingMatch = line.match(/^#{2,3}\s+(.+)/);
+
+    if (headingMatch) {
+      // Save previous section
+      pushSection();
+      currentTitle = headingMatch[1].trim();
+      currentContent = [];
+    } else {
+      currentContent.push(line);
+    }
+  }
+
+  // Save last section
+  pushSection();
+
+  return sections;
+}
+
+/**
+ * Split text into lowercase search terms (duplicates kept, for term counts)
+ *
+ * Words are runs of Unicode letters and digits, so "préférences" or
+ * "Übersicht" stay whole. Accents on Latin letters are folded
+ * ("préférences" → "preferences") so queries typed without them still
+ * match; other scripts keep their marks, which can carry meaning.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/(\p{Script=Latin})\p{M}+/gu, '$1')
+    .normalize('NFC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(word => [...word].length > 2);
+}
+
+/**
+ * Extract searchable keywords from text
+ */
+export function extractKeywords(text: string): string[] {
+  return tokenize(text)
+    .filter((word, index, arr) => arr.indexOf(word) === index); // unique
+}
@@ -0,0 +1,262 @@
+/**
+ * Retrieval - Hybrid lexical + vector search over knowledge sections
+ *
+ * Each query is scored two ways:
+ * - Lexical: BM25 over section text (title terms weighted up), scaled by
+ *   how much of the query's vocabulary the section actually covers
+ * - Semantic: cosine similarity between query and section embeddings,
+ *   which catches synonyms ("invoice" vs "billing")
+ *
+ * The two are blended (noisy-OR, so a strong signal from either side is
+ * enough) into one 0–1 relevance score. Sections below the
+ * relevance cutoff are dropped instead of padding out the top results.
+ */
+
+import { tokenize, KnowledgeSection } from './parse.js';
+import { cosineSimilarity, getEmbeddingProvider, EmbeddingProvider } from './embeddings.js';
+
+/** A knowledge section with a stable id that can be cited */
+export interface IndexedSection extends KnowledgeSection {
+  /** "<source>#<title-slug>", suffixed with -2, -3… if repeated */
+  id: string;
+}
+
+/** Searchable index over one platform's corpus */
+export interface KnowledgeIndex {
+  sections: IndexedSection[];
+  /** Term counts per section */
+  termCounts: Array<Map<string, number>>;
+  /** Weighted term total per section */
+  lengths: number[];
+  averageLength: number;
+  /** Number of sections containing each term */
+  documentFrequency: Map<string, number>;
+  /** Section embeddings (null when no provider is configured or embedding failed) */
+  vectors: number[][] | null;
+  /** Provider the vectors were built with */
+  embedder: EmbeddingProvider | null;
+}
+
+/** One ranked search result */
+export interface RetrievalHit {
+  section: IndexedSection;
+  /** Blended relevance, 0–1 */
+  score: number;
+  lexical: number;
+  semantic: number;
+}
+
+export interface RetrievalOptions {
+  /** Max hits to return (default 3) */
+  limit?: number;
+  /** Relevance cutoff, 0–1 (default 0.3) */
+  minScore?: number;
+  /** Influence of lexical vs semantic matching when vectors exist, 0–1 (default 0.5) */
+  lexicalWeight?: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Title terms count this many times, so title hits rank first */
+const TITLE_WEIGHT = 3;
+
+const DEFAULT_LIMIT = 3;
+const DEFAULT_MIN_SCORE = 0.3;
+const DEFAULT_LEXICAL_WEIGHT = 0.5;
+
+/** Filler words that carry no meaning in support questions */
+const STOPWORDS = new Set([
+  // English
+  'the', 'and', 'for', 'how', 'what', 'where', 'when', 'why', 'who', 'can', 'could',
+  'does', 'did', 'are', 'was', 'you', 'your', 'this', 'that', 'with', 'from', 'into',
+  'there', 'their', 'they', 'have', 'has', 'want', 'need', 'would', 'should', 'about',
+  'please', 'help', 'some', 'any', 'all', 'out', 'get', 'use',
+  // Spanish
+  'como', 'que', 'donde', 'cuando', 'por', 'para', 'una', 'los', 'las', 'del', 'con',
+  'puedo', 'quiero', 'necesito', 'esto', 'ayuda', 'favor',
+  // French (accents already folded by tokenize)
+  'comment', 'quoi', 'est', 'les', 'des', 'une', 'pour', 'dans', 'avec', 'sur', 'mon',
+  'mes', 'peux', 'veux', 'faire', 'aide', 'cette',
+  // German
+  'wie', 'wann', 'der', 'die', 'das', 'und', 'ich', 'ein', 'eine', 'mit',
+  'kann', 'mochte', 'meine', 'mein', 'fur', 'hilfe', 'bitte',
+  // Italian
+  'come', 'cosa', 'dove', 'quando', 'per', 'gli', 'della', 'posso', 'voglio', 'aiuto',
+  // Portuguese
+  'onde', 'uma', 'dos', 'com', 'quero', 'preciso', 'ajuda',
+  // Dutch
+  'hoe', 'wat', 'waar', 'wanneer', 'het', 'een', 'van', 'met', 'voor', 'kan', 'wil', 'mijn',
+]);
+
+/**
+ * Build a search index, embedding every section with the active provider
+ *
+ * Embedding failures are logged and leave the index lexical-only.
+ */
+export async function buildKnowledgeIndex(
+  sections: KnowledgeSection[],
+  embedder: EmbeddingProvider | null = getEmbeddingProvider(),
+): Promise<KnowledgeIndex> {
+  const indexed = assignSectionIds(sections);
+
+  const termCounts: Array<Map<string, number>> = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const section of indexed) {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(section.title)) {
+      counts.set(term, (counts.get(term) ?? 0) + TITLE_WEIGHT);
+    }
+    for (const term of tokenize(section.content)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+
+    termCounts.push(counts);
+    lengths.push([...counts.values()].reduce((sum, n) => sum + n, 0));
+  }
+
+  const averageLength = lengths.length > 0
+    ? lengths.reduce((sum, n) => sum + n, 0) / lengths.length
+    : 0;
+
+  let vectors: number[][] | null = null;
+  if (embedder && indexed.length > 0) {
+    try {
+      vectors = await embedder.embed(indexed.map(s => `${s.title}\n${s.content}`), 'document');
+    } catch (error) {
+      console.error(`[Knowledge] Embedding ${indexed.length} sections failed, using lexical search only:`, error);
+    }
+  }
+
+  return {
+    sections: indexed,
+    termCounts,
+    lengths,
+    averageLength,
+    documentFrequency,
+    vectors,
+    embedder: vectors ? embedder : null,
+  };
+}
+
+/**
+ * Search an index
+ *
+ * Returns at most `limit` hits scoring at least `minScore`, best first.
+ */
+export async function searchKnowledgeIndex(
+  index: KnowledgeIndex,
+  query: string,
+  options: RetrievalOptions = {},
+): Promise<RetrievalHit[]> {
+  const {
+    limit = DEFAULT_LIMIT,
+    minScore = DEFAULT_MIN_SCORE,
+    lexicalWeight = DEFAULT_LEXICAL_WEIGHT,
+  } = options;
+
+  if (index.sections.length === 0) return [];
+
+  const lexical = scoreLexical(index, query);
+  const semantic = await scoreSemantic(index, query);
+
+  return index.sections
+    .map((section, i) => {
+      const sem = semantic?.[i] ?? 0;
+      const score = semantic
+        ? 1 - Math.pow(1 - lexical[i], 2 * lexicalWeight) * Math.pow(1 - sem, 2 * (1 - lexicalWeight))
+        : lexical[i];
+      return { section, score, lexical: lexical[i], semantic: sem };
+    })
+    .filter(hit => hit.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * BM25 per section, normalized to 0–1
+ *
+ * The raw score is divided by the best score for this query, then scaled
+ * by coverage — the IDF-weighted share of query terms the section
+ * contains — so a section matching one common word never scores high.
+ */
+function scoreLexical(index: KnowledgeIndex, query: string): number[] {
+  const terms = [...new Set(tokenize(query))].filter(term => !STOPWORDS.has(term));
+  const total = index.sections.length;
+  if (terms.length === 0) return index.sections.map(() => 0);
+
+  const idf = new Map(terms.map(term => {
+    const df = index.documentFrequency.get(term) ?? 0;
+    return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))];
+  }));
+  const idfTotal = [...idf.values()].reduce((sum, v) => sum + v, 0);
+
+  const raw = index.termCounts.map((counts, i) => {
+    let bm25 = 0;
+    let covered = 0;
+    for (const term of terms) {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) continue;
+      const termIdf = idf.get(term)!;
+      const norm = 1 - B + B * (index.lengths[i] / (index.averageLength || 1));
+      bm25 += termIdf * (tf * (K1 + 1)) / (tf + K1 * norm);
+      covered += termIdf;
+    }
+    return { bm25, coverage: idfTotal > 0 ? covered / idfTotal : 0 };
+  });
+
+  const best = Math.max(...raw.map(r => r.bm25));
+  if (best <= 0) return raw.map(() => 0);
+
+  return raw.map(r => (r.bm25 / best) * r.coverage);
+}
+
+/**
+ * Cosine similarity per section, rescaled so the provider's
+ * unrelated-text baseline maps to 0 (null when vectors are unavailable)
+ */
+async function scoreSemantic(index: KnowledgeIndex, query: string): Promise<number[] | null> {
+  const { vectors, embedder } = index;
+  if (!vectors || !embedder) return null;
+
+  let queryVector: number[];
+  try {
+    [queryVector] = await embedder.embed([query], 'query');
+  } catch (error) {
+    console.error('[Knowledge] Query embedding failed, using lexical search only:', error);
+    return null;
+  }
+
+  return vectors.map(vector => {
+    const similarity = cosineSimilarity(queryVector, vector);
+    return Math.max(0, (similarity - embedder.baseline) / (1 - embedder.baseline));
+  });
+}
+
+/**
+ * Give each section a stable, citable id
+ */
+function assignSectionIds(sections: KnowledgeSection[]): IndexedSection[] {
+  const seen = new Map<string, number>();
+
+  return sections.map(section => {
+    const base = `${section.source}#${slugify(section.title)}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return { ...section, id: count === 1 ? base : `${base}-${count}` };
+  });
+}
+
+/** "Export & Import (CSV)" → "export-import-csv" */
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '') || 'section';
+}
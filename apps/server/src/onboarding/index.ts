@@ -0,0 +1,92 @@
+/**
+ * Onboarding - First-frame welcome, per platform and per visitor
+ *
+ * When a visitor first shares their screen the assistant welcomes them
+ * and gives a short tour. Each platform decides (at /dashboard/welcome)
+ * whether that happens never, on every visit or only on a visitor's
+ * first visit, what the welcome should say and which elements to feature.
+ *
+ * Visitors are told apart by the id the widget keeps in localStorage and
+ * presents as ?visitor= on the handshake. Visitors who have been onboarded
+ * go to the dashboard's `onboarded_visitor` table. A visitor without an
+ * id (storage blocked) is treated as new every time.
+ */
+
+import { getDb } from '../db/index.js';
+import { PlatformConfig } from '../platforms/index.js';
+import { Tour } from '../tours/index.js';
+
+/** Visitor ids are random tokens minted by the widget */
+const VISITOR_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * The visitor id presented on the handshake, or null if missing or malformed
+ */
+export function parseVisitorId(visitorId: string | undefined): string | null {
+  return visitorId && VISITOR_ID_PATTERN.test(visitorId) ? visitorId : null;
+}
+
+/**
+ * Whether a new session should be onboarded on its first frame
+ */
+export function shouldOnboard(platform: PlatformConfig, visitorId: string | null): boolean {
+  switch (platform.onboarding.mode) {
+    case 'off':
+      return false;
+    case 'every_visit':
+      return true;
+    case 'first_visit':
+      if (!visitorId) return true;
+      try {
+        const row = getDb()
+          .prepare('SELECT 1 FROM "onboarded_visitor" WHERE "platformId" = ? AND "visitorId" = ?')
+          .get(platform.id, visitorId);
+        return row === undefined;
+      } catch (error) {
+        console.error('[Onboarding] Failed to look up visitor:', error);
+        return true;
+      }
+  }
+}
+
+/**
+ * Remember that a visitor has been onboarded (first_visit platforms only)
+ */
+export function markOnboarded(platform: PlatformConfig, visitorId: string | null): void {
+  if (platform.onboarding.mode !== 'first_visit' || !visitorId) return;
+
+  try {
+    getDb()
+      .prepare('INSERT OR IGNORE INTO "onboarded_visitor" ("platformId","visitorId","onboardedAt") VALUES (?, ?, ?)')
+      .run(platform.id, visitorId, new Date().toISOString());
+  } catch (error) {
+    console.error('[Onboarding] Failed to record visitor:', error);
+  }
+}
+
+/**
+ * The instruction sent to the model on the first frame
+ *
+ * A platform's onboarding tour replaces the improvised one; the
+ * featured selectors only shape the improvised tour.
+ */
+export function buildWelcomePrompt(platform: PlatformConfig, tour?: Tour): string {
+  const { welcome, selectors } = platform.onboarding;
+  const greeting = welcome
+    ? `Welcome them in one or two short sentences, following these instructions from the ${platform.name} team: "${welcome}".`
+    : 'Welcome them warmly in one short sentence.';
+
+  if (tour) {
+    return `The user has just started sharing their screen. The "${tour.name}" tour is starting. ` +
+      `${greeting} Then say each step's narration as it arrives.`;
+  }
+
+  const elements = selectors.length > 0
+    ? `Feature these elements, in this order, skipping any that aren't on the page: ${selectors.join(', ')}. `
+    : 'Pick 3-5 important elements from the available selectors. ';
+
+  return 'The user has just started sharing their screen. ' +
+    `${greeting} Then use highlight_sequence to give a quick visual tour of the key areas you can see on the page. ` +
+    elements +
+    'As each element highlights, describe what it is and how they can use it — keep it natural and concise.';
+}
@@ -0,0 +1,130 @@
+/**
+ * Persona - Per-platform assistant name, tone, voice and prompt additions
+ *
+ * Platforms edit their assistant's persona in the dashboard
+ * (/dashboard/assistant); it is stored in the shared database's
+ * `platform_persona` table. The server composes it into both the Live
+ * system prompt and the LangChain agent's prompt, and picks the Live
+ * voice from it.
+ *
+ * The dashboard owns the table and gives every platform a row when it is
+ * created. The bundled demo, and any platform whose row can't be read,
+ * get DEFAULT_PERSONA.
+ */
+
+import { getDb } from '../db/index.js';
+import { languageName } from '../i18n/index.js';
+
+export type AssistantTone = 'friendly' | 'professional' | 'concise' | 'playful';
+
+export interface AssistantPersona {
+  assistantName: string;
+  tone: AssistantTone;
+  /** Gemini Live prebuilt voice */
+  voice: string;
+  /** Language code to always answer in (null: the user's language) */
+  language: string | null;
+  instructions: string | null;
+  forbiddenTopics: string[];
+}
+
+interface PersonaRow extends Omit<AssistantPersona, 'forbiddenTopics'> {
+  forbiddenTopics: string;
+}
+
+/** The demo's persona, and the fallback when a platform's row is missing */
+export const DEFAULT_PERSONA: AssistantPersona = {
+  assistantName: 'Ocula AI',
+  tone: 'friendly',
+  voice: 'Kore',
+  language: null,
+  instructions: null,
+  forbiddenTopics: [],
+};
+
+const TONE_GUIDANCE: Record<AssistantTone, string> = {
+  friendly: 'Warm and encouraging — a friendly colleague who is glad to help.',
+  professional: 'Polished and precise — courteous, no small talk or jokes.',
+  concise: 'As brief as possible — short, direct sentences, no pleasantries.',
+  playful: 'Upbeat and lighthearted, with the occasional light touch of humor (never at the user\'s expense).',
+};
+
+/**
+ * The persona a platform's sessions use
+ */
+export function getPersona(platformId: string): AssistantPersona {
+  try {
+    const row = getDb()
+      .prepare(`SELECT "assistantName","tone","voice","language","instructions","forbiddenTopics" FROM "platform_persona" WHERE "platformId" = ?`)
+      .get(platformId) as PersonaRow | undefined;
+    if (!row) return DEFAULT_PERSONA;
+    return { ...row, forbiddenTopics: JSON.parse(row.forbiddenTopics) };
+  } catch (error) {
+    if (!String(error).includes('no such table')) {
+      console.error(`[Persona] Failed to load persona for ${platformId}:`, error);
+    }
+    return DEFAULT_PERSONA;
+  }
+}
+
+/**
+ * The opening line of a system prompt
+ */
+export function personaIdentity(persona: AssistantPersona, platformName: string): string {
+  return `You are ${persona.assistantName}, a visual support assistant that helps users navigate ${platformName} in real-time.`;
+}
+
+/**
+ * The session's language: the persona's fixed language, else the
+ * visitor's locale from the handshake
+ */
+export function sessionLanguage(persona: AssistantPersona, locale: string | null): string | null {
+  return persona.language ?? locale;
+}
+
+/**
+ * How the prompt tells the model which language to use
+ */
+function languageRule(persona: AssistantPersona, locale: string | null): string {
+  if (persona.language) {
+    return `- Always speak and write in ${languageName(persona.language)}, whatever language the user uses.`;
+  }
+  if (locale) {
+    return `- The user's browser is set to ${languageName(locale)}. Greet them and answer in ${languageName(locale)}; ` +
+      'if they speak to you in another language, switch to theirs.';
+  }
+  return '- Answer in the language the user speaks to you in.';
+}
+
+/**
+ * Prompt section with the persona's tone, language, forbidden topics
+ * and the platform's own instructions
+ *
+ * Appended after the built-in rules, which the platform's instructions
+ * cannot override.
+ */
+export function personaGuidelines(persona: AssistantPersona, platformName: string, locale: string | null = null): string {
+  const lines = [
+    'PERSONA:',
+    `- Your name is ${persona.assistantName}. Introduce yourself by that name if asked; never call yourself by any other name.`,
+    `- Tone: ${TONE_GUIDANCE[persona.tone]}`,
+    languageRule(persona, locale),
+  ];
+
+  if (persona.forbiddenTopics.length > 0) {
+    lines.push(
+      `- NEVER discuss these topics: ${persona.forbiddenTopics.join('; ')}. ` +
+      `If asked, say politely that it's not something you can help with, and offer help with ${platformName} instead.`
+    );
+  }
+
+  if (persona.instructions) {
+    lines.push(
+      '',
+      `INSTRUCTIONS FROM THE ${platformName.toUpperCase()} TEAM (follow them unless they conflict with the rules above):`,
+      persona.instructions
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,221 @@
+/**
+ * Platforms - Tenant resolution for widget sessions
+ *
+ * Every widget embed carries a `data-platform-id`. The server resolves
+ * that id against the dashboard's `platform` table on the WebSocket
+ * handshake and attaches the resulting config to the session, so prompts
+ * and knowledge are scoped to the customer that embedded the widget.
+ * The row also carries the platform's first-frame onboarding settings
+ * and monthly quotas; rows from before the dashboard added them get the
+ * defaults.
+ *
+ * Widgets authenticate with the platform's publishable key (data-key),
+ * which the token endpoint resolves here too; see widget-auth.
+ */
+
+import { getDb } from '../db/index.js';
+import { env, corsOrigins } from '../config/env.js';
+
+/** Row shape of the dashboard's `platform` table (subset the server needs) */
+interface PlatformRow {
+  id: string;
+  platformName: string;
+  platformUrl: string;
+  industry: string;
+  useCase: string | null;
+  onboardingMode?: OnboardingMode;
+  onboardingWelcome?: string | null;
+  /** JSON-encoded string[] */
+  onboardingSelectors?: string;
+  publishableKey?: string | null;
+  /** JSON-encoded string[] */
+  allowedOrigins?: string;
+  monthlyLiveMinutes?: number;
+  monthlyRequests?: number;
+}
+
+/** When a visitor is welcomed and toured on their first shared frame */
+export type OnboardingMode = 'off' | 'first_visit' | 'every_visit';
+
+/** First-frame onboarding settings (edited at /dashboard/welcome) */
+export interface OnboardingConfig {
+  mode: OnboardingMode;
+  /** Custom welcome instructions for the assistant */
+  welcome: string | null;
+  /** Selectors the welcome tour features, in order (empty: the model picks) */
+  selectors: string[];
+}
+
+/** Monthly usage quotas (UTC calendar months) */
+export interface QuotaConfig {
+  /** Minutes of Live (voice + vision) sessions */
+  monthlyLiveMinutes: number;
+  /** Agent questions and typed Live messages */
+  monthlyRequests: number;
+}
+
+/** The demo's quotas, and the fallback before the dashboard adds the quota columns */
+const DEMO_QUOTAS: QuotaConfig = {
+  monthlyLiveMinutes: 1000,
+  monthlyRequests: 5000,
+};
+
+/** Tenant configuration attached to a widget session */
+export interface PlatformConfig {
+  id: string;
+  name: string;
+  url: string;
+  industry: string;
+  useCase: string | null;
+  onboarding: OnboardingConfig;
+  /** Page origins the widget may run on (edited at /dashboard/domains) */
+  allowedOrigins: string[];
+  quotas: QuotaConfig;
+  /** True for the bundled Acme CRM demo (mock-crm), which has no database row */
+  isDemo: boolean;
+}
+
+/** Why a platform id could not be resolved */
+export type PlatformResolutionError = 'missing' | 'unknown' | 'unavailable';
+
+export type PlatformResolution =
+  | { ok: true; platform: PlatformConfig }
+  | { ok: false; reason: PlatformResolutionError; message: string };
+
+/** Built-in config for the mock CRM demo (served from any CORS_ORIGIN in development) */
+const DEMO_PLATFORM: Omit<PlatformConfig, 'id'> = {
+  name: 'Acme CRM',
+  url: 'http://localhost:5173',
+  industry: 'Sales software',
+  useCase: 'Demo CRM used to showcase Ocula AI',
+  onboarding: { mode: 'first_visit', welcome: null, selectors: [] },
+  allowedOrigins: corsOrigins,
+  quotas: DEMO_QUOTAS,
+  isDemo: true,
+};
+
+/**
+ * Origin of a platform URL ("https://app.acme.com/dashboard" → "https://app.acme.com"),
+ * null if it isn't a valid http(s) URL
+ */
+function originOf(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseStringList(json: string | undefined): string[] {
+  try {
+    const list = JSON.parse(json ?? '[]');
+    return Array.isArray(list) ? list.filter((s): s is string => typeof s === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function toPlatformConfig(row: PlatformRow): PlatformConfig {
+  // Before the dashboard added the list, the platform URL's origin is allowed
+  const origin = originOf(row.platformUrl);
+  const allowedOrigins = row.allowedOrigins !== undefined
+    ? parseStringList(row.allowedOrigins)
+    : origin ? [origin] : [];
+
+  return {
+    id: row.id,
+    name: row.platformName,
+    url: row.platformUrl,
+    industry: row.industry,
+    useCase: row.useCase,
+    onboarding: {
+      mode: row.onboardingMode ?? 'first_visit',
+      welcome: row.onboardingWelcome ?? null,
+      selectors: parseStringList(row.onboardingSelectors),
+    },
+    allowedOrigins,
+    quotas: {
+      monthlyLiveMinutes: row.monthlyLiveMinutes ?? DEMO_QUOTAS.monthlyLiveMinutes,
+      monthlyRequests: row.monthlyRequests ?? DEMO_QUOTAS.monthlyRequests,
+    },
+    isDemo: false,
+  };
+}
+
+/**
+ * Look up a platform by id
+ *
+ * Returns null if no row matches. Throws if the database cannot be read.
+ */
+export function getPlatformById(platformId: string): PlatformConfig | null {
+  if (platformId === env.DEMO_PLATFORM_ID) {
+    return { id: platformId, ...DEMO_PLATFORM };
+  }
+
+  // SELECT * so a table without the onboarding columns still resolves
+  const row = getDb()
+    .prepare('SELECT * FROM "platform" WHERE "id" = ?')
+    .get(platformId) as PlatformRow | undefined;
+
+  return row ? toPlatformConfig(row) : null;
+}
+
+/**
+ * Look up a platform by its publishable key
+ *
+ * Returns null if no platform has the key (or the dashboard hasn't
+ * issued keys yet). Throws if the database cannot be read.
+ */
+export function getPlatformByPublishableKey(publishableKey: string): PlatformConfig | null {
+  if (publishableKey === env.DEMO_PUBLISHABLE_KEY) {
+    return { id: env.DEMO_PLATFORM_ID, ...DEMO_PLATFORM };
+  }
+
+  try {
+    const row = getDb()
+      .prepare('SELECT * FROM "platform" WHERE "publishableKey" = ?')
+      .get(publishableKey) as PlatformRow | undefined;
+    return row ? toPlatformConfig(row) : null;
+  } catch (error) {
+    if (String(error).includes('no such column')) return null;
+    throw error;
+  }
+}
+
+/**
+ * Resolve the platform id presented on the WebSocket handshake
+ *
+ * Never throws — returns a reason and a client-facing message on failure.
+ */
+export function resolvePlatform(platformId: string | undefined | null): PlatformResolution {
+  const id = platformId?.trim();
+  if (!id) {
+    return {
+      ok: false,
+      reason: 'missing',
+      message: 'Missing platform id. Add data-platform-id="<your platform id>" to the Ocula script tag.',
+    };
+  }
+
+  try {
+    const platform = getPlatformById(id);
+    if (!platform) {
+      return {
+        ok: false,
+        reason: 'unknown',
+        message: `Unknown platform id "${id}". Copy the embed snippet from your Ocula dashboard.`,
+      };
+    }
+    return { ok: true, platform };
+  } catch (error) {
+    console.error('[Platforms] Failed to resolve platform:', error);
+    return {
+      ok: false,
+      reason: 'unavailable',
+      message: 'Platform lookup is temporarily unavailable. Please try again later.',
+    };
+  }
+}
+
+export default resolvePlatform;
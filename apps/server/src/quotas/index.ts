@@ -0,0 +1,326 @@
+/**
+ * Quotas - Rate limits and monthly usage quotas per platform and per socket
+ *
+ * Everything a widget sends costs Gemini budget, so each session is held
+ * to three kinds of limit:
+ *
+ * - Token buckets for frames, audio chunks and requests (user_query and
+ *   Live text), one set per socket and one shared by all of a platform's
+ *   sockets. Over the limit, the message is dropped.
+ * - A cap on concurrent Live sessions per platform.
+ * - Monthly quotas of Live minutes and requests, set per platform in the
+ *   dashboard's `platform` table and counted in its `platform_usage`
+ *   table (UTC calendar months). The dashboard shows the current
+ *   month's usage.
+ *   Requests are counted in memory and written once a minute, so
+ *   admitting one never touches the database.
+ *
+ * Violations come back as a QuotaViolation with a code the server sends
+ * to the client in an `error` message. Usage write failures are logged
+ * and never interrupt the session.
+ */
+
+import { getDb } from '../db/index.js';
+import { env } from '../config/env.js';
+import { PlatformConfig } from '../platforms/index.js';
+
+/** Client messages that are rate limited */
+export type LimitedMessage = 'frame' | 'audio' | 'request';
+
+export type QuotaCode =
+  | 'rate_limited_frames'
+  | 'rate_limited_audio'
+  | 'rate_limited_requests'
+  | 'quota_live_sessions'
+  | 'quota_monthly_minutes'
+  | 'quota_monthly_requests';
+
+export interface QuotaViolation {
+  code: QuotaCode;
+  message: string;
+}
+
+/** Bucket sizes (burst) and refill rates (per second) */
+const SOCKET_LIMITS: Record<LimitedMessage, { capacity: number; refillPerSecond: number }> = {
+  // The widget streams one frame a second by default
+  frame: { capacity: 5, refillPerSecond: 2 },
+  // ~12 chunks/s from a 48 kHz mic with 4096-sample buffers
+  audio: { capacity: 40, refillPerSecond: 20 },
+  request: { capacity: 5, refillPerSecond: 10 / 60 },
+};
+
+const PLATFORM_LIMITS: Record<LimitedMessage, { capacity: number; refillPerSecond: number }> = {
+  frame: { capacity: 100, refillPerSecond: 50 },
+  audio: { capacity: 1000, refillPerSecond: 500 },
+  request: { capacity: 60, refillPerSecond: 2 },
+};
+
+const RATE_LIMIT_CODES: Record<LimitedMessage, QuotaCode> = {
+  frame: 'rate_limited_frames',
+  audio: 'rate_limited_audio',
+  request: 'rate_limited_requests',
+};
+
+const RATE_LIMIT_MESSAGES: Record<LimitedMessage, string> = {
+  frame: 'Screen frames are arriving too fast; some were skipped.',
+  audio: 'Audio is arriving too fast; some was skipped.',
+  request: 'Too many questions in a short time. Please wait a moment and try again.',
+};
+
+/** How often a Live session's minutes are written and checked */
+const LIVE_METER_INTERVAL_MS = 60_000;
+
+/** The same violation is reported to a client at most this often */
+const NOTIFY_INTERVAL_MS = 30_000;
+
+/**
+ * Token bucket: holds up to `capacity` tokens, refilled continuously
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Whether a token is available, without taking it */
+  peek(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+    return this.tokens >= 1;
+  }
+
+  /** Take one token if there is one */
+  take(): boolean {
+    if (!this.peek()) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+type Buckets = Record<LimitedMessage, TokenBucket>;
+
+function createBuckets(limits: typeof SOCKET_LIMITS): Buckets {
+  return {
+    frame: new TokenBucket(limits.frame.capacity, limits.frame.refillPerSecond),
+    audio: new TokenBucket(limits.audio.capacity, limits.audio.refillPerSecond),
+    request: new TokenBucket(limits.request.capacity, limits.request.refillPerSecond),
+  };
+}
+
+// Shared by all of a platform's sockets
+const platformBuckets = new Map<string, Buckets>();
+
+// Live sessions open per platform
+const liveSessionCounts = new Map<string, number>();
+
+// ── Monthly usage ────────────────────────────────────────────────────
+
+/** UTC calendar month, YYYY-MM */
+function currentMonth(): string {
+  return new Date().toISOString().slice(0, 7);
+}
+
+/**
+ * The platform's usage so far this month (zero if it can't be read)
+ */
+export function getMonthlyUsage(platformId: string): { liveSeconds: number; requests: number } {
+  try {
+    const row = getDb()
+      .prepare('SELECT "liveSeconds", "requests" FROM "platform_usage" WHERE "platformId" = ? AND "month" = ?')
+      .get(platformId, currentMonth()) as { liveSeconds: number; requests: number } | undefined;
+    return row ?? { liveSeconds: 0, requests: 0 };
+  } catch (error) {
+    console.error(`[Quotas] Failed to read usage for ${platformId}:`, error);
+    return { liveSeconds: 0, requests: 0 };
+  }
+}
+
+function addUsage(platformId: string, month: string, liveSeconds: number, requests: number): void {
+  try {
+    getDb()
+      .prepare(
+        `INSERT INTO "platform_usage" ("platformId","month","liveSeconds","requests") VALUES (?, ?, ?, ?)
+         ON CONFLICT ("platformId", "month") DO UPDATE SET
+           "liveSeconds" = "liveSeconds" + excluded."liveSeconds",
+           "requests" = "requests" + excluded."requests"`
+      )
+      .run(platformId, month, liveSeconds, requests);
+  } catch (error) {
+    console.error(`[Quotas] Failed to record usage for ${platformId}:`, error);
+  }
+}
+
+// Requests this month per platform: the stored count plus those not yet written
+const requestCounts = new Map<string, { month: string; stored: number; pending: number }>();
+let requestFlushTimer: NodeJS.Timeout | null = null;
+
+/**
+ * The platform's request count this month, read from the database only
+ * when its month starts (or after a flush)
+ */
+function requestCount(platformId: string): { month: string; stored: number; pending: number } {
+  const month = currentMonth();
+  let count = requestCounts.get(platformId);
+  if (count?.month === month) return count;
+
+  // A new month: write what's left of the old one first
+  if (count?.pending) addUsage(platformId, count.month, 0, count.pending);
+  count = { month, stored: getMonthlyUsage(platformId).requests, pending: 0 };
+  requestCounts.set(platformId, count);
+
+  if (!requestFlushTimer) {
+    requestFlushTimer = setInterval(flushUsage, LIVE_METER_INTERVAL_MS);
+    requestFlushTimer.unref();
+  }
+  return count;
+}
+
+/**
+ * Write the request counts not yet stored (also called on shutdown)
+ */
+export function flushUsage(): void {
+  for (const [platformId, count] of requestCounts) {
+    if (count.pending === 0) continue;
+    addUsage(platformId, count.month, 0, count.pending);
+    count.pending = 0;
+    // Pick up requests other server processes have written
+    if (count.month === currentMonth()) {
+      count.stored = getMonthlyUsage(platformId).requests;
+    }
+  }
+}
+
+function minutesExhausted(platform: PlatformConfig): QuotaViolation | null {
+  const { liveSeconds } = getMonthlyUsage(platform.id);
+  return liveSeconds >= platform.quotas.monthlyLiveMinutes * 60
+    ? { code: 'quota_monthly_minutes', message: 'Voice and screen sharing are unavailable: this month\'s live minutes are used up.' }
+    : null;
+}
+
+// ── Per-session limits ───────────────────────────────────────────────
+
+/**
+ * SessionQuota - Limits and usage metering for one widget session
+ */
+export class SessionQuota {
+  private readonly buckets = createBuckets(SOCKET_LIMITS);
+  private readonly sharedBuckets: Buckets;
+  private liveStartedAt: number | null = null;
+  private liveTimer: NodeJS.Timeout | null = null;
+  private readonly notifiedAt = new Map<QuotaCode, number>();
+
+  constructor(private readonly platform: PlatformConfig) {
+    let shared = platformBuckets.get(platform.id);
+    if (!shared) {
+      shared = createBuckets(PLATFORM_LIMITS);
+      platformBuckets.set(platform.id, shared);
+    }
+    this.sharedBuckets = shared;
+  }
+
+  /**
+   * Admit a client message, or say why it was dropped
+   *
+   * Admitted requests count toward the monthly request quota.
+   */
+  admit(kind: LimitedMessage): QuotaViolation | null {
+    // A message refused by either bucket costs neither a token
+    if (!this.buckets[kind].peek() || !this.sharedBuckets[kind].peek()) {
+      return { code: RATE_LIMIT_CODES[kind], message: RATE_LIMIT_MESSAGES[kind] };
+    }
+
+    let count: { stored: number; pending: number } | null = null;
+    if (kind === 'request') {
+      count = requestCount(this.platform.id);
+      if (count.stored + count.pending >= this.platform.quotas.monthlyRequests) {
+        return { code: 'quota_monthly_requests', message: 'The assistant is unavailable: this month\'s request quota is used up.' };
+      }
+    }
+
+    this.buckets[kind].take();
+    this.sharedBuckets[kind].take();
+    if (count) count.pending += 1;
+    return null;
+  }
+
+  /**
+   * Claim a Live session slot and start metering its minutes
+   *
+   * `onExhausted` is called if the month's minutes run out while it is
+   * open; the caller then closes it (and calls stopLive).
+   */
+  startLive(onExhausted: (violation: QuotaViolation) => void): QuotaViolation | null {
+    if (this.liveStartedAt !== null) return null;
+
+    const exhausted = minutesExhausted(this.platform);
+    if (exhausted) return exhausted;
+
+    const open = liveSessionCounts.get(this.platform.id) ?? 0;
+    if (open >= env.MAX_LIVE_SESSIONS_PER_PLATFORM) {
+      return { code: 'quota_live_sessions', message: 'Voice is busy right now: too many live sessions are open. Please try again shortly.' };
+    }
+    liveSessionCounts.set(this.platform.id, open + 1);
+
+    this.liveStartedAt = Date.now();
+    this.liveTimer = setInterval(() => {
+      this.meterLive();
+      const violation = minutesExhausted(this.platform);
+      if (violation) onExhausted(violation);
+    }, LIVE_METER_INTERVAL_MS);
+    this.liveTimer.unref();
+    return null;
+  }
+
+  /**
+   * Release the Live session slot and record its remaining minutes
+   * (safe to call more than once)
+   */
+  stopLive(): void {
+    if (this.liveStartedAt === null) return;
+    this.meterLive();
+    this.liveStartedAt = null;
+    if (this.liveTimer) clearInterval(this.liveTimer);
+    this.liveTimer = null;
+
+    const open = liveSessionCounts.get(this.platform.id) ?? 1;
+    if (open <= 1) {
+      liveSessionCounts.delete(this.platform.id);
+    } else {
+      liveSessionCounts.set(this.platform.id, open - 1);
+    }
+  }
+
+  /**
+   * Whether to tell the client about a violation (not more than once per
+   * code every 30 seconds, so dropped frames don't flood the chat)
+   */
+  shouldNotify(code: QuotaCode): boolean {
+    const now = Date.now();
+    if (now - (this.notifiedAt.get(code) ?? 0) < NOTIFY_INTERVAL_MS) return false;
+    this.notifiedAt.set(code, now);
+    return true;
+  }
+
+  /** Write the Live time since the last write */
+  private meterLive(): void {
+    if (this.liveStartedAt === null) return;
+    const now = Date.now();
+    const seconds = Math.round((now - this.liveStartedAt) / 1000);
+    if (seconds <= 0) return;
+    addUsage(this.platform.id, currentMonth(), seconds, 0);
+    this.liveStartedAt += seconds * 1000;
+  }
+}
+
+/**
+ * Create the quota tracker for a new widget session
+ */
+export function createSessionQuota(platform: PlatformConfig): SessionQuota {
+  return new SessionQuota(platform);
+}
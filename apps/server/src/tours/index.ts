@@ -0,0 +1,77 @@
+/**
+ * Tours - Author-defined product tours
+ *
+ * Tours are scripted in the dashboard (/dashboard/tours) and stored in
+ * the shared database's `platform_tour` table: named steps with a
+ * selector, label, narration and the condition that moves the tour on.
+ * The server plays them as guided tasks and has the assistant speak each
+ * step's narration word for word. A platform can mark one tour as its
+ * onboarding tour, played when a visitor first shares their screen.
+ *
+ * The dashboard owns the table; before it exists there are no tours.
+ */
+
+import { getDb } from '../db/index.js';
+
+/** What moves a tour on ('delay' auto-advances after delay_ms) */
+export type TourWaitFor = 'click' | 'url_change' | 'element_visible' | 'input_value' | 'delay';
+
+/** One tour step (validated by the dashboard's /api/tours) */
+export interface TourStep {
+  selector: string;
+  label: string;
+  /** What the assistant says at this step */
+  narration: string;
+  wait_for: TourWaitFor;
+  target?: string;
+  value?: string;
+  delay_ms?: number;
+}
+
+export interface Tour {
+  id: string;
+  name: string;
+  description: string | null;
+  steps: TourStep[];
+  isOnboarding: boolean;
+}
+
+interface TourRow {
+  id: string;
+  name: string;
+  description: string | null;
+  steps: string;
+  isOnboarding: number;
+}
+
+/**
+ * All tours of a platform, by name
+ */
+export function getTours(platformId: string): Tour[] {
+  try {
+    const rows = getDb()
+      .prepare(`SELECT "id","name","description","steps","isOnboarding" FROM "platform_tour" WHERE "platformId" = ? ORDER BY "name"`)
+      .all(platformId) as TourRow[];
+    return rows.map(row => ({ ...row, steps: JSON.parse(row.steps), isOnboarding: row.isOnboarding === 1 }));
+  } catch (error) {
+    if (!String(error).includes('no such table')) {
+      console.error(`[Tours] Failed to load tours for ${platformId}:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Find a tour by name (case-insensitive) or id
+ */
+export function findTour(platformId: string, nameOrId: string): Tour | undefined {
+  const wanted = nameOrId.trim().toLowerCase();
+  return getTours(platformId).find(tour => tour.id === nameOrId || tour.name.toLowerCase() === wanted);
+}
+
+/**
+ * The tour to play when a visitor first shares their screen, if any
+ */
+export function getOnboardingTour(platformId: string): Tour | undefined {
+  return getTours(platformId).find(tour => tour.isOnboarding);
+}
@@ -0,0 +1,143 @@
+/**
+ * Transcripts - Per-session conversation records
+ *
+ * Captures everything said in a widget session so support leads can
+ * review it from the dashboard:
+ * - User input: typed text, transcribed speech, agent queries
+ * - Assistant output: spoken responses (output transcription), agent replies
+ * - Every Live tool call with its arguments and result
+ *
+ * Streaming transcription chunks are merged into one entry per turn.
+ * Entries go to the shared database's `transcript_entry` table, which
+ * the dashboard creates (apps/web/src/lib/db.ts). Write failures are
+ * logged and never interrupt the session.
+ */
+
+import { getDb } from '../db/index.js';
+
+/** Who produced an entry */
+export type TranscriptRole = 'user' | 'assistant' | 'tool';
+
+/** How the entry was produced */
+export type TranscriptKind = 'speech' | 'text' | 'tool_call';
+
+/** Row written to `transcript_entry` */
+interface TranscriptEntryInput {
+  role: TranscriptRole;
+  kind: TranscriptKind;
+  content: string;
+  toolName?: string;
+  toolArgs?: unknown;
+  toolResult?: unknown;
+}
+
+/** Tool results longer than this are truncated before storage */
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+/**
+ * Serialize a tool payload for storage
+ */
+function toJson(value: unknown, maxChars?: number): string | null {
+  if (value === undefined) return null;
+  const json = JSON.stringify(value);
+  if (maxChars && json.length > maxChars) {
+    return JSON.stringify({ truncated: true, preview: json.slice(0, maxChars) });
+  }
+  return json;
+}
+
+/**
+ * TranscriptRecorder - Buffers and writes one session's transcript
+ */
+export class TranscriptRecorder {
+  /** Speech chunks of the turn in progress */
+  private pendingSpeech: { role: 'user' | 'assistant'; text: string } | null = null;
+
+  constructor(
+    private readonly sessionId: string,
+    private readonly platformId: string,
+  ) {}
+
+  /**
+   * Add a streamed speech transcription chunk
+   *
+   * Chunks accumulate until the speaker changes or the turn completes.
+   */
+  appendSpeech(role: 'user' | 'assistant', chunk: string): void {
+    if (this.pendingSpeech && this.pendingSpeech.role !== role) {
+      this.flush();
+    }
+    if (!this.pendingSpeech) {
+      this.pendingSpeech = { role, text: '' };
+    }
+    this.pendingSpeech.text += chunk;
+  }
+
+  /**
+   * Record a complete text message (typed input, agent query or reply)
+   */
+  recordText(role: 'user' | 'assistant', text: string): void {
+    this.flush();
+    this.write({ role, kind: 'text', content: text });
+  }
+
+  /**
+   * Record a Live tool call with its arguments and result
+   */
+  recordToolCall(name: string, args: unknown, result: unknown): void {
+    this.flush();
+    this.write({
+      role: 'tool',
+      kind: 'tool_call',
+      content: name,
+      toolName: name,
+      toolArgs: args,
+      toolResult: result,
+    });
+  }
+
+  /**
+   * Write any buffered speech (on turn complete and session end)
+   */
+  flush(): void {
+    const speech = this.pendingSpeech;
+    this.pendingSpeech = null;
+
+    const content = speech?.text.trim();
+    if (speech && content) {
+      this.write({ role: speech.role, kind: 'speech', content });
+    }
+  }
+
+  private write(entry: TranscriptEntryInput): void {
+    try {
+      getDb()
+        .prepare(`
+          INSERT INTO "transcript_entry" ("sessionId","platformId","role","kind","content","toolName","toolArgs","toolResult","createdAt")
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .run(
+          this.sessionId,
+          this.platformId,
+          entry.role,
+          entry.kind,
+          entry.content,
+          entry.toolName ?? null,
+          toJson(entry.toolArgs),
+          toJson(entry.toolResult, MAX_TOOL_RESULT_CHARS),
+          new Date().toISOString(),
+        );
+    } catch (error) {
+      console.error(`[Transcripts] Failed to record ${entry.kind} for ${this.sessionId}:`, error);
+    }
+  }
+}
+
+/**
+ * Create a recorder for a session
+ */
+export function createTranscriptRecorder(sessionId: string, platformId: string): TranscriptRecorder {
+  return new TranscriptRecorder(sessionId, platformId);
+}
+
+export default createTranscriptRecorder;
@@ -0,0 +1,124 @@
+/**
+ * Verification - Did the user do what the guidance asked?
+ *
+ * The "Observe" step of Think-Act-Observe. When a highlight that asks for
+ * an action (the tool call's `expect_action`) renders, the frame on screen
+ * at that moment is kept as the "before" image. Later frames are compared
+ * against it with AgenticVision.compareScreens, at most every few seconds,
+ * until the screen changes because of the action or the step times out.
+ * The verdict goes back to the caller, which relays it to the Live model.
+ */
+
+import { getAgenticVision } from '../gemini/vision.js';
+
+/** Minimum gap between two screen comparisons */
+const CHECK_INTERVAL_MS = 3000;
+
+/** How long to wait for the user before reporting the step as not done */
+const STEP_TIMEOUT_MS = 30000;
+
+/** Guidance step being watched */
+export interface ExpectedAction {
+  /** What the user was asked to do (e.g. "click Export") */
+  action: string;
+  /** Selector (or shape) that was highlighted for it */
+  selector: string;
+}
+
+/** Outcome of watching one step */
+export interface VerificationVerdict {
+  expected: ExpectedAction;
+  completed: boolean;
+  /** What changed on screen (empty when nothing did) */
+  changes: string[];
+  /** Description of the screen as of the last comparison */
+  currentPage: string;
+}
+
+/**
+ * ActionVerifier - Watches one guidance step at a time
+ */
+export class ActionVerifier {
+  private expected: ExpectedAction | null = null;
+  private beforeFrame: string | null = null;
+  private startedAt = 0;
+  private lastCheckAt = 0;
+  private lastPage = 'Unknown';
+  private checking = false;
+  /** Bumped on every expect/cancel so stale comparisons are dropped */
+  private generation = 0;
+
+  /**
+   * Start watching for an action (replaces any step still being watched)
+   */
+  expect(expected: ExpectedAction, beforeFrame: string): void {
+    this.generation++;
+    this.expected = expected;
+    this.beforeFrame = beforeFrame;
+    this.startedAt = Date.now();
+    this.lastCheckAt = this.startedAt;
+    this.lastPage = 'Unknown';
+  }
+
+  /** Stop watching (guidance cleared or replaced, session ended) */
+  cancel(): void {
+    this.generation++;
+    this.expected = null;
+    this.beforeFrame = null;
+  }
+
+  isWatching(): boolean {
+    return this.expected !== null;
+  }
+
+  /**
+   * Check a new frame against the before frame
+   *
+   * Resolves with a verdict once the step is done or timed out, otherwise
+   * with null (also while a comparison is already running or too recent).
+   */
+  async observe(frame: string): Promise<VerificationVerdict | null> {
+    const expected = this.expected;
+    const beforeFrame = this.beforeFrame;
+    if (!expected || !beforeFrame || this.checking) return null;
+
+    const now = Date.now();
+    if (now - this.startedAt > STEP_TIMEOUT_MS) {
+      this.cancel();
+      return { expected, completed: false, changes: [], currentPage: this.lastPage };
+    }
+    if (frame === beforeFrame || now - this.lastCheckAt < CHECK_INTERVAL_MS) return null;
+
+    this.lastCheckAt = now;
+    this.checking = true;
+    const generation = this.generation;
+    try {
+      const result = await getAgenticVision().compareScreens({
+        frameBefore: beforeFrame,
+        frameAfter: frame,
+        query: `The user was asked to: "${expected.action}". Compare the screen before (first image) and after (second image). ` +
+          'Set "changed" to true ONLY if the second screen shows that this action was carried out ' +
+          '(a page, modal, menu or form state that results from it). Ignore highlight borders, arrows, labels, ' +
+          'cursor movement, scrolling and animations.',
+      });
+      if (generation !== this.generation) return null;
+
+      this.lastPage = result.currentPage;
+      if (!result.changed) return null;
+
+      this.cancel();
+      return { expected, completed: true, changes: result.changes, currentPage: result.currentPage };
+    } finally {
+      this.checking = false;
+    }
+  }
+}
+
+/**
+ * Create a verifier for a session
+ */
+export function createActionVerifier(): ActionVerifier {
+  return new ActionVerifier();
+}
+
+export default createActionVerifier;
@@ -0,0 +1,127 @@
+/**
+ * Widget Auth - Publishable keys and short-lived widget tokens
+ *
+ * The /ws endpoint is public, and CORS does not apply to WebSockets, so
+ * the server authenticates each connection itself:
+ *
+ * 1. The dashboard issues each platform a publishable key (pk_…), which
+ *    goes in the embed snippet as data-key. It identifies the platform
+ *    but is not a secret; on its own it grants nothing.
+ * 2. Before connecting, the widget exchanges it at GET /token?key=… for a
+ *    signed token bound to the platform and the page's Origin, valid for
+ *    WIDGET_TOKEN_TTL_SECONDS. Only pages on the platform's allowed
+ *    origins get one.
+ * 3. The /ws handshake presents it as ?token=. The server checks the
+ *    signature, expiry, platform and Origin before creating a Live session.
+ *
+ * Tokens are `<payload>.<signature>`: base64url JSON and an HMAC-SHA256
+ * of it under WIDGET_TOKEN_SECRET.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { env } from '../config/env.js';
+import { PlatformConfig } from '../platforms/index.js';
+
+interface WidgetTokenPayload {
+  /** Platform id */
+  pid: string;
+  /** Page origin the token was issued to */
+  origin: string;
+  /** Expiry (unix seconds) */
+  exp: number;
+}
+
+/** Why a handshake token was rejected */
+export type WidgetTokenError = 'missing' | 'invalid' | 'expired' | 'platform_mismatch' | 'origin_mismatch';
+
+export type WidgetTokenVerification =
+  | { ok: true }
+  | { ok: false; reason: WidgetTokenError; message: string };
+
+const secret = env.WIDGET_TOKEN_SECRET ?? randomBytes(32).toString('hex');
+
+if (!env.WIDGET_TOKEN_SECRET) {
+  console.warn('⚠️ WIDGET_TOKEN_SECRET not set. Using a random secret; widget tokens won\'t survive a restart.');
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Whether a page origin may run a platform's widget
+ */
+export function isOriginAllowed(platform: PlatformConfig, origin: string | undefined): boolean {
+  return !!origin && platform.allowedOrigins.includes(origin);
+}
+
+/**
+ * Mint a token for a widget on `origin` (which the caller has checked)
+ */
+export function issueWidgetToken(platform: PlatformConfig, origin: string): { token: string; expiresAt: string } {
+  const exp = Math.floor(Date.now() / 1000) + env.WIDGET_TOKEN_TTL_SECONDS;
+  const payload: WidgetTokenPayload = { pid: platform.id, origin, exp };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return {
+    token: `${encoded}.${sign(encoded)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Decode a token whose signature checks out, or null
+ */
+function decodeWidgetToken(token: string): WidgetTokenPayload | null {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+    if (typeof payload.pid !== 'string' || typeof payload.origin !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check the token presented on a /ws handshake
+ *
+ * The token must be current, issued for this platform and to the Origin
+ * the upgrade request came from, and that origin must still be allowed.
+ * Never throws — returns a reason and a client-facing message on failure.
+ */
+export function verifyWidgetToken(
+  token: string | undefined,
+  platform: PlatformConfig,
+  origin: string | undefined
+): WidgetTokenVerification {
+  if (!token) {
+    return {
+      ok: false,
+      reason: 'missing',
+      message: 'Missing widget token. Add data-key="<your publishable key>" to the Ocula script tag.',
+    };
+  }
+
+  const payload = decodeWidgetToken(token);
+  if (!payload) {
+    return { ok: false, reason: 'invalid', message: 'Invalid widget token.' };
+  }
+  if (payload.exp * 1000 <= Date.now()) {
+    return { ok: false, reason: 'expired', message: 'Widget token expired. Reconnect to get a new one.' };
+  }
+  if (payload.pid !== platform.id) {
+    return { ok: false, reason: 'platform_mismatch', message: 'Widget token was issued for a different platform.' };
+  }
+  if (payload.origin !== origin || !isOriginAllowed(platform, origin)) {
+    return { ok: false, reason: 'origin_mismatch', message: 'This site is not allowed to use this Ocula widget.' };
+  }
+  return { ok: true };
+}
@@ -0,0 +1,43 @@
+/**
+ * Widget Origins - Where each platform's widget is being loaded from
+ *
+ * Every accepted /ws connection and every token request or upgrade
+ * refused for its Origin is counted per platform and origin in the
+ * shared `widget_origin` table. The dashboard lists them at
+ * /dashboard/domains, so customers can spot a leaked snippet (refused
+ * origins) or allow a domain they forgot.
+ *
+ * The table is created by the dashboard. Write failures are logged and
+ * never interrupt the connection.
+ */
+
+import { getDb } from '../db/index.js';
+
+/** Longest origin stored (anything longer is not a real origin) */
+const MAX_ORIGIN_LENGTH = 255;
+
+/**
+ * Count a connection from `origin`, or a refusal if `allowed` is false
+ *
+ * Requests without an Origin header (not from a browser) aren't recorded.
+ */
+export function recordOrigin(platformId: string, origin: string | undefined, allowed: boolean): void {
+  if (!origin || origin.length > MAX_ORIGIN_LENGTH) return;
+
+  try {
+    const now = new Date().toISOString();
+    getDb()
+      .prepare(
+        `INSERT INTO "widget_origin" ("platformId","origin","firstSeenAt","lastSeenAt","connections","blocked","lastBlockedAt")
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT ("platformId", "origin") DO UPDATE SET
+           "lastSeenAt" = excluded."lastSeenAt",
+           "connections" = "connections" + excluded."connections",
+           "blocked" = "blocked" + excluded."blocked",
+           "lastBlockedAt" = COALESCE(excluded."lastBlockedAt", "lastBlockedAt")`
+      )
+      .run(platformId, origin, now, now, allowed ? 1 : 0, allowed ? 0 : 1, allowed ? null : now);
+  } catch (error) {
+    console.error(`[Origins] Failed to record origin ${origin} for ${platformId}:`, error);
+  }
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type AssistantTone = "friendly" | "professional" | "concise" | "playful";
+
+interface PersonaDraft {
+  assistantName: string;
+  tone: AssistantTone;
+  voice: string;
+  /** Empty: answer in the user's language */
+  language: string;
+  instructions: string;
+  /** One topic per line */
+  forbiddenTopics: string;
+}
+
+const TONE_LABELS: Record<AssistantTone, string> = {
+  friendly: "Friendly — warm and encouraging",
+  professional: "Professional — polished and precise",
+  concise: "Concise — short and direct",
+  playful: "Playful — upbeat with a light touch of humor",
+};
+
+const VOICES: { name: string; style: string }[] = [
+  { name: "Kore", style: "Firm" },
+  { name: "Puck", style: "Upbeat" },
+  { name: "Charon", style: "Informative" },
+  { name: "Fenrir", style: "Excitable" },
+  { name: "Aoede", style: "Breezy" },
+  { name: "Leda", style: "Youthful" },
+  { name: "Orus", style: "Firm" },
+  { name: "Zephyr", style: "Bright" },
+];
+
+const LANGUAGES: { code: string; name: string }[] = [
+  { code: "", name: "Match the user's language" },
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt-BR", name: "Portuguese (Brazil)" },
+  { code: "nl", name: "Dutch" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "zh", name: "Chinese" },
+  { code: "hi", name: "Hindi" },
+  { code: "ar", name: "Arabic" },
+];
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm outline-none focus:border-[var(--brand-purple)]/50";
+
+export default function AssistantPage() {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/persona")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.persona) return;
+        setDraft({
+          assistantName: data.persona.assistantName,
+          tone: data.persona.tone,
+          voice: data.persona.voice,
+          language: data.persona.language ?? "",
+          instructions: data.persona.instructions ?? "",
+          forbiddenTopics: data.persona.forbiddenTopics.join("\n"),
+        });
+      })
+      .catch(() => {
+        // ignore
+      });
+  }, []);
+
+  const savePersona = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const res = await fetch("/api/persona", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...draft, forbiddenTopics: draft.forbiddenTopics.split("\n") }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save persona");
+        return;
+      }
+      setSaved(true);
+    } catch {
+      setError("Failed to save persona");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="flex items-center gap-3 text-[var(--muted-foreground)]">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-card rounded-2xl p-8">
+        <h1 className="text-2xl font-bold">Assistant Persona</h1>
+        <p className="mt-1 text-[var(--muted-foreground)]">
+          Make the assistant sound like your own product: its name, tone, voice and language, plus anything it should
+          always do or never talk about. Changes apply to new widget sessions.
+        </p>
+      </div>
+
+      <div className="glass-card space-y-6 rounded-2xl p-8">
+        <div className="grid gap-4 md:grid-cols-2">
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Assistant name</span>
+            <input
+              value={draft.assistantName}
+              onChange={(e) => setDraft({ ...draft, assistantName: e.target.value })}
+              placeholder="e.g. Ava"
+              className={inputClass}
+            />
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Tone</span>
+            <select
+              value={draft.tone}
+              onChange={(e) => setDraft({ ...draft, tone: e.target.value as AssistantTone })}
+              className={inputClass}
+            >
+              {(Object.keys(TONE_LABELS) as AssistantTone[]).map((tone) => (
+                <option key={tone} value={tone}>
+                  {TONE_LABELS[tone]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Voice</span>
+            <select
+              value={draft.voice}
+              onChange={(e) => setDraft({ ...draft, voice: e.target.value })}
+              className={inputClass}
+            >
+              {VOICES.map((voice) => (
+                <option key={voice.name} value={voice.name}>
+                  {voice.name} — {voice.style}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="font-medium">Language</span>
+            <select
+              value={draft.language}
+              onChange={(e) => setDraft({ ...draft, language: e.target.value })}
+              className={inputClass}
+            >
+              {LANGUAGES.map((language) => (
+                <option key={language.code} value={language.code}>
+                  {language.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Extra instructions</span>
+          <textarea
+            value={draft.instructions}
+            onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+            placeholder="e.g. Call our customers 'members'. Suggest the Pro plan when someone hits a plan limit."
+            rows={4}
+            className={inputClass}
+          />
+        </label>
+
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Forbidden topics</span>
+          <textarea
+            value={draft.forbiddenTopics}
+            onChange={(e) => setDraft({ ...draft, forbiddenTopics: e.target.value })}
+            placeholder={"Pricing negotiations\nCompetitor products"}
+            rows={3}
+            className={inputClass}
+          />
+          <span className="block text-xs text-[var(--muted-foreground)]">
+            One topic per line. The assistant politely declines and steers back to your product.
+          </span>
+        </label>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && <span className="text-sm text-[var(--muted-foreground)]">Saved</span>}
+          <button
+            onClick={savePersona}
+            disabled={saving}
+            className="rounded-xl bg-[var(--brand-purple)] px-5 py-2.5 text-sm font-medium text-white transition-all hover:opacity-90 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save persona"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface WidgetOrigin {
+  origin: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  connections: number;
+  blocked: number;
+  lastBlockedAt: string | null;
+}
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm outline-none focus:border-[var(--brand-purple)]/50";
+
+export default function DomainsPage() {
+  /** One origin per line */
+  const [draft, setDraft] = useState<string | null>(null);
+  const [allowed, setAllowed] = useState<string[]>([]);
+  const [recent, setRecent] = useState<WidgetOrigin[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/platform/origins")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.allowedOrigins) return;
+        setAllowed(data.allowedOrigins);
+        setRecent(data.recentOrigins);
+        setDraft(data.allowedOrigins.join("\n"));
+      })
+      .catch(() => {
+        // ignore
+      });
+  }, []);
+
+  const saveOrigins = async (origins: string[]) => {
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const res = await fetch("/api/platform/origins", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ allowedOrigins: origins }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save domains");
+        return;
+      }
+      setAllowed(data.allowedOrigins);
+      setDraft(data.allowedOrigins.join("\n"));
+      setSaved(true);
+    } catch {
+      setError("Failed to save domains");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="flex items-center gap-3 text-[var(--muted-foreground)]">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-card rounded-2xl p-8">
+        <h1 className="text-2xl font-bold">Allowed Domains</h1>
+        <p className="mt-1 text-[var(--muted-foreground)]">
+          The widget only connects on pages served from these origins. Anyone who copies your embed snippet onto
+          another site gets refused.
+        </p>
+      </div>
+
+      <div className="glass-card space-y-6 rounded-2xl p-8">
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Origins</span>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={"https://app.example.com\nhttps://staging.example.com"}
+            rows={5}
+            className={`${inputClass} font-mono`}
+          />
+          <span className="block text-xs text-[var(--muted-foreground)]">
+            One per line: scheme, host and port only (e.g. <code>https://app.example.com</code> or{" "}
+            <code>http://localhost:3000</code>). Each subdomain needs its own entry.
+          </span>
+        </label>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && <span className="text-sm text-[var(--muted-foreground)]">Saved</span>}
+          <button
+            onClick={() => saveOrigins(draft.split("\n"))}
+            disabled={saving}
+            className="rounded-xl bg-[var(--brand-purple)] px-5 py-2.5 text-sm font-medium text-white transition-all hover:opacity-90 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save domains"}
+          </button>
+        </div>
+      </div>
+
+      <div className="glass-card rounded-2xl p-8">
+        <h2 className="text-lg font-bold">Recent Origins</h2>
+        <p className="mt-1 text-sm text-[var(--muted-foreground)]">
+          Pages the widget was loaded from, including refused ones. Unknown origins here may mean your snippet is
+          being used somewhere else.
+        </p>
+
+        {recent.length === 0 ? (
+          <p className="mt-6 text-sm text-[var(--muted-foreground)]">No widget connections yet.</p>
+        ) : (
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs text-[var(--muted-foreground)]">
+                <tr>
+                  <th className="pb-3 font-medium">Origin</th>
+                  <th className="pb-3 font-medium">Status</th>
+                  <th className="pb-3 text-right font-medium">Connections</th>
+                  <th className="pb-3 text-right font-medium">Refused</th>
+                  <th className="pb-3 text-right font-medium">Last seen</th>
+                  <th className="pb-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {recent.map((entry) => {
+                  const isAllowed = allowed.includes(entry.origin);
+                  return (
+                    <tr key={entry.origin} className="border-t border-[var(--border)]">
+                      <td className="py-3 font-mono text-xs">{entry.origin}</td>
+                      <td className="py-3">
+                        {isAllowed ? (
+                          <span className="rounded-full bg-emerald-500/10 px-2.5 py-0.5 text-xs font-medium text-emerald-400">
+                            Allowed
+                          </span>
+                        ) : (
+                          <span className="rounded-full bg-red-500/10 px-2.5 py-0.5 text-xs font-medium text-red-400">
+                            Not allowed
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">{entry.connections}</td>
+                      <td className="py-3 text-right">{entry.blocked}</td>
+                      <td className="py-3 text-right text-[var(--muted-foreground)]">
+                        {new Date(entry.lastSeenAt).toLocaleString()}
+                      </td>
+                      <td className="py-3 text-right">
+                        {!isAllowed && entry.origin !== "null" && (
+                          <button
+                            onClick={() => saveOrigins([...allowed, entry.origin])}
+                            disabled={saving}
+                            className="rounded-lg border border-[var(--border)] px-3 py-1 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white disabled:opacity-50"
+                          >
+                            Allow
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 "use client";
 
+import { AnalyticsPanel } from "@/components/dashboard/analytics-panel";
+import { UsagePanel } from "@/components/dashboard/usage-panel";
 import { useSession, signOut } from "@/lib/auth-client";
 import { useRouter } from "next/navigation";
 import { useEffect, useState, useCallback, useRef } from "react";
@@ -13,6 +15,7 @@ interface Platform {
   companySize: string;
   industry: string;
   useCase: string | null;
+  publishableKey: string;
   createdAt: string;
 }
 
@@ -24,6 +27,8 @@ interface PlatformDocument {
   filename: string;
   sizeBytes: number;
   analysis: string | null;
+  status: "processing" | "ready" | "failed";
+  analysisError: string | null;
   createdAt: string;
 }
 
@@ -33,6 +38,15 @@ const FILE_TYPE_ICONS: Record<string, string> = {
   markdown: "📝",
 };
 
+const STATUS_BADGES: Record<PlatformDocument["status"], { label: string; className: string }> = {
+  processing: { label: "Processing", className: "border-amber-500/30 text-amber-400" },
+  ready: { label: "Ready", className: "border-emerald-500/30 text-emerald-400" },
+  failed: { label: "Failed", className: "border-red-500/30 text-red-400" },
+};
+
+/** How often the document list is refreshed while analyses are running */
+const STATUS_POLL_MS = 3000;
+
 function formatFileSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -45,6 +59,7 @@ export default function DashboardPage() {
   const [platform, setPlatform] = useState<Platform | null>(null);
   const [loadingPlatform, setLoadingPlatform] = useState(true);
   const [copied, setCopied] = useState(false);
+  const [rotatingKey, setRotatingKey] = useState(false);
   const [documents, setDocuments] = useState<PlatformDocument[]>([]);
   const [uploading, setUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
@@ -89,6 +104,14 @@ export default function DashboardPage() {
     if (platform) fetchDocuments();
   }, [platform, fetchDocuments]);
 
+  // Poll while any document is still being analyzed
+  const hasProcessing = documents.some((doc) => doc.status === "processing");
+  useEffect(() => {
+    if (!hasProcessing) return;
+    const timer = setInterval(fetchDocuments, STATUS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasProcessing, fetchDocuments]);
+
   // Upload handler
   const handleUpload = async (files: FileList | File[]) => {
     if (!files.length || uploading) return;
@@ -127,6 +150,20 @@ export default function DashboardPage() {
     }
   };
 
+  // Retry a failed analysis
+  const handleRetryAnalysis = async (docId: string) => {
+    try {
+      const res = await fetch(`/api/documents?id=${docId}`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error ?? "Failed to restart analysis");
+      }
+      fetchDocuments();
+    } catch {
+      alert("Failed to restart analysis");
+    }
+  };
+
   // Drag handlers
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -145,9 +182,27 @@ export default function DashboardPage() {
   };
 
   const embedScript = platform
-    ? `<script src="https://ocula.ai/widget.js"\n  data-platform-id="${platform.id}"\n  data-server="wss://api.ocula.ai/ws">\n</script>`
+    ? `<script src="https://ocula.ai/widget.js"\n  data-platform-id="${platform.id}"\n  data-key="${platform.publishableKey}"\n  data-server="wss://api.ocula.ai/ws">\n</script>`
     : "";
 
+  const handleRotateKey = async () => {
+    if (!confirm("Issue a new publishable key? Widgets embedded with the current key stop connecting until you update the snippet.")) return;
+    setRotatingKey(true);
+    try {
+      const res = await fetch("/api/platform/key", { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        alert(data.error ?? "Failed to rotate key");
+        return;
+      }
+      setPlatform(data.platform);
+    } catch {
+      alert("Failed to rotate key");
+    } finally {
+      setRotatingKey(false);
+    }
+  };
+
   const handleCopy = () => {
     navigator.clipboard.writeText(embedScript);
     setCopied(true);
@@ -215,24 +270,11 @@ export default function DashboardPage() {
         </div>
       </div>
 
-      {/* Stats Grid */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
-        {[
-          { label: "Support Sessions", value: "0", icon: "💬", change: "—" },
-          { label: "Queries Handled", value: "0", icon: "🔍", change: "—" },
-          { label: "Avg. Resolution", value: "—", icon: "⚡", change: "—" },
-          { label: "User Satisfaction", value: "—", icon: "⭐", change: "—" },
-        ].map((stat) => (
-          <div
-            key={stat.label}
-            className="glass-card glass-card-hover rounded-xl p-6 transition-all"
-          >
-            <div className="mb-3 text-2xl">{stat.icon}</div>
-            <p className="text-2xl font-bold">{stat.value}</p>
-            <p className="text-sm text-[var(--muted-foreground)]">{stat.label}</p>
-          </div>
-        ))}
-      </div>
+      {/* Analytics */}
+      <AnalyticsPanel />
+
+      {/* Usage against monthly quotas */}
+      <UsagePanel />
 
       {/* Embed Script Section */}
       <div className="glass-card rounded-2xl p-8">
@@ -252,6 +294,39 @@ export default function DashboardPage() {
             {copied ? "Copied!" : "Copy"}
           </button>
         </div>
+        <div className="mt-3 flex items-center justify-between gap-4">
+          <p className="text-xs text-[var(--muted-foreground)]">
+            <code className="text-[var(--brand-purple-light)]">data-key</code> is your publishable key. It only works
+            on your <a href="/dashboard/domains" className="underline hover:text-white">allowed domains</a>, so it is
+            safe to ship in your pages.
+          </p>
+          <button
+            onClick={handleRotateKey}
+            disabled={rotatingKey}
+            className="shrink-0 rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white disabled:opacity-50"
+          >
+            {rotatingKey ? "Rotating…" : "Rotate key"}
+          </button>
+        </div>
+        <p className="mt-3 text-xs text-[var(--muted-foreground)]">
+          The widget and the assistant follow each visitor&apos;s browser language. Add{" "}
+          <code className="text-[var(--brand-purple-light)]">data-locale=&quot;fr&quot;</code> to the script tag to
+          pick one yourself.
+        </p>
+        <p className="mt-3 text-xs text-[var(--muted-foreground)]">
+          Password and card fields, and anything marked{" "}
+          <code className="text-[var(--brand-purple-light)]">data-ocula-redact</code>, are blacked out of screen frames
+          before they leave the visitor&apos;s browser. Add{" "}
+          <code className="text-[var(--brand-purple-light)]">data-redact=&quot;.ssn, #billing&quot;</code> for more
+          selectors, <code className="text-[var(--brand-purple-light)]">data-redact-text=&quot;email card&quot;</code>{" "}
+          to hide matching text, or{" "}
+          <code className="text-[var(--brand-purple-light)]">data-redact-style=&quot;blur&quot;</code> to blur instead.
+        </p>
+        <p className="mt-3 text-xs text-[var(--muted-foreground)]">
+          Add <code className="text-[var(--brand-purple-light)]">data-capture=&quot;dom&quot;</code> to let the
+          assistant see the page without asking visitors to share their screen. Frames are rendered from the page
+          itself, so web fonts, cross-origin images and iframes may look simplified.
+        </p>
       </div>
 
       {/* Knowledge Base — File Upload */}
@@ -325,9 +400,30 @@ export default function DashboardPage() {
                     <p className="text-xs text-[var(--muted-foreground)]">
                       {formatFileSize(doc.sizeBytes)} · {doc.type.toUpperCase()} · {new Date(doc.createdAt).toLocaleDateString()}
                     </p>
+                    {doc.status === "failed" && doc.analysisError && (
+                      <p className="truncate text-xs text-red-400" title={doc.analysisError}>
+                        {doc.analysisError}
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="flex shrink-0 items-center gap-2">
+                  <span
+                    className={`rounded-full border px-2.5 py-1 text-xs font-medium ${STATUS_BADGES[doc.status].className}`}
+                  >
+                    {doc.status === "processing" && (
+                      <span className="mr-1.5 inline-block h-1.5 w-1.5 animate-pulse rounded-full bg-current align-middle" />
+                    )}
+                    {STATUS_BADGES[doc.status].label}
+                  </span>
+                  {doc.status === "failed" && (
+                    <button
+                      onClick={() => handleRetryAnalysis(doc.id)}
+                      className="rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white"
+                    >
+                      Retry
+                    </button>
+                  )}
                   <a
                     href={doc.cloudinaryUrl}
                     target="_blank"
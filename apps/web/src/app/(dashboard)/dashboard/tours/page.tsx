@@ -0,0 +1,365 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+type TourWaitFor = "click" | "url_change" | "element_visible" | "input_value" | "delay";
+
+interface TourStep {
+  selector: string;
+  label: string;
+  narration: string;
+  wait_for: TourWaitFor;
+  target?: string;
+  value?: string;
+  delay_ms?: number;
+}
+
+interface Tour {
+  id: string;
+  name: string;
+  description: string | null;
+  steps: TourStep[];
+  isOnboarding: boolean;
+  updatedAt: string;
+}
+
+interface TourDraft {
+  id: string | null;
+  name: string;
+  description: string;
+  isOnboarding: boolean;
+  steps: TourStep[];
+}
+
+const WAIT_FOR_LABELS: Record<TourWaitFor, string> = {
+  click: "User clicks the element",
+  url_change: "Page URL changes",
+  element_visible: "Another element appears",
+  input_value: "A field gets a value",
+  delay: "Auto-advance after a delay",
+};
+
+const EMPTY_STEP: TourStep = { selector: "", label: "", narration: "", wait_for: "click" };
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm outline-none focus:border-[var(--brand-purple)]/50";
+
+function newDraft(): TourDraft {
+  return { id: null, name: "", description: "", isOnboarding: false, steps: [{ ...EMPTY_STEP }] };
+}
+
+export default function ToursPage() {
+  const [tours, setTours] = useState<Tour[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<TourDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTours = useCallback(async () => {
+    try {
+      const res = await fetch("/api/tours");
+      const data = await res.json();
+      if (data.tours) setTours(data.tours);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTours();
+  }, [fetchTours]);
+
+  const editTour = (tour: Tour) => {
+    setError(null);
+    setDraft({
+      id: tour.id,
+      name: tour.name,
+      description: tour.description ?? "",
+      isOnboarding: tour.isOnboarding,
+      steps: tour.steps.map((step) => ({ ...step })),
+    });
+  };
+
+  const updateStep = (index: number, patch: Partial<TourStep>) => {
+    setDraft((d) => d && { ...d, steps: d.steps.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    setDraft((d) => {
+      if (!d) return d;
+      const target = index + offset;
+      if (target < 0 || target >= d.steps.length) return d;
+      const steps = [...d.steps];
+      [steps[index], steps[target]] = [steps[target], steps[index]];
+      return { ...d, steps };
+    });
+  };
+
+  const saveTour = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(draft.id ? `/api/tours?id=${encodeURIComponent(draft.id)}` : "/api/tours", {
+        method: draft.id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          isOnboarding: draft.isOnboarding,
+          steps: draft.steps,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save tour");
+        return;
+      }
+      setDraft(null);
+      await fetchTours();
+    } catch {
+      setError("Failed to save tour");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeTour = async (tour: Tour) => {
+    if (!confirm(`Delete the tour "${tour.name}"?`)) return;
+    try {
+      await fetch(`/api/tours?id=${encodeURIComponent(tour.id)}`, { method: "DELETE" });
+      setTours((prev) => prev.filter((t) => t.id !== tour.id));
+    } catch {
+      // ignore
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="flex items-center gap-3 text-[var(--muted-foreground)]">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-card flex flex-col justify-between gap-4 rounded-2xl p-8 md:flex-row md:items-center">
+        <div>
+          <h1 className="text-2xl font-bold">Product Tours</h1>
+          <p className="mt-1 text-[var(--muted-foreground)]">
+            Script the walkthroughs the assistant plays: which element to highlight, what to say, and what the user
+            has to do before the next step.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => {
+              setError(null);
+              setDraft(newDraft());
+            }}
+            className="shrink-0 rounded-xl bg-[var(--brand-purple)] px-5 py-2.5 text-sm font-medium text-white transition-all hover:opacity-90"
+          >
+            New tour
+          </button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="glass-card space-y-6 rounded-2xl p-8">
+          <div className="grid gap-4 md:grid-cols-2">
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Name</span>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="Create your first deal"
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1 text-sm">
+              <span className="font-medium">Description</span>
+              <input
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="When the assistant should offer this tour"
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={draft.isOnboarding}
+              onChange={(e) => setDraft({ ...draft, isOnboarding: e.target.checked })}
+            />
+            Play automatically when a visitor first shares their screen (replaces the improvised welcome tour)
+          </label>
+
+          <div className="space-y-4">
+            {draft.steps.map((step, index) => (
+              <div key={index} className="rounded-xl border border-[var(--border)] bg-[var(--secondary)] p-4">
+                <div className="mb-3 flex items-center justify-between">
+                  <p className="text-sm font-medium">Step {index + 1}</p>
+                  <div className="flex gap-2 text-xs text-[var(--muted-foreground)]">
+                    <button onClick={() => moveStep(index, -1)} disabled={index === 0} className="hover:text-white disabled:opacity-30">
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => moveStep(index, 1)}
+                      disabled={index === draft.steps.length - 1}
+                      className="hover:text-white disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) })}
+                      disabled={draft.steps.length === 1}
+                      className="hover:text-red-400 disabled:opacity-30"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                <div className="grid gap-3 md:grid-cols-2">
+                  <input
+                    value={step.selector}
+                    onChange={(e) => updateStep(index, { selector: e.target.value })}
+                    placeholder="CSS selector, e.g. #new-deal-button"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <input
+                    value={step.label}
+                    onChange={(e) => updateStep(index, { label: e.target.value })}
+                    placeholder="Label next to the highlight, e.g. Click New Deal"
+                    className={inputClass}
+                  />
+                  <textarea
+                    value={step.narration}
+                    onChange={(e) => updateStep(index, { narration: e.target.value })}
+                    placeholder="What the assistant says at this step"
+                    rows={2}
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                  <select
+                    value={step.wait_for}
+                    onChange={(e) => updateStep(index, { wait_for: e.target.value as TourWaitFor })}
+                    className={inputClass}
+                  >
+                    {(Object.keys(WAIT_FOR_LABELS) as TourWaitFor[]).map((waitFor) => (
+                      <option key={waitFor} value={waitFor}>
+                        {WAIT_FOR_LABELS[waitFor]}
+                      </option>
+                    ))}
+                  </select>
+                  {(step.wait_for === "element_visible" || step.wait_for === "input_value") && (
+                    <input
+                      value={step.target ?? ""}
+                      onChange={(e) => updateStep(index, { target: e.target.value })}
+                      placeholder={step.wait_for === "element_visible" ? "Selector that appears" : "Field selector (default: highlighted element)"}
+                      className={`${inputClass} font-mono`}
+                    />
+                  )}
+                  {step.wait_for === "input_value" && (
+                    <input
+                      value={step.value ?? ""}
+                      onChange={(e) => updateStep(index, { value: e.target.value })}
+                      placeholder="Exact value (optional)"
+                      className={inputClass}
+                    />
+                  )}
+                  {step.wait_for === "delay" && (
+                    <input
+                      type="number"
+                      min={500}
+                      max={60000}
+                      step={500}
+                      value={step.delay_ms ?? 4000}
+                      onChange={(e) => updateStep(index, { delay_ms: Number(e.target.value) })}
+                      className={inputClass}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, steps: [...draft.steps, { ...EMPTY_STEP }] })}
+              className="rounded-lg border border-dashed border-[var(--border)] px-4 py-2 text-sm text-[var(--muted-foreground)] transition-all hover:text-white"
+            >
+              + Add step
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-xl border border-[var(--border)] px-5 py-2.5 text-sm font-medium text-[var(--muted-foreground)] transition-all hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveTour}
+              disabled={saving}
+              className="rounded-xl bg-[var(--brand-purple)] px-5 py-2.5 text-sm font-medium text-white transition-all hover:opacity-90 disabled:opacity-50"
+            >
+              {saving ? "Saving…" : "Save tour"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="glass-card rounded-2xl p-8">
+          {tours.length === 0 ? (
+            <p className="py-6 text-center text-sm text-[var(--muted-foreground)]">
+              No tours yet. Without one, the assistant improvises a short welcome tour.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {tours.map((tour) => (
+                <div
+                  key={tour.id}
+                  className="flex items-center justify-between rounded-xl border border-[var(--border)] bg-[var(--secondary)] px-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {tour.name}
+                      {tour.isOnboarding && (
+                        <span className="ml-2 rounded-md bg-[var(--brand-purple)]/10 px-2 py-0.5 text-xs text-[var(--brand-purple-light)]">
+                          Onboarding
+                        </span>
+                      )}
+                    </p>
+                    <p className="truncate text-xs text-[var(--muted-foreground)]">
+                      {tour.steps.length} step{tour.steps.length !== 1 ? "s" : ""}
+                      {tour.description ? ` · ${tour.description}` : ""}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <button
+                      onClick={() => editTour(tour)}
+                      className="rounded-lg border border-[var(--border)] px-3 py-1 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => removeTour(tour)}
+                      className="rounded-lg border border-[var(--border)] px-3 py-1 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+interface TranscriptSessionSummary {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string;
+  entryCount: number;
+  toolCallCount: number;
+  firstUserMessage: string | null;
+}
+
+interface TranscriptEntry {
+  id: number;
+  sessionId: string;
+  role: "user" | "assistant" | "tool";
+  kind: "speech" | "text" | "tool_call";
+  content: string;
+  toolName: string | null;
+  toolArgs: string | null;
+  toolResult: string | null;
+  createdAt: string;
+}
+
+const ROLE_LABELS: Record<TranscriptEntry["role"], string> = {
+  user: "Customer",
+  assistant: "Assistant",
+  tool: "Tool call",
+};
+
+const KIND_LABELS: Record<TranscriptEntry["kind"], string> = {
+  speech: "🎙️ voice",
+  text: "⌨️ text",
+  tool_call: "🛠️ tool",
+};
+
+/** Pretty-print a stored JSON payload, falling back to the raw string */
+function formatJson(value: string | null): string {
+  if (!value) return "";
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+function formatDuration(startedAt: string, endedAt: string): string {
+  const seconds = Math.round((new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function TranscriptsPage() {
+  const [sessions, setSessions] = useState<TranscriptSessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const [loadingEntries, setLoadingEntries] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await fetch("/api/transcripts");
+      const data = await res.json();
+      if (data.sessions) setSessions(data.sessions);
+    } catch {
+      // ignore
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const openSession = async (sessionId: string) => {
+    setSelectedId(sessionId);
+    setLoadingEntries(true);
+    try {
+      const res = await fetch(`/api/transcripts?sessionId=${encodeURIComponent(sessionId)}`);
+      const data = await res.json();
+      setEntries(data.entries ?? []);
+    } catch {
+      setEntries([]);
+    } finally {
+      setLoadingEntries(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="flex items-center gap-3 text-[var(--muted-foreground)]">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-card rounded-2xl p-8">
+        <h1 className="text-2xl font-bold">Conversation Transcripts</h1>
+        <p className="mt-1 text-[var(--muted-foreground)]">
+          Review what customers asked and what the assistant told them, including every on-screen guide it drew.
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[20rem_1fr]">
+        {/* Session list */}
+        <div className="glass-card rounded-2xl p-4">
+          <div className="mb-3 flex items-center justify-between px-2">
+            <h2 className="text-sm font-bold">Sessions</h2>
+            <button
+              onClick={fetchSessions}
+              className="rounded-lg border border-[var(--border)] px-3 py-1 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white"
+            >
+              Refresh
+            </button>
+          </div>
+          {sessions.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-[var(--muted-foreground)]">
+              No conversations recorded yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {sessions.map((s) => (
+                <button
+                  key={s.sessionId}
+                  onClick={() => openSession(s.sessionId)}
+                  className={`w-full rounded-xl border px-4 py-3 text-left transition-colors ${
+                    selectedId === s.sessionId
+                      ? "border-[var(--brand-purple)]/40 bg-[var(--brand-purple)]/5"
+                      : "border-[var(--border)] bg-[var(--secondary)] hover:border-[var(--brand-purple)]/20"
+                  }`}
+                >
+                  <p className="truncate text-sm font-medium">
+                    {s.firstUserMessage ?? "(no customer messages)"}
+                  </p>
+                  <p className="mt-1 text-xs text-[var(--muted-foreground)]">
+                    {new Date(s.startedAt).toLocaleString()} · {formatDuration(s.startedAt, s.endedAt)}
+                  </p>
+                  <p className="text-xs text-[var(--muted-foreground)]">
+                    {s.entryCount} entr{s.entryCount !== 1 ? "ies" : "y"} · {s.toolCallCount} tool call{s.toolCallCount !== 1 ? "s" : ""}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div className="glass-card rounded-2xl p-8">
+          {!selectedId ? (
+            <p className="py-12 text-center text-sm text-[var(--muted-foreground)]">
+              Select a session to read its transcript.
+            </p>
+          ) : loadingEntries ? (
+            <div className="flex items-center justify-center gap-3 py-12 text-[var(--muted-foreground)]">
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+              Loading transcript…
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <p className="mb-4 text-xs text-[var(--muted-foreground)]">
+                Session <code className="rounded bg-[var(--secondary)] px-1.5 py-0.5 text-[var(--brand-purple-light)]">{selectedId}</code>
+              </p>
+              {entries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className={`rounded-xl border px-4 py-3 ${
+                    entry.role === "user"
+                      ? "border-[var(--brand-purple)]/20 bg-[var(--brand-purple)]/5"
+                      : "border-[var(--border)] bg-[var(--secondary)]"
+                  }`}
+                >
+                  <div className="mb-1 flex items-center justify-between text-xs text-[var(--muted-foreground)]">
+                    <span className="font-medium">
+                      {ROLE_LABELS[entry.role]} · {KIND_LABELS[entry.kind]}
+                    </span>
+                    <span>{new Date(entry.createdAt).toLocaleTimeString()}</span>
+                  </div>
+                  {entry.kind === "tool_call" ? (
+                    <details>
+                      <summary className="cursor-pointer text-sm font-medium">
+                        {entry.toolName}
+                      </summary>
+                      <p className="mt-2 text-xs text-[var(--muted-foreground)]">Arguments</p>
+                      <pre className="overflow-x-auto rounded-lg bg-[var(--background)] p-3 text-xs">
+                        {formatJson(entry.toolArgs)}
+                      </pre>
+                      <p className="mt-2 text-xs text-[var(--muted-foreground)]">Result</p>
+                      <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-[var(--background)] p-3 text-xs">
+                        {formatJson(entry.toolResult)}
+                      </pre>
+                    </details>
+                  ) : (
+                    <p className="whitespace-pre-wrap text-sm">{entry.content}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
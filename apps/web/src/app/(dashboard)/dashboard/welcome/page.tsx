@@ -0,0 +1,171 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type OnboardingMode = "off" | "first_visit" | "every_visit";
+
+interface OnboardingDraft {
+  onboardingMode: OnboardingMode;
+  onboardingWelcome: string;
+  /** One selector per line */
+  onboardingSelectors: string;
+}
+
+const MODE_LABELS: Record<OnboardingMode, { title: string; description: string }> = {
+  first_visit: {
+    title: "First visit only",
+    description: "Welcome and tour each visitor once. Returning visitors in the same browser go straight to helping.",
+  },
+  every_visit: {
+    title: "Every visit",
+    description: "Welcome and tour visitors every time they start sharing their screen.",
+  },
+  off: {
+    title: "Off",
+    description: "Never start on its own. The assistant waits for the visitor to ask.",
+  },
+};
+
+const inputClass =
+  "w-full rounded-lg border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm outline-none focus:border-[var(--brand-purple)]/50";
+
+export default function WelcomePage() {
+  const [draft, setDraft] = useState<OnboardingDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/platform")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data.platform) return;
+        setDraft({
+          onboardingMode: data.platform.onboardingMode,
+          onboardingWelcome: data.platform.onboardingWelcome ?? "",
+          onboardingSelectors: data.platform.onboardingSelectors.join("\n"),
+        });
+      })
+      .catch(() => {
+        // ignore
+      });
+  }, []);
+
+  const saveSettings = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+    try {
+      const res = await fetch("/api/platform/onboarding", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          onboardingMode: draft.onboardingMode,
+          onboardingWelcome: draft.onboardingWelcome,
+          onboardingSelectors: draft.onboardingSelectors.split("\n"),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to save settings");
+        return;
+      }
+      setSaved(true);
+    } catch {
+      setError("Failed to save settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="flex items-center gap-3 text-[var(--muted-foreground)]">
+          <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--brand-purple)] border-t-transparent" />
+          Loading…
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="glass-card rounded-2xl p-8">
+        <h1 className="text-2xl font-bold">Visitor Welcome</h1>
+        <p className="mt-1 text-[var(--muted-foreground)]">
+          What the assistant does when a visitor first shares their screen. An onboarding tour (set on the Tours page)
+          replaces the improvised welcome tour but follows the same schedule.
+        </p>
+      </div>
+
+      <div className="glass-card space-y-6 rounded-2xl p-8">
+        <div className="space-y-3">
+          <p className="text-sm font-medium">When to onboard</p>
+          {(Object.keys(MODE_LABELS) as OnboardingMode[]).map((mode) => (
+            <label
+              key={mode}
+              className="flex cursor-pointer items-start gap-3 rounded-xl border border-[var(--border)] bg-[var(--secondary)] px-4 py-3"
+            >
+              <input
+                type="radio"
+                name="onboardingMode"
+                checked={draft.onboardingMode === mode}
+                onChange={() => setDraft({ ...draft, onboardingMode: mode })}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium">{MODE_LABELS[mode].title}</span>
+                <span className="block text-xs text-[var(--muted-foreground)]">{MODE_LABELS[mode].description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Welcome instructions</span>
+          <textarea
+            value={draft.onboardingWelcome}
+            onChange={(e) => setDraft({ ...draft, onboardingWelcome: e.target.value })}
+            placeholder="e.g. Greet them by mentioning the free trial, then point out where to import contacts."
+            rows={3}
+            disabled={draft.onboardingMode === "off"}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+          <span className="block text-xs text-[var(--muted-foreground)]">
+            Leave empty for a short, friendly greeting.
+          </span>
+        </label>
+
+        <label className="block space-y-1 text-sm">
+          <span className="font-medium">Featured elements</span>
+          <textarea
+            value={draft.onboardingSelectors}
+            onChange={(e) => setDraft({ ...draft, onboardingSelectors: e.target.value })}
+            placeholder={"#new-deal-button\n[data-nav=\"reports\"]"}
+            rows={4}
+            disabled={draft.onboardingMode === "off"}
+            className={`${inputClass} font-mono disabled:opacity-50`}
+          />
+          <span className="block text-xs text-[var(--muted-foreground)]">
+            One CSS selector per line, in tour order. Leave empty to let the assistant pick 3-5 key elements.
+          </span>
+        </label>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        <div className="flex items-center justify-end gap-3">
+          {saved && <span className="text-sm text-[var(--muted-foreground)]">Saved</span>}
+          <button
+            onClick={saveSettings}
+            disabled={saving}
+            className="rounded-xl bg-[var(--brand-purple)] px-5 py-2.5 text-sm font-medium text-white transition-all hover:opacity-90 disabled:opacity-50"
+          >
+            {saving ? "Saving…" : "Save settings"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -55,6 +55,21 @@ export default async function DashboardLayout({
                 <a href="/dashboard" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
                   Dashboard
                 </a>
+                <a href="/dashboard/transcripts" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
+                  Transcripts
+                </a>
+                <a href="/dashboard/tours" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
+                  Tours
+                </a>
+                <a href="/dashboard/welcome" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
+                  Welcome
+                </a>
+                <a href="/dashboard/assistant" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
+                  Assistant
+                </a>
+                <a href="/dashboard/domains" className="text-sm text-[var(--muted-foreground)] transition-colors hover:text-white">
+                  Domains
+                </a>
               </nav>
             )}
             <div className="flex items-center gap-3">
@@ -0,0 +1,47 @@
+import { auth } from "@/lib/auth";
+import { getAnalytics, getPlatformByUserId } from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+const DAY_MS = 86_400_000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+// GET /api/analytics — widget usage aggregates (?from=YYYY-MM-DD&to=YYYY-MM-DD, UTC, inclusive)
+// Defaults to the last 30 days.
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const to = searchParams.get("to") ?? new Date().toISOString().slice(0, 10);
+  const from =
+    searchParams.get("from") ??
+    new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS).toISOString().slice(0, 10);
+
+  if (!isValidDate(from) || !isValidDate(to)) {
+    return NextResponse.json({ error: "Dates must be in YYYY-MM-DD format" }, { status: 400 });
+  }
+
+  const days = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+  if (days < 1) {
+    return NextResponse.json({ error: "Start date must not be after end date" }, { status: 400 });
+  }
+  if (days > MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` }, { status: 400 });
+  }
+
+  return NextResponse.json(getAnalytics(platform.id, from, to));
+}
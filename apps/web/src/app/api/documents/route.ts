@@ -6,8 +6,11 @@ import {
   deleteDocument,
   getPlatformByUserId,
 } from "@/lib/db";
+import { processDocument } from "@/lib/document-analysis";
 import { headers } from "next/headers";
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
+
+export const runtime = "nodejs";
 
 // GET /api/documents — list all documents for the user's platform
 export async function GET() {
@@ -25,6 +28,37 @@ export async function GET() {
   return NextResponse.json({ documents });
 }
 
+// POST /api/documents — re-run analysis for a document (passed as query param ?id=...)
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const docId = searchParams.get("id");
+  if (!docId) {
+    return NextResponse.json({ error: "Missing document id" }, { status: 400 });
+  }
+
+  const doc = getDocumentById(docId);
+  if (!doc || doc.platformId !== platform.id) {
+    return NextResponse.json({ error: "Document not found" }, { status: 404 });
+  }
+
+  if (doc.status === "processing") {
+    return NextResponse.json({ error: "Analysis already in progress" }, { status: 409 });
+  }
+
+  after(() => processDocument(doc));
+  return NextResponse.json({ document: { ...doc, status: "processing", analysisError: null } });
+}
+
 // DELETE /api/documents — delete a document by id (passed as query param ?id=...)
 export async function DELETE(request: Request) {
   const session = await auth.api.getSession({ headers: await headers() });
@@ -0,0 +1,100 @@
+import { auth } from "@/lib/auth";
+import {
+  DEFAULT_PERSONA,
+  getPersonaByPlatformId,
+  getPlatformByUserId,
+  savePersona,
+  type AssistantTone,
+  type PersonaInput,
+} from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+const TONES: AssistantTone[] = ["friendly", "professional", "concise", "playful"];
+// Gemini Live prebuilt voices
+const VOICES = ["Kore", "Puck", "Charon", "Fenrir", "Aoede", "Leda", "Orus", "Zephyr"];
+const LANGUAGE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+const MAX_NAME_LENGTH = 40;
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+const MAX_TOPICS = 20;
+const MAX_TOPIC_LENGTH = 80;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Validate a persona from a request body, or explain what's wrong with it */
+function parsePersona(input: unknown): { persona: PersonaInput } | { error: string } {
+  const body = (input ?? {}) as Record<string, unknown>;
+
+  const assistantName = optionalString(body.assistantName);
+  if (!assistantName || assistantName.length > MAX_NAME_LENGTH) {
+    return { error: `assistantName is required (up to ${MAX_NAME_LENGTH} characters)` };
+  }
+
+  const tone = body.tone as AssistantTone;
+  if (!TONES.includes(tone)) {
+    return { error: `tone must be one of: ${TONES.join(", ")}` };
+  }
+
+  const voice = body.voice as string;
+  if (!VOICES.includes(voice)) {
+    return { error: `voice must be one of: ${VOICES.join(", ")}` };
+  }
+
+  const language = optionalString(body.language) ?? null;
+  if (language && !LANGUAGE_PATTERN.test(language)) {
+    return { error: "language must be a language code such as en or pt-BR" };
+  }
+
+  const instructions = optionalString(body.instructions) ?? null;
+  if (instructions && instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+    return { error: `instructions can be up to ${MAX_INSTRUCTIONS_LENGTH} characters` };
+  }
+
+  const rawTopics = body.forbiddenTopics ?? [];
+  if (!Array.isArray(rawTopics) || rawTopics.some((t) => typeof t !== "string")) {
+    return { error: "forbiddenTopics must be a list of topics" };
+  }
+  const forbiddenTopics = [...new Set((rawTopics as string[]).map((t) => t.trim()).filter(Boolean))];
+  if (forbiddenTopics.length > MAX_TOPICS || forbiddenTopics.some((t) => t.length > MAX_TOPIC_LENGTH)) {
+    return { error: `List up to ${MAX_TOPICS} forbidden topics of up to ${MAX_TOPIC_LENGTH} characters each` };
+  }
+
+  return { persona: { assistantName, tone, voice, language, instructions, forbiddenTopics } };
+}
+
+// GET /api/persona — the platform's assistant persona (defaults until one is saved)
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  return NextResponse.json({ persona: getPersonaByPlatformId(platform.id) ?? DEFAULT_PERSONA });
+}
+
+// PUT /api/persona — replace the platform's assistant persona
+export async function PUT(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const parsed = parsePersona(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  return NextResponse.json({ persona: savePersona(platform.id, parsed.persona) });
+}
@@ -0,0 +1,25 @@
+import { auth } from "@/lib/auth";
+import { getPlatformByUserId, rotatePublishableKey } from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+// POST /api/platform/key — issue a new publishable key (the old one stops working)
+export async function POST() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  try {
+    const updated = rotatePublishableKey(platform.id);
+    return NextResponse.json({ platform: updated });
+  } catch (err) {
+    console.error("Failed to rotate publishable key:", err);
+    return NextResponse.json({ error: "Failed to rotate key" }, { status: 500 });
+  }
+}
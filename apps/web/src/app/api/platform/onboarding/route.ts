@@ -0,0 +1,56 @@
+import { auth } from "@/lib/auth";
+import { getPlatformByUserId, updateOnboardingSettings, type OnboardingMode } from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+const MODES: OnboardingMode[] = ["off", "first_visit", "every_visit"];
+const MAX_WELCOME_LENGTH = 1000;
+const MAX_SELECTORS = 8;
+const MAX_SELECTOR_LENGTH = 200;
+
+// PUT /api/platform/onboarding — replace the platform's first-frame onboarding settings
+export async function PUT(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+
+  const mode = body.onboardingMode as OnboardingMode;
+  if (!MODES.includes(mode)) {
+    return NextResponse.json({ error: `onboardingMode must be one of: ${MODES.join(", ")}` }, { status: 400 });
+  }
+
+  const welcome = typeof body.onboardingWelcome === "string" ? body.onboardingWelcome.trim() : "";
+  if (welcome.length > MAX_WELCOME_LENGTH) {
+    return NextResponse.json(
+      { error: `onboardingWelcome can be up to ${MAX_WELCOME_LENGTH} characters` },
+      { status: 400 },
+    );
+  }
+
+  const rawSelectors = body.onboardingSelectors ?? [];
+  if (!Array.isArray(rawSelectors) || rawSelectors.some((s) => typeof s !== "string")) {
+    return NextResponse.json({ error: "onboardingSelectors must be a list of CSS selectors" }, { status: 400 });
+  }
+  const selectors = [...new Set((rawSelectors as string[]).map((s) => s.trim()).filter(Boolean))];
+  if (selectors.length > MAX_SELECTORS || selectors.some((s) => s.length > MAX_SELECTOR_LENGTH)) {
+    return NextResponse.json(
+      { error: `Feature up to ${MAX_SELECTORS} selectors of up to ${MAX_SELECTOR_LENGTH} characters each` },
+      { status: 400 },
+    );
+  }
+
+  const updated = updateOnboardingSettings(platform.id, {
+    onboardingMode: mode,
+    onboardingWelcome: welcome || null,
+    onboardingSelectors: selectors,
+  });
+  return NextResponse.json({ platform: updated });
+}
@@ -0,0 +1,75 @@
+import { auth } from "@/lib/auth";
+import { getPlatformByUserId, getWidgetOrigins, originOf, updateAllowedOrigins } from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+const MAX_ORIGINS = 20;
+
+/** "app.acme.com" → "https://app.acme.com"; null if it isn't a bare http(s) origin */
+function normalizeOrigin(input: string): string | null {
+  const value = input.trim();
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`;
+  try {
+    // Paths, queries and credentials don't belong in an origin
+    const url = new URL(withScheme);
+    if (url.pathname !== "/" || url.search || url.hash || url.username) return null;
+  } catch {
+    return null;
+  }
+  return originOf(withScheme);
+}
+
+// GET /api/platform/origins — allowed origins and the origins the widget was recently loaded from
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  return NextResponse.json({
+    allowedOrigins: platform.allowedOrigins,
+    recentOrigins: getWidgetOrigins(platform.id),
+  });
+}
+
+// PUT /api/platform/origins — replace the origins the widget may run on
+export async function PUT(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const body = ((await request.json().catch(() => null)) ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(body.allowedOrigins) || !body.allowedOrigins.every((o) => typeof o === "string")) {
+    return NextResponse.json({ error: "allowedOrigins must be a list of origins" }, { status: 400 });
+  }
+
+  const origins: string[] = [];
+  for (const input of body.allowedOrigins as string[]) {
+    if (!input.trim()) continue;
+    const origin = normalizeOrigin(input);
+    if (!origin) {
+      return NextResponse.json(
+        { error: `"${input}" is not an origin. Use the form https://app.example.com (no path).` },
+        { status: 400 },
+      );
+    }
+    if (!origins.includes(origin)) origins.push(origin);
+  }
+  if (origins.length > MAX_ORIGINS) {
+    return NextResponse.json({ error: `At most ${MAX_ORIGINS} origins` }, { status: 400 });
+  }
+
+  const updated = updateAllowedOrigins(platform.id, origins);
+  return NextResponse.json({ allowedOrigins: updated?.allowedOrigins ?? origins });
+}
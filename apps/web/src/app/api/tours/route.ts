@@ -0,0 +1,201 @@
+import { auth } from "@/lib/auth";
+import {
+  createTour,
+  deleteTour,
+  getPlatformByUserId,
+  getTourById,
+  getToursByPlatformId,
+  updateTour,
+  type TourInput,
+  type TourStep,
+  type TourWaitFor,
+} from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+const WAIT_FOR: TourWaitFor[] = ["click", "url_change", "element_visible", "input_value", "delay"];
+const MAX_STEPS = 30;
+const MAX_NAME_LENGTH = 80;
+const MAX_LABEL_LENGTH = 80;
+const MAX_NARRATION_LENGTH = 1000;
+const MIN_DELAY_MS = 500;
+const MAX_DELAY_MS = 60_000;
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Validate a tour from a request body, or explain what's wrong with it */
+function parseTour(input: unknown): { tour: TourInput } | { error: string } {
+  const body = (input ?? {}) as Record<string, unknown>;
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { error: `name is required (up to ${MAX_NAME_LENGTH} characters)` };
+  }
+
+  if (!Array.isArray(body.steps) || body.steps.length === 0 || body.steps.length > MAX_STEPS) {
+    return { error: `steps must contain 1 to ${MAX_STEPS} steps` };
+  }
+
+  const steps: TourStep[] = [];
+  for (const [index, item] of body.steps.entries()) {
+    const raw = (item ?? {}) as Record<string, unknown>;
+    const position = `Step ${index + 1}`;
+    const selector = optionalString(raw.selector);
+    const label = optionalString(raw.label);
+    const narration = optionalString(raw.narration);
+    if (!selector) return { error: `${position}: selector is required` };
+    if (!label || label.length > MAX_LABEL_LENGTH) {
+      return { error: `${position}: label is required (up to ${MAX_LABEL_LENGTH} characters)` };
+    }
+    if (!narration || narration.length > MAX_NARRATION_LENGTH) {
+      return { error: `${position}: narration is required (up to ${MAX_NARRATION_LENGTH} characters)` };
+    }
+
+    const waitFor = (raw.wait_for ?? "click") as TourWaitFor;
+    if (!WAIT_FOR.includes(waitFor)) {
+      return { error: `${position}: wait_for must be one of: ${WAIT_FOR.join(", ")}` };
+    }
+    if (waitFor === "element_visible" && !optionalString(raw.target)) {
+      return { error: `${position}: element_visible needs a target selector` };
+    }
+
+    const step: TourStep = { selector, label, narration, wait_for: waitFor };
+    const target = optionalString(raw.target);
+    const value = typeof raw.value === "string" && raw.value !== "" ? raw.value : undefined;
+    if (target && (waitFor === "element_visible" || waitFor === "input_value")) step.target = target;
+    if (value !== undefined && waitFor === "input_value") step.value = value;
+    if (waitFor === "delay") {
+      const delay = raw.delay_ms ?? 4000;
+      if (typeof delay !== "number" || delay < MIN_DELAY_MS || delay > MAX_DELAY_MS) {
+        return { error: `${position}: delay_ms must be between ${MIN_DELAY_MS} and ${MAX_DELAY_MS}` };
+      }
+      step.delay_ms = Math.round(delay);
+    }
+    steps.push(step);
+  }
+
+  return {
+    tour: {
+      name,
+      description: optionalString(body.description) ?? null,
+      steps,
+      isOnboarding: body.isOnboarding === true,
+    },
+  };
+}
+
+function isDuplicateName(err: unknown): boolean {
+  return (err as { code?: string })?.code === "SQLITE_CONSTRAINT_UNIQUE";
+}
+
+// GET /api/tours — list the platform's product tours
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ tours: [] });
+  }
+
+  return NextResponse.json({ tours: getToursByPlatformId(platform.id) });
+}
+
+// POST /api/tours — create a tour
+export async function POST(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const parsed = parseTour(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const tour = createTour(platform.id, parsed.tour);
+    return NextResponse.json({ tour }, { status: 201 });
+  } catch (err) {
+    if (isDuplicateName(err)) {
+      return NextResponse.json({ error: "A tour with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to create tour:", err);
+    return NextResponse.json({ error: "Failed to create tour" }, { status: 500 });
+  }
+}
+
+// PUT /api/tours — replace a tour by id (passed as query param ?id=...)
+export async function PUT(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const tourId = searchParams.get("id");
+  if (!tourId) {
+    return NextResponse.json({ error: "Missing tour id" }, { status: 400 });
+  }
+
+  const existing = getTourById(tourId);
+  if (!existing || existing.platformId !== platform.id) {
+    return NextResponse.json({ error: "Tour not found" }, { status: 404 });
+  }
+
+  const parsed = parseTour(await request.json().catch(() => null));
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const tour = updateTour(existing, parsed.tour);
+    return NextResponse.json({ tour });
+  } catch (err) {
+    if (isDuplicateName(err)) {
+      return NextResponse.json({ error: "A tour with this name already exists" }, { status: 409 });
+    }
+    console.error("Failed to update tour:", err);
+    return NextResponse.json({ error: "Failed to update tour" }, { status: 500 });
+  }
+}
+
+// DELETE /api/tours — delete a tour by id (passed as query param ?id=...)
+export async function DELETE(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const tourId = searchParams.get("id");
+  if (!tourId) {
+    return NextResponse.json({ error: "Missing tour id" }, { status: 400 });
+  }
+
+  const tour = getTourById(tourId);
+  if (!tour || tour.platformId !== platform.id) {
+    return NextResponse.json({ error: "Tour not found" }, { status: 404 });
+  }
+
+  deleteTour(tourId);
+  return NextResponse.json({ success: true });
+}
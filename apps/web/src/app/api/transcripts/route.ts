@@ -0,0 +1,37 @@
+import { auth } from "@/lib/auth";
+import {
+  getPlatformByUserId,
+  getTranscriptEntries,
+  getTranscriptSessions,
+} from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+// GET /api/transcripts — list recorded widget sessions,
+// or the full transcript of one session (?sessionId=...)
+export async function GET(request: Request) {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const sessionId = searchParams.get("sessionId");
+
+  if (!sessionId) {
+    const sessions = getTranscriptSessions(platform.id);
+    return NextResponse.json({ sessions });
+  }
+
+  const entries = getTranscriptEntries(platform.id, sessionId);
+  if (entries.length === 0) {
+    return NextResponse.json({ error: "Transcript not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ sessionId, entries });
+}
@@ -6,8 +6,9 @@ import {
   isAllowedSize,
 } from "@/lib/cloudinary";
 import { createDocument, getPlatformByUserId } from "@/lib/db";
+import { processDocument } from "@/lib/document-analysis";
 import { headers } from "next/headers";
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 
 export const runtime = "nodejs";
 
@@ -81,6 +82,9 @@ export async function POST(request: Request) {
       sizeBytes: uploadResult.bytes,
     });
 
+    // Extract text and structure once the response has been sent
+    after(() => processDocument(document, buffer));
+
     return NextResponse.json({ document }, { status: 201 });
   } catch (err) {
     console.error("Upload failed:", err);
@@ -0,0 +1,19 @@
+import { auth } from "@/lib/auth";
+import { getPlatformByUserId, getUsage } from "@/lib/db";
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+
+// GET /api/usage — this month's Live minutes and requests against the platform's quotas
+export async function GET() {
+  const session = await auth.api.getSession({ headers: await headers() });
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const platform = getPlatformByUserId(session.user.id);
+  if (!platform) {
+    return NextResponse.json({ error: "No platform" }, { status: 403 });
+  }
+
+  return NextResponse.json(getUsage(platform));
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+interface AnalyticsDay {
+  date: string;
+  sessions: number;
+  toolCalls: number;
+  errors: number;
+}
+
+interface AnalyticsSummary {
+  from: string;
+  to: string;
+  totals: {
+    sessions: number;
+    avgDurationMs: number;
+    screenShareSessions: number;
+    micSessions: number;
+    toolCalls: number;
+    errors: number;
+  };
+  daily: AnalyticsDay[];
+  toolCalls: { name: string; count: number; failures: number }[];
+  overlays: { status: string; count: number }[];
+  errors: { source: string; count: number }[];
+}
+
+const RANGE_PRESETS = [7, 30, 90];
+
+const OVERLAY_STATUS_LABELS: Record<string, string> = {
+  rendered: "Shown",
+  not_found: "Element not found",
+  hidden: "Element hidden",
+  zero_size: "Element has no size",
+  invalid_selector: "Invalid selector",
+  aborted: "Cancelled",
+};
+
+const ERROR_SOURCE_LABELS: Record<string, string> = {
+  live_session: "Voice session",
+  agent: "Agent query",
+  tool_call: "Tool execution",
+  message: "Message handling",
+  quota: "Rate limits & quotas",
+};
+
+/** YYYY-MM-DD, `daysAgo` days before today (UTC) */
+function isoDate(daysAgo = 0): string {
+  return new Date(Date.now() - daysAgo * 86_400_000).toISOString().slice(0, 10);
+}
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) return "—";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function percent(part: number, total: number): string {
+  return total > 0 ? `${Math.round((part / total) * 100)}%` : "—";
+}
+
+export function AnalyticsPanel() {
+  const [from, setFrom] = useState(() => isoDate(29));
+  const [to, setTo] = useState(() => isoDate());
+  const [data, setData] = useState<AnalyticsSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAnalytics = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/analytics?from=${from}&to=${to}`);
+      const body = await res.json();
+      if (!res.ok) {
+        setError(body.error ?? "Failed to load analytics");
+        return;
+      }
+      setData(body);
+      setError(null);
+    } catch {
+      setError("Failed to load analytics");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  const totals = data?.totals;
+  const maxDaily = Math.max(1, ...(data?.daily.map((d) => d.sessions) ?? []));
+  const maxTool = Math.max(1, ...(data?.toolCalls.map((t) => t.count) ?? []));
+  const overlayTotal = data?.overlays.reduce((sum, o) => sum + o.count, 0) ?? 0;
+  const overlaysShown = data?.overlays.find((o) => o.status === "rendered")?.count ?? 0;
+
+  return (
+    <div className="glass-card rounded-2xl p-8">
+      <div className="mb-6 flex flex-col justify-between gap-4 md:flex-row md:items-center">
+        <div>
+          <h2 className="text-lg font-bold">Analytics</h2>
+          <p className="mt-1 text-sm text-[var(--muted-foreground)]">
+            Widget sessions, voice and screen share usage, tool calls and errors (UTC).
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map((days) => (
+            <button
+              key={days}
+              onClick={() => {
+                setFrom(isoDate(days - 1));
+                setTo(isoDate());
+              }}
+              className="rounded-lg border border-[var(--border)] px-3 py-1.5 text-xs font-medium text-[var(--muted-foreground)] transition-all hover:text-white"
+            >
+              {days}d
+            </button>
+          ))}
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="rounded-lg border border-[var(--border)] bg-[var(--secondary)] px-2 py-1 text-xs"
+          />
+          <span className="text-xs text-[var(--muted-foreground)]">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="rounded-lg border border-[var(--border)] bg-[var(--secondary)] px-2 py-1 text-xs"
+          />
+        </div>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-400">{error}</p>}
+
+      {/* Stat cards */}
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {[
+          { label: "Support Sessions", value: totals ? String(totals.sessions) : "—", icon: "💬" },
+          { label: "Avg. Duration", value: totals ? formatDuration(totals.avgDurationMs) : "—", icon: "⏱️" },
+          { label: "Screen Share", value: totals ? percent(totals.screenShareSessions, totals.sessions) : "—", icon: "🖥️" },
+          { label: "Voice (Mic)", value: totals ? percent(totals.micSessions, totals.sessions) : "—", icon: "🎙️" },
+          { label: "Errors", value: totals ? String(totals.errors) : "—", icon: "⚠️" },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-xl border border-[var(--border)] bg-[var(--secondary)] p-4">
+            <div className="mb-2 text-xl">{stat.icon}</div>
+            <p className={`text-2xl font-bold ${loading ? "opacity-50" : ""}`}>{stat.value}</p>
+            <p className="text-xs text-[var(--muted-foreground)]">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {data && (
+        <div className="mt-6 grid gap-6 lg:grid-cols-2">
+          {/* Sessions per day */}
+          <div className="rounded-xl border border-[var(--border)] bg-[var(--secondary)] p-4">
+            <p className="mb-4 text-sm font-medium">Sessions per day</p>
+            <div className="flex h-40 items-end gap-[2px]">
+              {data.daily.map((day) => (
+                <div
+                  key={day.date}
+                  className="group relative flex h-full flex-1 items-end"
+                  title={`${day.date}: ${day.sessions} session${day.sessions !== 1 ? "s" : ""}, ${day.toolCalls} tool calls, ${day.errors} errors`}
+                >
+                  <div
+                    className={`w-full rounded-t ${day.errors > 0 ? "bg-amber-400/70" : "bg-[var(--brand-purple)]"}`}
+                    style={{ height: `${(day.sessions / maxDaily) * 100}%`, minHeight: day.sessions > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="mt-2 flex justify-between text-xs text-[var(--muted-foreground)]">
+              <span>{data.from}</span>
+              <span>{data.to}</span>
+            </div>
+          </div>
+
+          {/* Tool calls + errors */}
+          <div className="rounded-xl border border-[var(--border)] bg-[var(--secondary)] p-4">
+            <p className="mb-4 text-sm font-medium">Tool calls ({totals?.toolCalls ?? 0})</p>
+            {data.toolCalls.length === 0 ? (
+              <p className="text-sm text-[var(--muted-foreground)]">No tool calls in this range.</p>
+            ) : (
+              <div className="space-y-3">
+                {data.toolCalls.map((tool) => (
+                  <div key={tool.name}>
+                    <div className="mb-1 flex justify-between text-xs">
+                      <code className="text-[var(--brand-purple-light)]">{tool.name}</code>
+                      <span className="text-[var(--muted-foreground)]">
+                        {tool.count}
+                        {tool.failures > 0 && <span className="text-red-400"> · {tool.failures} failed</span>}
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-[var(--background)]">
+                      <div
+                        className="h-2 rounded-full bg-[var(--brand-purple)]"
+                        style={{ width: `${(tool.count / maxTool) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {overlayTotal > 0 && (
+              <div className="mt-6">
+                <p className="mb-2 text-sm font-medium">
+                  Guidance rendered ({percent(overlaysShown, overlayTotal)} of {overlayTotal} highlights)
+                </p>
+                <div className="space-y-1">
+                  {data.overlays.map((o) => (
+                    <div key={o.status} className="flex justify-between text-xs">
+                      <span>{OVERLAY_STATUS_LABELS[o.status] ?? o.status}</span>
+                      <span className={o.status === "rendered" ? "text-emerald-400" : "text-amber-400"}>{o.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {data.errors.length > 0 && (
+              <div className="mt-6">
+                <p className="mb-2 text-sm font-medium">Errors by source</p>
+                <div className="space-y-1">
+                  {data.errors.map((e) => (
+                    <div key={e.source} className="flex justify-between text-xs">
+                      <span>{ERROR_SOURCE_LABELS[e.source] ?? e.source}</span>
+                      <span className="text-red-400">{e.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+interface UsageSummary {
+  month: string;
+  liveMinutes: { used: number; quota: number };
+  requests: { used: number; quota: number };
+  limitEvents: { code: string; count: number }[];
+}
+
+const LIMIT_LABELS: Record<string, string> = {
+  rate_limited_frames: "Screen frames sent too fast",
+  rate_limited_audio: "Audio sent too fast",
+  rate_limited_requests: "Questions sent too fast",
+  quota_live_sessions: "Live sessions at capacity",
+  quota_monthly_minutes: "Live minutes used up",
+  quota_monthly_requests: "Requests used up",
+};
+
+function monthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function UsageBar({ label, used, quota, unit }: { label: string; used: number; quota: number; unit: string }) {
+  const share = quota > 0 ? Math.min(1, used / quota) : 1;
+  const color = share >= 1 ? "bg-red-400" : share >= 0.8 ? "bg-amber-400" : "bg-[var(--brand-purple)]";
+  return (
+    <div className="rounded-xl border border-[var(--border)] bg-[var(--secondary)] p-4">
+      <div className="mb-2 flex items-baseline justify-between">
+        <p className="text-sm font-medium">{label}</p>
+        <p className="text-xs text-[var(--muted-foreground)]">
+          <span className="text-base font-bold text-white">{used.toLocaleString()}</span> / {quota.toLocaleString()} {unit}
+        </p>
+      </div>
+      <div className="h-2 rounded-full bg-[var(--background)]">
+        <div className={`h-2 rounded-full ${color}`} style={{ width: `${share * 100}%` }} />
+      </div>
+    </div>
+  );
+}
+
+export function UsagePanel() {
+  const [data, setData] = useState<UsageSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/usage")
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) {
+          setError(body.error ?? "Failed to load usage");
+          return;
+        }
+        setData(body);
+      })
+      .catch(() => setError("Failed to load usage"));
+  }, []);
+
+  return (
+    <div className="glass-card rounded-2xl p-8">
+      <div className="mb-6">
+        <h2 className="text-lg font-bold">Usage{data ? ` — ${monthLabel(data.month)}` : ""}</h2>
+        <p className="mt-1 text-sm text-[var(--muted-foreground)]">
+          Live (voice + screen) minutes and assistant requests against your monthly quotas. Quotas reset on the 1st
+          (UTC); once one is used up, the widget tells visitors that part of the assistant is unavailable.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {data && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <UsageBar label="Live minutes" used={data.liveMinutes.used} quota={data.liveMinutes.quota} unit="min" />
+            <UsageBar label="Requests" used={data.requests.used} quota={data.requests.quota} unit="requests" />
+          </div>
+
+          {data.limitEvents.length > 0 && (
+            <div className="mt-6">
+              <p className="mb-2 text-sm font-medium">Limit warnings sent to visitors this month</p>
+              <div className="space-y-1">
+                {data.limitEvents.map((event) => (
+                  <div key={event.code} className="flex justify-between text-xs">
+                    <span>{LIMIT_LABELS[event.code] ?? event.code}</span>
+                    <span className="text-amber-400">{event.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
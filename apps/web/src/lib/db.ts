@@ -13,11 +13,34 @@ export function getDb() {
     _db.pragma("foreign_keys = ON");
     ensurePlatformsTable(_db);
     ensureDocumentsTable(_db);
+    ensureTranscriptTable(_db);
+    ensureAnalyticsTables(_db);
+    ensureToursTable(_db);
+    ensurePersonaTable(_db);
+    ensureWidgetOriginTable(_db);
+    ensureUsageTable(_db);
+    ensureOnboardedVisitorTable(_db);
   }
   return _db;
 }
 
 // ---------- Schema ----------
+//
+// The dashboard owns the whole schema, including the tables only the
+// widget server writes to. The server never creates or alters tables.
+
+/** Add a column to an existing table if it is missing. Returns true if it was added. */
+function ensureColumn(
+  db: ReturnType<typeof Database>,
+  table: string,
+  column: string,
+  definition: string,
+): boolean {
+  const columns = db.prepare(`PRAGMA table_info("${table}")`).all() as { name: string }[];
+  if (columns.some((c) => c.name === column)) return false;
+  db.exec(`ALTER TABLE "${table}" ADD COLUMN "${column}" ${definition}`);
+  return true;
+}
 
 function ensurePlatformsTable(db: ReturnType<typeof Database>) {
   db.exec(`
@@ -39,6 +62,52 @@ function ensurePlatformsTable(db: ReturnType<typeof Database>) {
   db.exec(`
     CREATE INDEX IF NOT EXISTS "platform_userId_idx" ON "platform"("userId");
   `);
+
+  // First-frame onboarding settings (read by the widget server, apps/server/src/platforms)
+  ensureColumn(db, "platform", "onboardingMode", `TEXT NOT NULL DEFAULT 'first_visit' CHECK("onboardingMode" IN ('off','first_visit','every_visit'))`);
+  ensureColumn(db, "platform", "onboardingWelcome", "TEXT");
+  ensureColumn(db, "platform", "onboardingSelectors", "TEXT NOT NULL DEFAULT '[]'");
+
+  // Publishable key the widget exchanges for /ws tokens (apps/server/src/widget-auth)
+  if (ensureColumn(db, "platform", "publishableKey", "TEXT")) {
+    const rows = db.prepare('SELECT "id" FROM "platform"').all() as { id: string }[];
+    const setKey = db.prepare('UPDATE "platform" SET "publishableKey" = ? WHERE "id" = ?');
+    for (const row of rows) setKey.run(generatePublishableKey(), row.id);
+  }
+  db.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS "platform_publishableKey_idx" ON "platform"("publishableKey");
+  `);
+
+  // Page origins the widget may run on; existing platforms start with their URL's origin
+  if (ensureColumn(db, "platform", "allowedOrigins", "TEXT NOT NULL DEFAULT '[]'")) {
+    const rows = db.prepare('SELECT "id", "platformUrl" FROM "platform"').all() as { id: string; platformUrl: string }[];
+    const setOrigins = db.prepare('UPDATE "platform" SET "allowedOrigins" = ? WHERE "id" = ?');
+    for (const row of rows) setOrigins.run(JSON.stringify(defaultAllowedOrigins(row.platformUrl)), row.id);
+  }
+
+  // Monthly quotas enforced by the widget server (apps/server/src/quotas)
+  ensureColumn(db, "platform", "monthlyLiveMinutes", "INTEGER NOT NULL DEFAULT 1000");
+  ensureColumn(db, "platform", "monthlyRequests", "INTEGER NOT NULL DEFAULT 5000");
+}
+
+/** Origin of an http(s) URL ("https://app.acme.com/home" → "https://app.acme.com"), or null */
+export function originOf(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "http:" || parsed.protocol === "https:" ? parsed.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function defaultAllowedOrigins(platformUrl: string): string[] {
+  const origin = originOf(platformUrl);
+  return origin ? [origin] : [];
+}
+
+/** Publishable keys identify a platform in its embed snippet; they are not secrets */
+function generatePublishableKey(): string {
+  return `pk_${crypto.randomUUID().replace(/-/g, "")}`;
 }
 
 // ---------- Types ----------
@@ -53,10 +122,40 @@ export interface Platform {
   companySize: string;
   industry: string;
   useCase: string | null;
+  /** When the assistant welcomes and tours a visitor on their first shared frame */
+  onboardingMode: OnboardingMode;
+  /** Custom welcome instructions for the assistant (replaces the default greeting) */
+  onboardingWelcome: string | null;
+  /** Selectors the welcome tour should feature, in order (empty: the assistant picks) */
+  onboardingSelectors: string[];
+  /** Goes in the embed snippet as data-key */
+  publishableKey: string;
+  /** Page origins the widget may run on ("https://app.acme.com") */
+  allowedOrigins: string[];
+  /** Monthly quota of Live (voice + vision) minutes */
+  monthlyLiveMinutes: number;
+  /** Monthly quota of agent questions and typed Live messages */
+  monthlyRequests: number;
   createdAt: string;
   updatedAt: string;
 }
 
+/** "first_visit" onboards each visitor once (remembered per browser by the widget) */
+export type OnboardingMode = "off" | "first_visit" | "every_visit";
+
+export interface OnboardingSettings {
+  onboardingMode: OnboardingMode;
+  onboardingWelcome: string | null;
+  onboardingSelectors: string[];
+}
+
+interface PlatformRow extends Omit<Platform, "onboardingSelectors" | "allowedOrigins"> {
+  /** JSON-encoded string[] */
+  onboardingSelectors: string;
+  /** JSON-encoded string[] */
+  allowedOrigins: string;
+}
+
 export interface CreatePlatformInput {
   userId: string;
   platformName: string;
@@ -70,11 +169,20 @@ export interface CreatePlatformInput {
 
 // ---------- CRUD ----------
 
+function toPlatform(row: PlatformRow): Platform {
+  return {
+    ...row,
+    onboardingSelectors: JSON.parse(row.onboardingSelectors),
+    allowedOrigins: JSON.parse(row.allowedOrigins),
+  };
+}
+
 export function getPlatformByUserId(userId: string): Platform | undefined {
   const db = getDb();
-  return db
+  const row = db
     .prepare('SELECT * FROM "platform" WHERE "userId" = ?')
-    .get(userId) as Platform | undefined;
+    .get(userId) as PlatformRow | undefined;
+  return row ? toPlatform(row) : undefined;
 }
 
 export function createPlatform(input: CreatePlatformInput): Platform {
@@ -83,8 +191,8 @@ export function createPlatform(input: CreatePlatformInput): Platform {
   const now = new Date().toISOString();
 
   db.prepare(
-    `INSERT INTO "platform" ("id","userId","platformName","platformUrl","contactName","contactRole","companySize","industry","useCase","createdAt","updatedAt")
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO "platform" ("id","userId","platformName","platformUrl","contactName","contactRole","companySize","industry","useCase","publishableKey","allowedOrigins","createdAt","updatedAt")
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     id,
     input.userId,
@@ -95,9 +203,12 @@ export function createPlatform(input: CreatePlatformInput): Platform {
     input.companySize,
     input.industry,
     input.useCase ?? null,
+    generatePublishableKey(),
+    JSON.stringify(defaultAllowedOrigins(input.platformUrl)),
     now,
     now,
   );
+  savePersona(id, DEFAULT_PERSONA, db);
 
   return getPlatformByUserId(input.userId)!;
 }
@@ -127,8 +238,46 @@ export function updatePlatform(
     `UPDATE "platform" SET ${setClauses.join(", ")} WHERE "id" = ?`
   ).run(...values);
 
-  const row = db.prepare('SELECT * FROM "platform" WHERE "id" = ?').get(id);
-  return row as Platform | undefined;
+  const row = db.prepare('SELECT * FROM "platform" WHERE "id" = ?').get(id) as PlatformRow | undefined;
+  return row ? toPlatform(row) : undefined;
+}
+
+export function updateOnboardingSettings(id: string, settings: OnboardingSettings): Platform | undefined {
+  const db = getDb();
+  db.prepare(
+    `UPDATE "platform" SET "onboardingMode" = ?, "onboardingWelcome" = ?, "onboardingSelectors" = ?, "updatedAt" = ? WHERE "id" = ?`
+  ).run(
+    settings.onboardingMode,
+    settings.onboardingWelcome,
+    JSON.stringify(settings.onboardingSelectors),
+    new Date().toISOString(),
+    id,
+  );
+
+  const row = db.prepare('SELECT * FROM "platform" WHERE "id" = ?').get(id) as PlatformRow | undefined;
+  return row ? toPlatform(row) : undefined;
+}
+
+/** Replace the platform's publishable key; embeds using the old one stop connecting */
+export function rotatePublishableKey(id: string): Platform | undefined {
+  const db = getDb();
+  db.prepare(
+    `UPDATE "platform" SET "publishableKey" = ?, "updatedAt" = ? WHERE "id" = ?`
+  ).run(generatePublishableKey(), new Date().toISOString(), id);
+
+  const row = db.prepare('SELECT * FROM "platform" WHERE "id" = ?').get(id) as PlatformRow | undefined;
+  return row ? toPlatform(row) : undefined;
+}
+
+/** Replace the origins the widget may run on (already normalized by the caller) */
+export function updateAllowedOrigins(id: string, origins: string[]): Platform | undefined {
+  const db = getDb();
+  db.prepare(
+    `UPDATE "platform" SET "allowedOrigins" = ?, "updatedAt" = ? WHERE "id" = ?`
+  ).run(JSON.stringify(origins), new Date().toISOString(), id);
+
+  const row = db.prepare('SELECT * FROM "platform" WHERE "id" = ?').get(id) as PlatformRow | undefined;
+  return row ? toPlatform(row) : undefined;
 }
 
 // =====================================================
@@ -146,6 +295,9 @@ function ensureDocumentsTable(db: ReturnType<typeof Database>) {
       "filename"           TEXT NOT NULL,
       "sizeBytes"          INTEGER NOT NULL DEFAULT 0,
       "analysis"           TEXT,
+      "status"             TEXT NOT NULL DEFAULT 'processing' CHECK("status" IN ('processing','ready','failed')),
+      "analysisError"      TEXT,
+      "analyzedAt"         TEXT,
       "createdAt"          TEXT NOT NULL DEFAULT (datetime('now'))
     );
   `);
@@ -153,10 +305,27 @@ function ensureDocumentsTable(db: ReturnType<typeof Database>) {
   db.exec(`
     CREATE INDEX IF NOT EXISTS "document_platformId_idx" ON "platform_document"("platformId");
   `);
+
+  // Databases created before background analysis existed
+  if (ensureColumn(db, "platform_document", "status", `TEXT NOT NULL DEFAULT 'processing' CHECK("status" IN ('processing','ready','failed'))`)) {
+    ensureColumn(db, "platform_document", "analysisError", "TEXT");
+    db.exec(`
+      UPDATE "platform_document"
+      SET "status" = CASE WHEN "analysis" IS NULL THEN 'failed' ELSE 'ready' END,
+          "analysisError" = CASE WHEN "analysis" IS NULL THEN 'Uploaded before automatic analysis — retry to process' END
+    `);
+  }
+
+  // The widget server rebuilds a platform's knowledge corpus when this changes
+  if (ensureColumn(db, "platform_document", "analyzedAt", "TEXT")) {
+    db.exec(`UPDATE "platform_document" SET "analyzedAt" = "createdAt" WHERE "analysis" IS NOT NULL`);
+  }
 }
 
 // ---------- Document Types ----------
 
+export type DocumentStatus = "processing" | "ready" | "failed";
+
 export interface PlatformDocument {
   id: string;
   platformId: string;
@@ -165,7 +334,12 @@ export interface PlatformDocument {
   cloudinaryPublicId: string;
   filename: string;
   sizeBytes: number;
+  /** JSON-encoded DocumentAnalysis (see lib/document-analysis.ts) */
   analysis: string | null;
+  status: DocumentStatus;
+  analysisError: string | null;
+  /** When the analysis was last written */
+  analyzedAt: string | null;
   createdAt: string;
 }
 
@@ -201,8 +375,8 @@ export function createDocument(input: CreateDocumentInput): PlatformDocument {
   const now = new Date().toISOString();
 
   db.prepare(
-    `INSERT INTO "platform_document" ("id","platformId","type","cloudinaryUrl","cloudinaryPublicId","filename","sizeBytes","analysis","createdAt")
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    `INSERT INTO "platform_document" ("id","platformId","type","cloudinaryUrl","cloudinaryPublicId","filename","sizeBytes","analysis","analyzedAt","createdAt")
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
   ).run(
     id,
     input.platformId,
@@ -212,6 +386,7 @@ export function createDocument(input: CreateDocumentInput): PlatformDocument {
     input.filename,
     input.sizeBytes,
     input.analysis ?? null,
+    input.analysis ? now : null,
     now,
   );
 
@@ -220,10 +395,20 @@ export function createDocument(input: CreateDocumentInput): PlatformDocument {
 
 export function updateDocumentAnalysis(id: string, analysis: string): void {
   const db = getDb();
-  db.prepare('UPDATE "platform_document" SET "analysis" = ? WHERE "id" = ?').run(
-    analysis,
-    id,
-  );
+  db.prepare(
+    `UPDATE "platform_document" SET "analysis" = ?, "analyzedAt" = ?, "status" = 'ready', "analysisError" = NULL WHERE "id" = ?`
+  ).run(analysis, new Date().toISOString(), id);
+}
+
+export function updateDocumentStatus(
+  id: string,
+  status: DocumentStatus,
+  analysisError: string | null = null,
+): void {
+  const db = getDb();
+  db.prepare(
+    'UPDATE "platform_document" SET "status" = ?, "analysisError" = ? WHERE "id" = ?'
+  ).run(status, analysisError, id);
 }
 
 export function deleteDocument(id: string): boolean {
@@ -239,3 +424,568 @@ export function getDocumentCount(platformId: string): number {
     .get(platformId) as { count: number };
   return row.count;
 }
+
+// ---------- Transcripts ----------
+
+// Written by the widget server (apps/server/src/transcripts)
+function ensureTranscriptTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "transcript_entry" (
+      "id"          INTEGER PRIMARY KEY AUTOINCREMENT,
+      "sessionId"   TEXT NOT NULL,
+      "platformId"  TEXT NOT NULL,
+      "role"        TEXT NOT NULL CHECK("role" IN ('user','assistant','tool')),
+      "kind"        TEXT NOT NULL CHECK("kind" IN ('speech','text','tool_call')),
+      "content"     TEXT NOT NULL,
+      "toolName"    TEXT,
+      "toolArgs"    TEXT,
+      "toolResult"  TEXT,
+      "createdAt"   TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS "transcript_session_idx" ON "transcript_entry"("platformId", "sessionId");
+    CREATE INDEX IF NOT EXISTS "transcript_created_idx" ON "transcript_entry"("platformId", "createdAt");
+  `);
+}
+
+export interface TranscriptEntry {
+  id: number;
+  sessionId: string;
+  platformId: string;
+  role: "user" | "assistant" | "tool";
+  kind: "speech" | "text" | "tool_call";
+  content: string;
+  toolName: string | null;
+  /** JSON-encoded tool arguments */
+  toolArgs: string | null;
+  /** JSON-encoded tool result (large results are truncated) */
+  toolResult: string | null;
+  createdAt: string;
+}
+
+export interface TranscriptSessionSummary {
+  sessionId: string;
+  startedAt: string;
+  endedAt: string;
+  entryCount: number;
+  toolCallCount: number;
+  /** First thing the user said or typed */
+  firstUserMessage: string | null;
+}
+
+export function getTranscriptSessions(
+  platformId: string,
+  limit = 100,
+): TranscriptSessionSummary[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT "sessionId",
+              MIN("createdAt") AS "startedAt",
+              MAX("createdAt") AS "endedAt",
+              COUNT(*) AS "entryCount",
+              SUM("kind" = 'tool_call') AS "toolCallCount",
+              (SELECT "content" FROM "transcript_entry" f
+                WHERE f."platformId" = t."platformId" AND f."sessionId" = t."sessionId" AND f."role" = 'user'
+                ORDER BY f."id" LIMIT 1) AS "firstUserMessage"
+       FROM "transcript_entry" t
+       WHERE "platformId" = ?
+       GROUP BY "sessionId"
+       ORDER BY "endedAt" DESC
+       LIMIT ?`
+    )
+    .all(platformId, limit) as TranscriptSessionSummary[];
+}
+
+export function getTranscriptEntries(
+  platformId: string,
+  sessionId: string,
+): TranscriptEntry[] {
+  const db = getDb();
+  return db
+    .prepare(
+      'SELECT * FROM "transcript_entry" WHERE "platformId" = ? AND "sessionId" = ? ORDER BY "id"'
+    )
+    .all(platformId, sessionId) as TranscriptEntry[];
+}
+
+// ---------- Analytics ----------
+
+// Written by the widget server (apps/server/src/analytics)
+function ensureAnalyticsTables(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "widget_session" (
+      "sessionId"       TEXT NOT NULL PRIMARY KEY,
+      "platformId"      TEXT NOT NULL,
+      "startedAt"       TEXT NOT NULL,
+      "endedAt"         TEXT,
+      "durationMs"      INTEGER NOT NULL DEFAULT 0,
+      "usedScreenShare" INTEGER NOT NULL DEFAULT 0,
+      "usedMic"         INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS "widget_session_started_idx" ON "widget_session"("platformId", "startedAt");
+
+    CREATE TABLE IF NOT EXISTS "widget_event" (
+      "id"          INTEGER PRIMARY KEY AUTOINCREMENT,
+      "sessionId"   TEXT NOT NULL,
+      "platformId"  TEXT NOT NULL,
+      "type"        TEXT NOT NULL CHECK("type" IN ('tool_call','overlay','error')),
+      "name"        TEXT NOT NULL,
+      "success"     INTEGER NOT NULL DEFAULT 1,
+      "detail"      TEXT,
+      "createdAt"   TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS "widget_event_created_idx" ON "widget_event"("platformId", "createdAt");
+  `);
+}
+
+export interface AnalyticsDay {
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  sessions: number;
+  toolCalls: number;
+  errors: number;
+}
+
+export interface AnalyticsSummary {
+  from: string;
+  to: string;
+  totals: {
+    sessions: number;
+    /** Average over sessions that have ended */
+    avgDurationMs: number;
+    screenShareSessions: number;
+    micSessions: number;
+    toolCalls: number;
+    errors: number;
+  };
+  /** One entry per day in the range, including empty days */
+  daily: AnalyticsDay[];
+  toolCalls: { name: string; count: number; failures: number }[];
+  /** Highlight render results reported by the widget, by status */
+  overlays: { status: string; count: number }[];
+  errors: { source: string; count: number }[];
+}
+
+/**
+ * Aggregate widget usage for a platform between two UTC dates
+ * (`from` and `to` are YYYY-MM-DD, both inclusive).
+ */
+export function getAnalytics(
+  platformId: string,
+  from: string,
+  to: string,
+): AnalyticsSummary {
+  const db = getDb();
+  const start = `${from}T00:00:00.000Z`;
+  const end = new Date(Date.parse(`${to}T00:00:00.000Z`) + 86_400_000).toISOString();
+
+  const sessions = db
+    .prepare(
+      `SELECT COUNT(*) AS "sessions",
+              COALESCE(AVG(CASE WHEN "endedAt" IS NOT NULL THEN "durationMs" END), 0) AS "avgDurationMs",
+              COALESCE(SUM("usedScreenShare"), 0) AS "screenShareSessions",
+              COALESCE(SUM("usedMic"), 0) AS "micSessions"
+       FROM "widget_session"
+       WHERE "platformId" = ? AND "startedAt" >= ? AND "startedAt" < ?`
+    )
+    .get(platformId, start, end) as Omit<AnalyticsSummary["totals"], "toolCalls" | "errors">;
+
+  const toolCalls = db
+    .prepare(
+      `SELECT "name", COUNT(*) AS "count", SUM("success" = 0) AS "failures"
+       FROM "widget_event"
+       WHERE "platformId" = ? AND "type" = 'tool_call' AND "createdAt" >= ? AND "createdAt" < ?
+       GROUP BY "name"
+       ORDER BY "count" DESC`
+    )
+    .all(platformId, start, end) as AnalyticsSummary["toolCalls"];
+
+  const overlays = db
+    .prepare(
+      `SELECT "name" AS "status", COUNT(*) AS "count"
+       FROM "widget_event"
+       WHERE "platformId" = ? AND "type" = 'overlay' AND "createdAt" >= ? AND "createdAt" < ?
+       GROUP BY "name"
+       ORDER BY "count" DESC`
+    )
+    .all(platformId, start, end) as AnalyticsSummary["overlays"];
+
+  const errors = db
+    .prepare(
+      `SELECT "name" AS "source", COUNT(*) AS "count"
+       FROM "widget_event"
+       WHERE "platformId" = ? AND "type" = 'error' AND "createdAt" >= ? AND "createdAt" < ?
+       GROUP BY "name"
+       ORDER BY "count" DESC`
+    )
+    .all(platformId, start, end) as AnalyticsSummary["errors"];
+
+  const sessionDays = db
+    .prepare(
+      `SELECT substr("startedAt", 1, 10) AS "date", COUNT(*) AS "count"
+       FROM "widget_session"
+       WHERE "platformId" = ? AND "startedAt" >= ? AND "startedAt" < ?
+       GROUP BY "date"`
+    )
+    .all(platformId, start, end) as { date: string; count: number }[];
+
+  const eventDays = db
+    .prepare(
+      `SELECT substr("createdAt", 1, 10) AS "date",
+              SUM("type" = 'tool_call') AS "toolCalls",
+              SUM("type" = 'error') AS "errors"
+       FROM "widget_event"
+       WHERE "platformId" = ? AND "createdAt" >= ? AND "createdAt" < ?
+       GROUP BY "date"`
+    )
+    .all(platformId, start, end) as { date: string; toolCalls: number; errors: number }[];
+
+  const daily: AnalyticsDay[] = [];
+  for (let t = Date.parse(start); t < Date.parse(end); t += 86_400_000) {
+    const date = new Date(t).toISOString().slice(0, 10);
+    const events = eventDays.find((d) => d.date === date);
+    daily.push({
+      date,
+      sessions: sessionDays.find((d) => d.date === date)?.count ?? 0,
+      toolCalls: events?.toolCalls ?? 0,
+      errors: events?.errors ?? 0,
+    });
+  }
+
+  return {
+    from,
+    to,
+    totals: {
+      ...sessions,
+      toolCalls: toolCalls.reduce((sum, t) => sum + t.count, 0),
+      errors: errors.reduce((sum, e) => sum + e.count, 0),
+    },
+    daily,
+    toolCalls,
+    overlays,
+    errors,
+  };
+}
+
+// ---------- Product Tours ----------
+
+// Read by the widget server (apps/server/src/tours)
+function ensureToursTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "platform_tour" (
+      "id"           TEXT NOT NULL PRIMARY KEY,
+      "platformId"   TEXT NOT NULL REFERENCES "platform"("id") ON DELETE CASCADE,
+      "name"         TEXT NOT NULL,
+      "description"  TEXT,
+      "steps"        TEXT NOT NULL,
+      "isOnboarding" INTEGER NOT NULL DEFAULT 0,
+      "createdAt"    TEXT NOT NULL,
+      "updatedAt"    TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS "tour_platform_name_idx" ON "platform_tour"("platformId", "name");
+  `);
+}
+
+/** What moves a tour on to its next step ("delay" auto-advances after delay_ms) */
+export type TourWaitFor = "click" | "url_change" | "element_visible" | "input_value" | "delay";
+
+export interface TourStep {
+  selector: string;
+  /** Short text shown next to the highlight */
+  label: string;
+  /** What the assistant says at this step, word for word */
+  narration: string;
+  wait_for: TourWaitFor;
+  /** Element watched by element_visible / input_value (defaults to selector) */
+  target?: string;
+  /** Exact value input_value waits for */
+  value?: string;
+  /** How long a "delay" step stays up */
+  delay_ms?: number;
+}
+
+export interface PlatformTour {
+  id: string;
+  platformId: string;
+  name: string;
+  description: string | null;
+  steps: TourStep[];
+  /** Played automatically when a visitor first shares their screen */
+  isOnboarding: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TourInput {
+  name: string;
+  description: string | null;
+  steps: TourStep[];
+  isOnboarding: boolean;
+}
+
+interface TourRow extends Omit<PlatformTour, "steps" | "isOnboarding"> {
+  /** JSON-encoded TourStep[] */
+  steps: string;
+  isOnboarding: number;
+}
+
+function toTour(row: TourRow): PlatformTour {
+  return { ...row, steps: JSON.parse(row.steps), isOnboarding: row.isOnboarding === 1 };
+}
+
+export function getToursByPlatformId(platformId: string): PlatformTour[] {
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT * FROM "platform_tour" WHERE "platformId" = ? ORDER BY "name"')
+    .all(platformId) as TourRow[];
+  return rows.map(toTour);
+}
+
+export function getTourById(id: string): PlatformTour | undefined {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM "platform_tour" WHERE "id" = ?').get(id) as TourRow | undefined;
+  return row ? toTour(row) : undefined;
+}
+
+/** Only one tour per platform can be the onboarding tour */
+function clearOnboardingTour(platformId: string): void {
+  getDb().prepare('UPDATE "platform_tour" SET "isOnboarding" = 0 WHERE "platformId" = ?').run(platformId);
+}
+
+/** Throws on a duplicate name (SQLITE_CONSTRAINT_UNIQUE) */
+export function createTour(platformId: string, input: TourInput): PlatformTour {
+  const db = getDb();
+  const id = `tour_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`;
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    if (input.isOnboarding) clearOnboardingTour(platformId);
+    db.prepare(
+      `INSERT INTO "platform_tour" ("id","platformId","name","description","steps","isOnboarding","createdAt","updatedAt")
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(id, platformId, input.name, input.description, JSON.stringify(input.steps), input.isOnboarding ? 1 : 0, now, now);
+  })();
+
+  return getTourById(id)!;
+}
+
+/** Throws on a duplicate name (SQLITE_CONSTRAINT_UNIQUE) */
+export function updateTour(tour: PlatformTour, input: TourInput): PlatformTour {
+  const db = getDb();
+
+  db.transaction(() => {
+    if (input.isOnboarding) clearOnboardingTour(tour.platformId);
+    db.prepare(
+      `UPDATE "platform_tour"
+       SET "name" = ?, "description" = ?, "steps" = ?, "isOnboarding" = ?, "updatedAt" = ?
+       WHERE "id" = ?`
+    ).run(input.name, input.description, JSON.stringify(input.steps), input.isOnboarding ? 1 : 0, new Date().toISOString(), tour.id);
+  })();
+
+  return getTourById(tour.id)!;
+}
+
+export function deleteTour(id: string): boolean {
+  const db = getDb();
+  const result = db.prepare('DELETE FROM "platform_tour" WHERE "id" = ?').run(id);
+  return result.changes > 0;
+}
+
+// ---------- Assistant Persona ----------
+
+// Read by the widget server (apps/server/src/persona)
+function ensurePersonaTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "platform_persona" (
+      "platformId"      TEXT NOT NULL PRIMARY KEY REFERENCES "platform"("id") ON DELETE CASCADE,
+      "assistantName"   TEXT NOT NULL,
+      "tone"            TEXT NOT NULL CHECK("tone" IN ('friendly','professional','concise','playful')),
+      "voice"           TEXT NOT NULL,
+      "language"        TEXT,
+      "instructions"    TEXT,
+      "forbiddenTopics" TEXT NOT NULL DEFAULT '[]',
+      "updatedAt"       TEXT NOT NULL
+    );
+  `);
+
+  // Every platform has a persona row, so the server never falls back to its own defaults
+  const missing = db
+    .prepare('SELECT "id" FROM "platform" WHERE "id" NOT IN (SELECT "platformId" FROM "platform_persona")')
+    .all() as { id: string }[];
+  for (const row of missing) savePersona(row.id, DEFAULT_PERSONA, db);
+}
+
+export type AssistantTone = "friendly" | "professional" | "concise" | "playful";
+
+export interface AssistantPersona {
+  platformId: string;
+  /** What the assistant calls itself */
+  assistantName: string;
+  tone: AssistantTone;
+  /** Gemini Live prebuilt voice name */
+  voice: string;
+  /** Language code the assistant always answers in (null: the user's language) */
+  language: string | null;
+  /** Extra instructions added to the assistant's prompt */
+  instructions: string | null;
+  /** Topics the assistant declines to discuss */
+  forbiddenTopics: string[];
+  updatedAt: string;
+}
+
+export type PersonaInput = Omit<AssistantPersona, "platformId" | "updatedAt">;
+
+/** The persona every new platform starts with */
+export const DEFAULT_PERSONA: PersonaInput = {
+  assistantName: "Ocula AI",
+  tone: "friendly",
+  voice: "Kore",
+  language: null,
+  instructions: null,
+  forbiddenTopics: [],
+};
+
+interface PersonaRow extends Omit<AssistantPersona, "forbiddenTopics"> {
+  /** JSON-encoded string[] */
+  forbiddenTopics: string;
+}
+
+export function getPersonaByPlatformId(platformId: string): AssistantPersona | undefined {
+  const db = getDb();
+  const row = db
+    .prepare('SELECT * FROM "platform_persona" WHERE "platformId" = ?')
+    .get(platformId) as PersonaRow | undefined;
+  return row ? { ...row, forbiddenTopics: JSON.parse(row.forbiddenTopics) } : undefined;
+}
+
+export function savePersona(platformId: string, input: PersonaInput, db = getDb()): AssistantPersona {
+  db.prepare(
+    `INSERT INTO "platform_persona" ("platformId","assistantName","tone","voice","language","instructions","forbiddenTopics","updatedAt")
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT("platformId") DO UPDATE SET
+       "assistantName" = excluded."assistantName",
+       "tone" = excluded."tone",
+       "voice" = excluded."voice",
+       "language" = excluded."language",
+       "instructions" = excluded."instructions",
+       "forbiddenTopics" = excluded."forbiddenTopics",
+       "updatedAt" = excluded."updatedAt"`
+  ).run(
+    platformId,
+    input.assistantName,
+    input.tone,
+    input.voice,
+    input.language,
+    input.instructions,
+    JSON.stringify(input.forbiddenTopics),
+    new Date().toISOString(),
+  );
+
+  return getPersonaByPlatformId(platformId)!;
+}
+
+// ---------- Widget Origins ----------
+
+// Written by the widget server (apps/server/src/widget-auth/origins.ts)
+function ensureWidgetOriginTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "widget_origin" (
+      "platformId"    TEXT NOT NULL,
+      "origin"        TEXT NOT NULL,
+      "firstSeenAt"   TEXT NOT NULL,
+      "lastSeenAt"    TEXT NOT NULL,
+      "connections"   INTEGER NOT NULL DEFAULT 0,
+      "blocked"       INTEGER NOT NULL DEFAULT 0,
+      "lastBlockedAt" TEXT,
+      PRIMARY KEY ("platformId", "origin")
+    );
+  `);
+}
+
+/** A page origin the widget was loaded from, allowed or not */
+export interface WidgetOrigin {
+  origin: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  /** Widget connections accepted from this origin */
+  connections: number;
+  /** Token requests and connections refused because the origin isn't allowed */
+  blocked: number;
+  lastBlockedAt: string | null;
+}
+
+export function getWidgetOrigins(platformId: string, limit = 50): WidgetOrigin[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT "origin","firstSeenAt","lastSeenAt","connections","blocked","lastBlockedAt"
+       FROM "widget_origin"
+       WHERE "platformId" = ?
+       ORDER BY "lastSeenAt" DESC
+       LIMIT ?`
+    )
+    .all(platformId, limit) as WidgetOrigin[];
+}
+
+// ---------- Usage Quotas ----------
+
+// Written by the widget server (apps/server/src/quotas)
+function ensureUsageTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "platform_usage" (
+      "platformId"  TEXT NOT NULL,
+      "month"       TEXT NOT NULL,
+      "liveSeconds" INTEGER NOT NULL DEFAULT 0,
+      "requests"    INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY ("platformId", "month")
+    );
+  `);
+}
+
+/** A platform's usage against its quotas for one UTC calendar month */
+export interface UsageSummary {
+  /** YYYY-MM */
+  month: string;
+  liveMinutes: { used: number; quota: number };
+  requests: { used: number; quota: number };
+  /** Messages dropped and Live sessions refused for limits this month */
+  limitEvents: { code: string; count: number }[];
+}
+
+export function getUsage(platform: Platform, month = new Date().toISOString().slice(0, 7)): UsageSummary {
+  const db = getDb();
+  const usage = db
+    .prepare('SELECT "liveSeconds", "requests" FROM "platform_usage" WHERE "platformId" = ? AND "month" = ?')
+    .get(platform.id, month) as { liveSeconds: number; requests: number } | undefined;
+
+  const limitEvents = db
+    .prepare(
+      `SELECT "detail" AS "code", COUNT(*) AS "count"
+       FROM "widget_event"
+       WHERE "platformId" = ? AND "type" = 'error' AND "name" = 'quota' AND substr("createdAt", 1, 7) = ?
+       GROUP BY "detail"
+       ORDER BY "count" DESC`
+    )
+    .all(platform.id, month) as UsageSummary["limitEvents"];
+
+  return {
+    month,
+    liveMinutes: { used: Math.ceil((usage?.liveSeconds ?? 0) / 60), quota: platform.monthlyLiveMinutes },
+    requests: { used: usage?.requests ?? 0, quota: platform.monthlyRequests },
+    limitEvents,
+  };
+}
+
+// ---------- Onboarded Visitors ----------
+
+// Written by the widget server (apps/server/src/onboarding)
+function ensureOnboardedVisitorTable(db: ReturnType<typeof Database>) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "onboarded_visitor" (
+      "platformId"  TEXT NOT NULL,
+      "visitorId"   TEXT NOT NULL,
+      "onboardedAt" TEXT NOT NULL,
+      PRIMARY KEY ("platformId", "visitorId")
+    );
+  `);
+}
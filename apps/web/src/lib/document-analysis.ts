@@ -0,0 +1,257 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { extractText, getDocumentProxy } from "unpdf";
+import type { FileType } from "@/lib/cloudinary";
+import {
+  updateDocumentAnalysis,
+  updateDocumentStatus,
+  type PlatformDocument,
+} from "@/lib/db";
+
+// ---------- Types ----------
+
+export interface AnalysisSection {
+  title: string;
+  content: string;
+}
+
+/** Structured analysis stored as JSON in platform_document.analysis */
+export interface DocumentAnalysis {
+  /** One or two sentence overview of the document */
+  summary: string;
+  sections: AnalysisSection[];
+  /** Buttons, menus, tabs and fields the document refers to */
+  uiTerms: string[];
+  /** Full extracted text */
+  text: string;
+  analyzedAt: string;
+}
+
+const VISION_MODEL = "gemini-3-flash-preview";
+const MAX_SUMMARY_LENGTH = 300;
+const MAX_UI_TERMS = 40;
+
+// ---------- Extraction ----------
+
+/** "billing-guide_v2.md" → "Billing guide v2" */
+function titleFromFilename(filename: string): string {
+  const base = filename.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " ").trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+/**
+ * Split markdown into sections on #, ## and ### headings.
+ * Text before the first heading is filed under `fallbackTitle`.
+ */
+function splitMarkdownSections(
+  markdown: string,
+  fallbackTitle: string,
+): AnalysisSection[] {
+  const sections: AnalysisSection[] = [];
+  let title = fallbackTitle;
+  let lines: string[] = [];
+
+  const push = () => {
+    const content = lines.join("\n").trim();
+    if (content) sections.push({ title, content });
+  };
+
+  for (const line of markdown.split("\n")) {
+    const heading = line.match(/^#{1,3}\s+(.+)/);
+    if (heading) {
+      push();
+      title = heading[1].trim();
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  push();
+
+  return sections;
+}
+
+/** First prose paragraph, shortened to a summary */
+function summarize(text: string): string {
+  const paragraph =
+    text
+      .split(/\n\s*\n/)
+      .map((p) => p.replace(/^#+\s.*$/gm, "").replace(/\s+/g, " ").trim())
+      .find((p) => p.length > 40) ?? text.replace(/\s+/g, " ").trim();
+
+  if (paragraph.length <= MAX_SUMMARY_LENGTH) return paragraph;
+  return paragraph.slice(0, MAX_SUMMARY_LENGTH).replace(/\s+\S*$/, "") + "…";
+}
+
+/**
+ * Detect UI labels mentioned in help text: `code spans`, **bold** labels,
+ * quoted labels, and phrases like "the Save button" or "click Settings".
+ */
+function detectUiTerms(text: string): string[] {
+  const patterns = [
+    /`([^`\n]{2,40})`/g,
+    /\*\*([^*\n]{2,40})\*\*/g,
+    /["“]([A-Z][^"”\n]{1,38})["”]/g,
+    /\b(?:click|tap|select|open|press|choose)\s+(?:the\s+|on\s+)?([A-Z][\w&-]*(?:\s+[A-Z][\w&-]*){0,3})/g,
+    /\b(?:the\s+)?([A-Z][\w&-]*(?:\s+[A-Z][\w&-]*){0,3})\s+(?:button|tab|menu|page|field|link|icon|dropdown|panel|dialog)\b/g,
+  ];
+
+  const seen = new Map<string, string>();
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const term = match[1].trim();
+      const key = term.toLowerCase();
+      if (term.length > 1 && !seen.has(key)) seen.set(key, term);
+    }
+  }
+
+  return [...seen.values()].slice(0, MAX_UI_TERMS);
+}
+
+/** Build an analysis from plain/markdown text */
+function analyzeText(
+  text: string,
+  sections: AnalysisSection[],
+): Omit<DocumentAnalysis, "analyzedAt"> {
+  return {
+    summary: summarize(text),
+    sections,
+    uiTerms: detectUiTerms(text),
+    text,
+  };
+}
+
+function analyzeMarkdown(buffer: Buffer, filename: string) {
+  const text = buffer.toString("utf-8");
+  return analyzeText(text, splitMarkdownSections(text, titleFromFilename(filename)));
+}
+
+async function analyzePdf(buffer: Buffer, filename: string) {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { text: pages } = await extractText(pdf, { mergePages: false });
+
+  const title = titleFromFilename(filename);
+  const sections = pages
+    .map((page, i) => ({
+      title: pages.length > 1 ? `${title} — page ${i + 1}` : title,
+      content: page.trim(),
+    }))
+    .filter((s) => s.content.length > 0);
+
+  if (sections.length === 0) {
+    throw new Error("No extractable text (scanned PDFs are not supported yet)");
+  }
+
+  return analyzeText(pages.join("\n\n"), sections);
+}
+
+async function analyzeImage(buffer: Buffer, filename: string) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY is not set, image analysis is unavailable");
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const ext = filename.split(".").pop()?.toLowerCase();
+  const mimeType = ext === "png" ? "image/png" : ext === "webp" ? "image/webp" : "image/jpeg";
+
+  const response = await ai.models.generateContent({
+    model: VISION_MODEL,
+    contents: [
+      {
+        role: "user",
+        parts: [
+          { inlineData: { mimeType, data: buffer.toString("base64") } },
+          {
+            text:
+              "This image was uploaded as product documentation for a web application " +
+              "(a screenshot, diagram or help page). Transcribe all readable text, describe " +
+              "what the screen is for, and list every visible UI element label (buttons, " +
+              "menu items, tabs, fields). Group the content into short titled sections.",
+          },
+        ],
+      },
+    ],
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          summary: { type: Type.STRING },
+          sections: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                title: { type: Type.STRING },
+                content: { type: Type.STRING },
+              },
+              required: ["title", "content"],
+            },
+          },
+          uiTerms: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ["summary", "sections", "uiTerms"],
+      },
+    },
+  });
+
+  const parsed = JSON.parse(response.text ?? "{}") as Partial<
+    Pick<DocumentAnalysis, "summary" | "sections" | "uiTerms">
+  >;
+  const sections = (parsed.sections ?? []).filter((s) => s.title && s.content);
+
+  return {
+    summary: parsed.summary?.trim() ?? "",
+    sections,
+    uiTerms: (parsed.uiTerms ?? []).slice(0, MAX_UI_TERMS),
+    text: sections.map((s) => `## ${s.title}\n${s.content}`).join("\n\n"),
+  };
+}
+
+/**
+ * Extract text and structure from an uploaded file.
+ */
+export async function analyzeDocument(
+  buffer: Buffer,
+  filename: string,
+  type: FileType,
+): Promise<DocumentAnalysis> {
+  const result =
+    type === "markdown"
+      ? analyzeMarkdown(buffer, filename)
+      : type === "pdf"
+        ? await analyzePdf(buffer, filename)
+        : await analyzeImage(buffer, filename);
+
+  return { ...result, analyzedAt: new Date().toISOString() };
+}
+
+// ---------- Background job ----------
+
+/**
+ * Analyze a document and record the result on its row.
+ * Never throws — failures are stored as status "failed" with a message.
+ * When no buffer is given the file is downloaded from Cloudinary (retries).
+ */
+export async function processDocument(
+  doc: PlatformDocument,
+  buffer?: Buffer,
+): Promise<void> {
+  updateDocumentStatus(doc.id, "processing");
+
+  try {
+    let data = buffer;
+    if (!data) {
+      const res = await fetch(doc.cloudinaryUrl);
+      if (!res.ok) throw new Error(`Download failed with HTTP ${res.status}`);
+      data = Buffer.from(await res.arrayBuffer());
+    }
+
+    const analysis = await analyzeDocument(data, doc.filename, doc.type);
+    updateDocumentAnalysis(doc.id, JSON.stringify(analysis));
+  } catch (err) {
+    console.error(`Analysis failed for ${doc.filename} (${doc.id}):`, err);
+    const message = err instanceof Error ? err.message : "Analysis failed";
+    updateDocumentStatus(doc.id, "failed", message);
+  }
+}